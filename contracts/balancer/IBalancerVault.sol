@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+pragma solidity >=0.7.0;
+
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+
+/// @title IFlashLoanRecipient
+/// @notice Interface for contracts receiving flashloans of the Balancer V2 vault.
+interface IFlashLoanRecipient {
+	/// @notice Called by the vault after the loaned tokens were transferred to the recipient.
+	/// @dev The tokens and fees have to be transferred back to the vault before returning,
+	/// the vault checks its balances afterwards.
+	/// @param tokens The loaned tokens, sorted ascending without duplicates.
+	/// @param amounts The loaned amounts.
+	/// @param feeAmounts The fees to pay on top of the amounts.
+	/// @param userData Arbitrary data passed to the `flashLoan` function.
+	function receiveFlashLoan(
+		IERC20[] memory tokens,
+		uint256[] memory amounts,
+		uint256[] memory feeAmounts,
+		bytes memory userData
+	) external;
+}
+
+/// @title IBalancerVault
+/// @notice Flashloan subset of the Balancer V2 vault.
+interface IBalancerVault {
+	/// @notice Emitted for every token loaned by `flashLoan`.
+	event FlashLoan(IFlashLoanRecipient indexed recipient, IERC20 indexed token, uint256 amount, uint256 feeAmount);
+
+	/// @notice Loans the tokens to the recipient and calls `receiveFlashLoan` on it.
+	/// @param recipient The receiver of the tokens and the callback.
+	/// @param tokens The tokens to loan, sorted ascending without duplicates.
+	/// @param amounts The amounts to loan.
+	/// @param userData Arbitrary data passed to the recipient.
+	function flashLoan(IFlashLoanRecipient recipient, IERC20[] memory tokens, uint256[] memory amounts, bytes memory userData) external;
+}
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Reference} from './IFlashloanOrchestrator.sol';
+
+/// @title ActionReferenceLib
+/// @notice Reads abi encoded words from action results and patches them into the data of later actions
+/// @dev Only static 32 byte values (uint, int, address, bool, bytes32) can be referenced,
+/// the word index and byte offset are positions in the abi encoding of the result and the data.
+library ActionReferenceLib {
+	/// @notice Thrown when a reference points outside of a result or data
+	/// @param index Index of the reference
+	error InvalidReference(uint256 index);
+
+	/// @notice Thrown when a reference targets a missing action or reads an action not executed before its target
+	/// @param index Index of the reference
+	error UnresolvableReference(uint256 index);
+
+	/// @notice Checks that every reference targets an action and reads an earlier one
+	/// @dev Called before any action runs, results and data bounds are checked by resolve
+	/// @param references All references of the execution
+	/// @param count Number of actions of the execution
+	function validate(Reference[] memory references, uint256 count) internal pure {
+		for (uint256 i = 0; i < references.length; i++) {
+			if (references[i].target >= count || references[i].action >= references[i].target) revert UnresolvableReference(i);
+		}
+	}
+
+	/// @notice Patches all references targeting the action at index into its data
+	/// @param data Data of the action, modified in place
+	/// @param index Index of the action about to be executed
+	/// @param references All references of the execution, checked by validate
+	/// @param results Results of the executed actions, only indices below index are set
+	function resolve(bytes memory data, uint256 index, Reference[] memory references, bytes[] memory results) internal pure {
+		for (uint256 i = 0; i < references.length; i++) {
+			Reference memory ref = references[i];
+			if (ref.target != index) continue;
+
+			// bounds of the result and the data, without overflowing on large word or offset
+			if (ref.word >= results[ref.action].length / 32) revert InvalidReference(i);
+			if (data.length < 32 || ref.offset > data.length - 32) revert InvalidReference(i);
+
+			writeWord(data, ref.offset, readWord(results[ref.action], ref.word));
+		}
+	}
+
+	/// @notice Returns the word at index of an abi encoded result, unchecked
+	function readWord(bytes memory result, uint256 word) internal pure returns (bytes32 value) {
+		assembly {
+			value := mload(add(add(result, 0x20), mul(word, 0x20)))
+		}
+	}
+
+	/// @notice Overwrites 32 bytes of data at the byte offset, unchecked
+	function writeWord(bytes memory data, uint256 offset, bytes32 value) internal pure {
+		assembly {
+			mstore(add(add(data, 0x20), offset), value)
+		}
+	}
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IMorpho, MarketParams, Id} from '../morpho/IMorpho.sol';
+import {FlashloanHook_ERC4626} from './FlashloanHook_ERC4626.sol';
+
+/// @title FlashloanHookFactory_ERC4626
+/// @notice Deploys one FlashloanHook_ERC4626 per Morpho market and keeps the registry of deployed hooks
+/// @author WrytLabs
+contract FlashloanHookFactory_ERC4626 {
+	address public immutable orchestrator;
+	address public immutable morpho;
+
+	// market id => hook
+	mapping(Id => address) public hooks;
+
+	event Created(address indexed hook, Id indexed marketId, address indexed vault);
+
+	error HookExists(Id marketId, address hook);
+
+	constructor(address _orchestrator, address _morpho) {
+		orchestrator = _orchestrator;
+		morpho = _morpho;
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	/// @notice Deploys the hook for a market, the collateral token of the market has to be the vault
+	function create(Id _marketId) external returns (address) {
+		if (hooks[_marketId] != address(0)) revert HookExists(_marketId, hooks[_marketId]);
+
+		MarketParams memory market = IMorpho(morpho).idToMarketParams(_marketId);
+		FlashloanHook_ERC4626 instance = new FlashloanHook_ERC4626(orchestrator, morpho, market.collateralToken, _marketId);
+
+		hooks[_marketId] = address(instance);
+		emit Created(address(instance), _marketId, market.collateralToken);
+
+		return address(instance);
+	}
+}
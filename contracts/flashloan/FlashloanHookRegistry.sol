@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Ownable2Step, Ownable} from '@openzeppelin/contracts/access/Ownable2Step.sol';
+import {EnumerableSet} from '@openzeppelin/contracts/utils/structs/EnumerableSet.sol';
+
+import {IFlashloanHookRegistry} from './IFlashloanHookRegistry.sol';
+
+/// @title FlashloanHookRegistry
+/// @notice Owner governed allowlist of hooks, consulted by the FlashloanOrchestrator before every hook call
+/// @dev The owner is meant to be a DAO, paused hooks stay registered and can be resumed without a new proposal to add them
+/// @author WrytLabs
+contract FlashloanHookRegistry is IFlashloanHookRegistry, Ownable2Step {
+	using EnumerableSet for EnumerableSet.AddressSet;
+
+	/// @notice Registered hooks
+	EnumerableSet.AddressSet private hooks;
+
+	/// @notice Paused hooks, only set for registered hooks
+	mapping(address => bool) public isPaused;
+
+	constructor(address _owner) Ownable(_owner) {}
+
+	// ---------------------------------------------------------------------------------------
+
+	/// @inheritdoc IFlashloanHookRegistry
+	function isAllowed(address hook) external view returns (bool) {
+		return hooks.contains(hook) && !isPaused[hook];
+	}
+
+	/// @inheritdoc IFlashloanHookRegistry
+	function isRegistered(address hook) external view returns (bool) {
+		return hooks.contains(hook);
+	}
+
+	/// @inheritdoc IFlashloanHookRegistry
+	function getHooks() external view returns (address[] memory) {
+		return hooks.values();
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	/// @inheritdoc IFlashloanHookRegistry
+	function addHook(address hook) external onlyOwner {
+		if (!hooks.add(hook)) revert HookAlreadyRegistered(hook);
+		emit HookAdded(hook);
+	}
+
+	/// @inheritdoc IFlashloanHookRegistry
+	function removeHook(address hook) external onlyOwner {
+		if (!hooks.remove(hook)) revert HookNotRegistered(hook);
+		delete isPaused[hook];
+		emit HookRemoved(hook);
+	}
+
+	/// @inheritdoc IFlashloanHookRegistry
+	function setPaused(address hook, bool paused) external onlyOwner {
+		if (!hooks.contains(hook)) revert HookNotRegistered(hook);
+		isPaused[hook] = paused;
+		emit HookPaused(hook, paused);
+	}
+}
@@ -0,0 +1,252 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Math} from '@openzeppelin/contracts/utils/math/Math.sol';
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import {SafeERC20} from '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
+import {IERC4626} from '@openzeppelin/contracts/interfaces/IERC4626.sol';
+
+import {IMorpho, MarketParams, Id, Position, Market} from '../morpho/IMorpho.sol';
+import {SharesMathLib} from '../morpho/SharesMathLib.sol';
+
+import {IFlashloanHook} from './IFlashloanHook.sol';
+import {IFlashloanOrchestrator} from './IFlashloanOrchestrator.sol';
+
+/// @title FlashloanHook_ERC4626
+/// @notice Leverage hook for Morpho markets with an ERC-4626 vault as collateral and its asset as loan token
+/// @dev Deployed per market by FlashloanHookFactory_ERC4626, FlashloanHook_SavingsVaultZCHF is its svZCHF deployment
+contract FlashloanHook_ERC4626 is IFlashloanHook {
+	using Math for uint256;
+	using SharesMathLib for uint256;
+	using SafeERC20 for IERC20;
+
+	IFlashloanOrchestrator public immutable orchestrator;
+
+	IMorpho public immutable morpho;
+	IERC4626 public immutable vault;
+	MarketParams public market;
+
+	// opcodes
+	uint8 public constant INCREASE_LEVERAGE = 0;
+	uint8 public constant DECREASE_LEVERAGE = 1;
+	uint8 public constant CLOSE_TO_LOAN = 2;
+	uint8 public constant CLOSE_TO_COLLATERAL = 3;
+
+	// action data, either abi.encode(uint8 opcode) or abi.encode(uint8 opcode, Limits limits)
+	uint256 private constant DATA_OPCODE_LENGTH = 32;
+	uint256 private constant DATA_LIMITS_LENGTH = 128;
+
+	// slippage limits, zero disables a limit
+	// minAmountOut: shares deposited (increase), assets redeemed (decrease), asset equity (close to loan), share equity (close to collateral)
+	// maxRepay: debt repaid (decrease and close)
+	// deadline: latest block timestamp
+	struct Limits {
+		uint256 minAmountOut;
+		uint256 maxRepay;
+		uint256 deadline;
+	}
+
+	// events
+	event Executed(uint8 opcode, uint256 flash, uint256 amountIn, uint256 amountOut, uint256 provided);
+
+	// errors
+	error InvalidOpcode(uint8 given);
+	error InvalidMarket(Id market);
+	error InvalidVault(address vault);
+	error InvalidDataLength(uint256 given);
+	error DeadlineExpired(uint256 deadline, uint256 timestamp);
+	error InsufficientAmountOut(uint256 amountOut, uint256 minAmountOut);
+	error ExcessiveRepay(uint256 repaid, uint256 maxRepay);
+
+	constructor(address _orchestrator, address _morpho, address _vault, Id _market) {
+		orchestrator = IFlashloanOrchestrator(_orchestrator);
+		morpho = IMorpho(_morpho);
+		vault = IERC4626(_vault);
+		market = morpho.idToMarketParams(_market);
+
+		// verify market exists, vault is the collateral and wraps the loan token
+		if (market.loanToken == address(0)) revert InvalidMarket(_market);
+		if (market.collateralToken != _vault || vault.asset() != market.loanToken) revert InvalidVault(_vault);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function getMarketId(MarketParams memory marketParams) public pure returns (bytes32) {
+		return
+			keccak256(
+				abi.encode(marketParams.loanToken, marketParams.collateralToken, marketParams.oracle, marketParams.irm, marketParams.lltv)
+			);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function decodeData(bytes calldata data) public pure returns (uint8 opcode, Limits memory limits) {
+		if (data.length == DATA_OPCODE_LENGTH) {
+			opcode = abi.decode(data, (uint8));
+		} else if (data.length == DATA_LIMITS_LENGTH) {
+			(opcode, limits) = abi.decode(data, (uint8, Limits));
+		} else revert InvalidDataLength(data.length);
+	}
+
+	function _checkAmountOut(uint256 amountOut, Limits memory limits) internal pure {
+		if (amountOut < limits.minAmountOut) revert InsufficientAmountOut(amountOut, limits.minAmountOut);
+	}
+
+	function _checkRepay(uint256 repaid, Limits memory limits) internal pure {
+		if (limits.maxRepay > 0 && repaid > limits.maxRepay) revert ExcessiveRepay(repaid, limits.maxRepay);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function transferAllToken(address _token) internal returns (uint256, IERC20) {
+		IERC20 token = IERC20(_token);
+		uint256 bal = token.balanceOf(address(orchestrator));
+		if (bal > 0) {
+			token.safeTransferFrom(address(orchestrator), address(this), bal);
+		}
+		return (token.balanceOf(address(this)), token);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function _supplyCollateral(uint256 assets, address onBehalf) internal {
+		IERC20(market.collateralToken).forceApprove(address(morpho), assets);
+		morpho.supplyCollateral(market, assets, onBehalf, new bytes(0));
+	}
+
+	function _withdrawCollateral(uint256 assets, address onBehalf, address target) internal {
+		morpho.withdrawCollateral(market, assets, onBehalf, target);
+	}
+
+	function _borrow(uint256 assets, address onBehalf, address target) internal returns (uint256 assetsBorrowed, uint256 sharesBorrowed) {
+		(assetsBorrowed, sharesBorrowed) = morpho.borrow(market, assets, 0, onBehalf, target);
+	}
+
+	function _repay(uint256 assets, address onBehalf) internal returns (uint256 assetsRepaid, uint256 sharesRepaid) {
+		IERC20(market.loanToken).forceApprove(address(morpho), assets);
+		(assetsRepaid, sharesRepaid) = morpho.repay(market, assets, 0, onBehalf, new bytes(0));
+	}
+
+	function _repayShares(uint256 shares, address onBehalf) internal returns (uint256 assetsRepaid, uint256 sharesRepaid) {
+		IERC20(market.loanToken).forceApprove(address(morpho), type(uint256).max);
+		(assetsRepaid, sharesRepaid) = morpho.repay(market, 0, shares, onBehalf, new bytes(0));
+		IERC20(market.loanToken).forceApprove(address(morpho), 0);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function onFlashloanHook(bytes calldata data) external payable returns (bytes memory) {
+		// verify orchestrator
+		if (msg.sender != address(orchestrator)) revert IFlashloanOrchestrator.InvalidAddress();
+
+		// decode
+		(uint8 opcode, Limits memory limits) = decodeData(data);
+		address sender = orchestrator.sender();
+
+		// verify deadline
+		if (limits.deadline > 0 && block.timestamp > limits.deadline) {
+			revert DeadlineExpired(limits.deadline, block.timestamp);
+		}
+
+		// verify sender
+		if (sender == address(0)) {
+			revert IFlashloanOrchestrator.InvalidAddress();
+		}
+
+		// get loan and collateral tokens
+		(uint256 loanAmount, IERC20 loan) = transferAllToken(market.loanToken);
+		(uint256 collateralAmount, IERC20 collateral) = transferAllToken(market.collateralToken);
+		uint256 flashAmount = orchestrator.flashAmount();
+
+		if (opcode == INCREASE_LEVERAGE) {
+			// forceApprove and execute vault deposit
+			loan.forceApprove(address(vault), loanAmount);
+			uint256 amountOut = vault.deposit(loanAmount, address(this));
+			_checkAmountOut(amountOut, limits);
+
+			// supply collateral - includes any ERC20 Transfers from before
+			_supplyCollateral(collateralAmount + amountOut, sender);
+
+			// borrow for flashloan repayment
+			_borrow(flashAmount, sender, address(orchestrator));
+
+			emit Executed(INCREASE_LEVERAGE, flashAmount, loanAmount, amountOut, collateralAmount);
+		} else if (opcode == DECREASE_LEVERAGE) {
+			// forceApprove and execute vault redeem
+			collateral.forceApprove(address(vault), collateralAmount);
+			uint256 amountOut = vault.redeem(collateralAmount, address(this), address(this));
+			_checkAmountOut(amountOut, limits);
+
+			// repay loan - includes any ERC20 Transfers from before
+			uint256 repayAmount = loanAmount + amountOut;
+			_checkRepay(repayAmount, limits);
+			_repay(repayAmount, sender);
+
+			// withdraw collateral for flashloan repayment
+			_withdrawCollateral(flashAmount, sender, address(orchestrator));
+
+			emit Executed(DECREASE_LEVERAGE, flashAmount, collateralAmount, amountOut, repayAmount);
+		} else if (opcode == CLOSE_TO_LOAN) {
+			// get infos
+			Id marketId = Id.wrap(getMarketId(market));
+			Position memory p = morpho.position(marketId, sender);
+
+			// repay loan
+			(uint256 assetsRepaid, ) = _repayShares(p.borrowShares, sender);
+			_checkRepay(assetsRepaid, limits);
+
+			// withdraw collateral
+			_withdrawCollateral(p.collateral, sender, address(this));
+
+			// forceApprove and execute vault redeem
+			collateral.forceApprove(address(vault), p.collateral);
+			uint256 amountOut = vault.redeem(p.collateral, address(this), address(this));
+
+			// refund for flashloan repayment
+			loan.safeTransfer(address(orchestrator), flashAmount);
+
+			// transfer equity balance
+			uint256 equity = loan.balanceOf(address(this));
+			_checkAmountOut(equity, limits);
+			loan.safeTransfer(sender, equity);
+
+			emit Executed(CLOSE_TO_LOAN, flashAmount, p.collateral, amountOut, equity);
+		} else if (opcode == CLOSE_TO_COLLATERAL) {
+			// get infos
+			Id marketId = Id.wrap(getMarketId(market));
+			Position memory p = morpho.position(marketId, sender);
+
+			// repay loan
+			(uint256 assetsRepaid, ) = _repayShares(p.borrowShares, sender);
+			_checkRepay(assetsRepaid, limits);
+
+			// withdraw collateral
+			_withdrawCollateral(p.collateral, sender, address(this));
+
+			// balance of loan token
+			uint256 bal = loan.balanceOf(address(this));
+
+			if (bal < flashAmount) {
+				// missing assets, execute vault withdraw
+				vault.withdraw(flashAmount - bal, address(this), address(this));
+			} else if (bal > flashAmount) {
+				// too much assets, approve & execute vault deposit
+				uint256 depositAmount = bal - flashAmount;
+				loan.forceApprove(address(vault), depositAmount);
+				vault.deposit(depositAmount, address(this));
+			}
+
+			// refund for flashloan repayment
+			loan.safeTransfer(address(orchestrator), flashAmount);
+
+			// transfer collateral to sender
+			uint256 remainingCollateral = collateral.balanceOf(address(this));
+			_checkAmountOut(remainingCollateral, limits);
+			collateral.safeTransfer(sender, remainingCollateral);
+
+			emit Executed(CLOSE_TO_COLLATERAL, flashAmount, p.collateral, bal, remainingCollateral);
+		} else revert InvalidOpcode(opcode);
+
+		return abi.encode(true);
+	}
+}
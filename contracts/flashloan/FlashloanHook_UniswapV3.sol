@@ -0,0 +1,183 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import {SafeERC20} from '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
+
+import {ISwapRouter} from '@uniswap/v3-periphery/contracts/interfaces/ISwapRouter.sol';
+
+import {IMorpho, MarketParams, Id, Position} from '../morpho/IMorpho.sol';
+
+import {IFlashloanHook} from './IFlashloanHook.sol';
+import {IFlashloanOrchestrator} from './IFlashloanOrchestrator.sol';
+
+/// @title FlashloanHook_UniswapV3
+/// @notice Leverage hook for any Morpho market, swapping between loan and collateral token along a Uniswap V3 path
+/// @dev Acts on the position of orchestrator.sender(), which has to authorize this hook on Morpho.
+/// Action data is abi.encode(uint8 opcode, MarketParams market, bytes path, uint256 amountOutMinimum),
+/// the path is encoded off-chain like LeverageMorpho.encodePath (token, fee, token, ...).
+/// @author WrytLabs
+contract FlashloanHook_UniswapV3 is IFlashloanHook {
+	using SafeERC20 for IERC20;
+
+	IFlashloanOrchestrator public immutable orchestrator;
+
+	IMorpho public immutable morpho;
+	ISwapRouter public immutable uniswap;
+
+	// opcodes
+	uint8 public constant INCREASE_LEVERAGE = 0;
+	uint8 public constant DECREASE_LEVERAGE = 1;
+	uint8 public constant CLOSE_POSITION = 2;
+
+	// path encoding
+	uint256 private constant ADDR_SIZE = 20;
+	uint256 private constant HOP_SIZE = 23;
+
+	// events
+	event Executed(uint8 opcode, Id indexed marketId, uint256 flash, uint256 swapIn, uint256 swapOut, uint256 provided);
+
+	// errors
+	error InvalidOpcode(uint8 given);
+	error InvalidPath(uint256 length);
+	error WrongInputToken(address input, address needed);
+	error WrongOutputToken(address output, address needed);
+
+	constructor(address _orchestrator, address _morpho, address _uniswap) {
+		orchestrator = IFlashloanOrchestrator(_orchestrator);
+		morpho = IMorpho(_morpho);
+		uniswap = ISwapRouter(_uniswap);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function getMarketId(MarketParams memory marketParams) public pure returns (bytes32) {
+		return
+			keccak256(
+				abi.encode(marketParams.loanToken, marketParams.collateralToken, marketParams.oracle, marketParams.irm, marketParams.lltv)
+			);
+	}
+
+	/// @notice Verifies that the path swaps from tokenIn to tokenOut
+	function checkPath(bytes memory path, address tokenIn, address tokenOut) public pure {
+		if (path.length < HOP_SIZE + ADDR_SIZE || (path.length - ADDR_SIZE) % HOP_SIZE != 0) revert InvalidPath(path.length);
+
+		address input = _pathToken(path, 0);
+		address output = _pathToken(path, path.length - ADDR_SIZE);
+
+		if (input != tokenIn) revert WrongInputToken(input, tokenIn);
+		if (output != tokenOut) revert WrongOutputToken(output, tokenOut);
+	}
+
+	function _pathToken(bytes memory path, uint256 start) internal pure returns (address token) {
+		assembly {
+			token := shr(96, mload(add(add(path, 0x20), start)))
+		}
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function transferAllToken(address _token) internal returns (uint256, IERC20) {
+		IERC20 token = IERC20(_token);
+		uint256 bal = token.balanceOf(address(orchestrator));
+		if (bal > 0) {
+			token.safeTransferFrom(address(orchestrator), address(this), bal);
+		}
+		return (token.balanceOf(address(this)), token);
+	}
+
+	function _swap(IERC20 tokenIn, bytes memory path, uint256 amountIn, uint256 amountOutMinimum) internal returns (uint256) {
+		tokenIn.forceApprove(address(uniswap), amountIn);
+		return
+			uniswap.exactInput(
+				ISwapRouter.ExactInputParams({
+					path: path,
+					recipient: address(this),
+					deadline: block.timestamp,
+					amountIn: amountIn,
+					amountOutMinimum: amountOutMinimum
+				})
+			);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function onFlashloanHook(bytes calldata data) external payable returns (bytes memory) {
+		// verify orchestrator
+		if (msg.sender != address(orchestrator)) revert IFlashloanOrchestrator.InvalidAddress();
+
+		// decode
+		(uint8 opcode, MarketParams memory market, bytes memory path, uint256 amountOutMinimum) = abi.decode(
+			data,
+			(uint8, MarketParams, bytes, uint256)
+		);
+		address sender = orchestrator.sender();
+
+		// verify sender
+		if (sender == address(0)) {
+			revert IFlashloanOrchestrator.InvalidAddress();
+		}
+
+		// get loan and collateral tokens
+		(uint256 loanAmount, IERC20 loan) = transferAllToken(market.loanToken);
+		(uint256 collateralAmount, IERC20 collateral) = transferAllToken(market.collateralToken);
+		uint256 flashAmount = orchestrator.flashAmount();
+		Id marketId = Id.wrap(getMarketId(market));
+
+		if (opcode == INCREASE_LEVERAGE) {
+			// swap loan --> collateral
+			checkPath(path, address(loan), address(collateral));
+			uint256 amountOut = _swap(loan, path, loanAmount, amountOutMinimum);
+
+			// supply collateral - includes any ERC20 Transfers from before
+			uint256 supplyAmount = collateralAmount + amountOut;
+			collateral.forceApprove(address(morpho), supplyAmount);
+			morpho.supplyCollateral(market, supplyAmount, sender, new bytes(0));
+
+			// borrow for flashloan repayment
+			morpho.borrow(market, flashAmount, 0, sender, address(orchestrator));
+
+			emit Executed(INCREASE_LEVERAGE, marketId, flashAmount, loanAmount, amountOut, collateralAmount);
+		} else if (opcode == DECREASE_LEVERAGE) {
+			// swap collateral --> loan
+			checkPath(path, address(collateral), address(loan));
+			uint256 amountOut = _swap(collateral, path, collateralAmount, amountOutMinimum);
+
+			// repay loan - includes any ERC20 Transfers from before
+			uint256 repayAmount = loanAmount + amountOut;
+			loan.forceApprove(address(morpho), repayAmount);
+			morpho.repay(market, repayAmount, 0, sender, new bytes(0));
+
+			// withdraw collateral for flashloan repayment
+			morpho.withdrawCollateral(market, flashAmount, sender, address(orchestrator));
+
+			emit Executed(DECREASE_LEVERAGE, marketId, flashAmount, collateralAmount, amountOut, repayAmount);
+		} else if (opcode == CLOSE_POSITION) {
+			checkPath(path, address(collateral), address(loan));
+			Position memory p = morpho.position(marketId, sender);
+
+			// repay loan
+			loan.forceApprove(address(morpho), type(uint256).max);
+			morpho.repay(market, 0, p.borrowShares, sender, new bytes(0));
+			loan.forceApprove(address(morpho), 0);
+
+			// withdraw collateral
+			morpho.withdrawCollateral(market, p.collateral, sender, address(this));
+
+			// swap collateral --> loan, includes any collateral provided
+			uint256 swapIn = collateral.balanceOf(address(this));
+			uint256 amountOut = _swap(collateral, path, swapIn, amountOutMinimum);
+
+			// refund for flashloan repayment
+			loan.safeTransfer(address(orchestrator), flashAmount);
+
+			// transfer equity balance
+			uint256 equity = loan.balanceOf(address(this));
+			loan.safeTransfer(sender, equity);
+
+			emit Executed(CLOSE_POSITION, marketId, flashAmount, swapIn, amountOut, equity);
+		} else revert InvalidOpcode(opcode);
+
+		return abi.encode(true);
+	}
+}
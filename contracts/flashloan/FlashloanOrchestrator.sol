@@ -2,22 +2,36 @@
 pragma solidity ^0.8.20;
 
 import {Math} from '@openzeppelin/contracts/utils/math/Math.sol';
+import {SafeCast} from '@openzeppelin/contracts/utils/math/SafeCast.sol';
 import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
 import {SafeERC20} from '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
 import {ReentrancyGuard} from '@openzeppelin/contracts/utils/ReentrancyGuard.sol';
+import {IERC3156FlashBorrower} from '@openzeppelin/contracts/interfaces/IERC3156FlashBorrower.sol';
+import {IERC3156FlashLender} from '@openzeppelin/contracts/interfaces/IERC3156FlashLender.sol';
 
 import {IMorpho, MarketParams, Id, Position, Market} from '../morpho/IMorpho.sol';
 import {SharesMathLib} from '../morpho/SharesMathLib.sol';
 import {IMorphoFlashLoanCallback} from '../morpho/IMorphoCallbacks.sol';
-import {IFlashloanOrchestrator, Action} from './IFlashloanOrchestrator.sol';
+import {IBalancerVault, IFlashLoanRecipient} from '../balancer/IBalancerVault.sol';
+import {IWETH9} from '../weth/IWETH9.sol';
+import {PermitLib, Permit, Permit2Transfer} from '../permit/PermitLib.sol';
+import {IFlashloanOrchestrator, Action, Reference, Flashloan, FlashloanProvider, SimulationReport} from './IFlashloanOrchestrator.sol';
 import {IFlashloanHook} from './IFlashloanHook.sol';
+import {IFlashloanHookRegistry} from './IFlashloanHookRegistry.sol';
+import {ActionReferenceLib} from './ActionReferenceLib.sol';
 
 /// @title FlashloanOrchestrator
-/// @notice Orchestrates complex DeFi operations using Morpho flashloans
+/// @notice Orchestrates complex DeFi operations using Morpho, Balancer or ERC-3156 flashloans
 /// @dev This contract allows users to execute multiple actions atomically within a flashloan context.
-/// Users can provide tokens, request a flashloan, and execute a series of actions before repaying the loan.
+/// Users can provide tokens, request flashloans of one or more tokens, and execute a series of actions before repaying the loans.
 /// @author WrytLabs
-contract FlashloanOrchestrator is ReentrancyGuard, IMorphoFlashLoanCallback, IFlashloanOrchestrator {
+contract FlashloanOrchestrator is
+	ReentrancyGuard,
+	IMorphoFlashLoanCallback,
+	IFlashLoanRecipient,
+	IERC3156FlashBorrower,
+	IFlashloanOrchestrator
+{
 	using Math for uint256;
 	using SharesMathLib for uint256;
 	using SafeERC20 for IERC20;
@@ -25,11 +39,49 @@ contract FlashloanOrchestrator is ReentrancyGuard, IMorphoFlashLoanCallback, IFl
 	/// @notice The Morpho protocol contract used for flashloans
 	IMorpho private immutable morpho;
 
+	/// @notice Allowlist of hooks, consulted before every hook call
+	IFlashloanHookRegistry public immutable registry;
+
+	/// @notice Wrapped native token for executeNative
+	IWETH9 public immutable weth;
+
+	/// @notice Return value of a successful ERC-3156 callback
+	bytes32 private constant ERC3156_CALLBACK_SUCCESS = keccak256('ERC3156FlashBorrower.onFlashLoan');
+
+	/// @notice Failed index of a simulation failing outside of the actions
+	uint256 public constant SIMULATION_OUTSIDE_ACTIONS = type(uint256).max;
+
 	// ============ State Variables ============
 
-	/// @notice Address of the user who initiated the current execution
+	/// @notice Inputs of an execution, carried through the flashloan callbacks as callback data
+	/// @dev The orchestrator works on this copy, storage only backs the getters for hooks,
+	///      which are called from outside of the callbacks and cannot see the copy.
+	///      Context storage is still written and deleted once per execution, transient storage
+	///      would remove these writes but is not available on the paris target.
+	struct Context {
+		address[] tokens;
+		address[] flashTokens;
+		uint256[] flashAmounts;
+		Action[] actions;
+		Reference[] references;
+	}
+
+	/// @notice Scalars of the current execution, packed into two slots
 	/// @dev Reset after each execution for security
-	address public sender;
+	struct Execution {
+		address sender;
+		FlashloanProvider provider;
+		bool simulating;
+		bool wrapNative;
+		bool unwrapNative;
+		bool funded;
+		uint56 pendingFlashloans;
+		address lender;
+		uint96 actionIndex;
+	}
+
+	/// @notice Scalars of the current execution
+	Execution private execution;
 
 	/// @notice Array of token addresses provided by the user
 	address[] public tokens;
@@ -37,27 +89,36 @@ contract FlashloanOrchestrator is ReentrancyGuard, IMorphoFlashLoanCallback, IFl
 	/// @notice Array of token amounts provided by the user
 	uint256[] public amounts;
 
-	/// @notice Token used for flashloan
-	address public flashToken;
+	/// @notice Tokens borrowed via flashloan
+	address[] public flashTokens;
 
-	/// @notice Amount borrowed via flashloan
-	uint256 public flashAmount;
+	/// @notice Amounts borrowed via flashloan
+	uint256[] public flashAmounts;
 
-	/// @notice Current action being executed (for error tracking)
-	uint8 public actionIndex;
+	/// @notice Fees charged by the lender, set by the flashloan callbacks, only stored if not zero
+	mapping(uint256 => uint256) private fees;
 
 	/// @notice Array of actions to execute during flashloan
+	/// @dev Stored as submitted, references are only patched into the data passed to the hooks
 	Action[] public actionData;
 
-	/// @notice Results from executed actions
-	bytes[] public actionResult;
+	/// @notice Results of prior actions patched into the data of later actions
+	Reference[] public references;
+
+	/// @notice Results from executed actions, only stored if not empty
+	/// @dev Also hands the results from the innermost callback back to the execution
+	mapping(uint256 => bytes) private actionResults;
 
-	/// @notice Initializes the FlashloanOrchestrator with Morpho protocol
+	/// @notice Initializes the FlashloanOrchestrator with Morpho protocol, the hook registry and WETH
 	/// @param _morpho Address of the Morpho protocol contract
-	/// @dev Validates that _morpho is not zero address for security
-	constructor(address _morpho) {
-		if (_morpho == address(0)) revert InvalidAddress();
+	/// @param _registry Address of the hook registry
+	/// @param _weth Address of the wrapped native token
+	/// @dev Validates that _morpho, _registry and _weth are not zero address for security
+	constructor(address _morpho, address _registry, address _weth) {
+		if (_morpho == address(0) || _registry == address(0) || _weth == address(0)) revert InvalidAddress();
 		morpho = IMorpho(_morpho);
+		registry = IFlashloanHookRegistry(_registry);
+		weth = IWETH9(_weth);
 	}
 
 	// ============ External Functions ============
@@ -70,64 +131,306 @@ contract FlashloanOrchestrator is ReentrancyGuard, IMorphoFlashLoanCallback, IFl
 		address _flashToken,
 		uint256 _flashAmount,
 		Action[] calldata _actionData
-	) external nonReentrant returns (bytes[] memory) {
+	) external payable nonReentrant returns (bytes[] memory) {
+		return _execute(msg.sender, _tokens, _amounts, _morphoFlashloan(_flashToken, _flashAmount), _actionData, new Reference[](0));
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	/// @dev References are validated before the first action runs
+	function executeComposed(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		address _flashToken,
+		uint256 _flashAmount,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable nonReentrant returns (bytes[] memory) {
+		return _execute(msg.sender, _tokens, _amounts, _morphoFlashloan(_flashToken, _flashAmount), _actionData, _references);
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	/// @dev The lender is validated by the flashloan callbacks
+	function executeMulti(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable nonReentrant returns (bytes[] memory) {
+		return _execute(msg.sender, _tokens, _amounts, _flashloan, _actionData, _references);
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	/// @dev Flags are stored for the execution and cleared afterwards
+	function executeNative(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references,
+		bool _wrap,
+		bool _unwrap
+	) external payable nonReentrant returns (bytes[] memory) {
+		execution.wrapNative = _wrap;
+		execution.unwrapNative = _unwrap;
+		return _execute(msg.sender, _tokens, _amounts, _flashloan, _actionData, _references);
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	/// @dev A failing permit is accepted if the allowance already covers the amount
+	function executeWithPermit(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references,
+		Permit[] calldata _permits
+	) external payable nonReentrant returns (bytes[] memory) {
+		if (_tokens.length != _amounts.length || _tokens.length != _permits.length) revert ArrayLengthMismatch();
+
+		for (uint256 i = 0; i < _tokens.length; i++) {
+			if (_amounts[i] > 0) PermitLib.permit(_tokens[i], msg.sender, _amounts[i], _permits[i]);
+		}
+
+		return _execute(msg.sender, _tokens, _amounts, _flashloan, _actionData, _references);
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	/// @dev The provided tokens are transferred by Permit2, _execute skips its transfers
+	function executeWithPermit2(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references,
+		Permit2Transfer calldata _transfer
+	) external payable nonReentrant returns (bytes[] memory) {
+		if (_tokens.length != _amounts.length) revert ArrayLengthMismatch();
+
+		PermitLib.permit2BatchTransferFrom(_tokens, _amounts, msg.sender, _transfer);
+		execution.funded = true;
+
+		return _execute(msg.sender, _tokens, _amounts, _flashloan, _actionData, _references);
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	/// @dev Always reverts, state changes and transfers are rolled back
+	function simulate(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable nonReentrant {
+		try this.simulateExecution{value: msg.value}(msg.sender, _tokens, _amounts, _flashloan, _actionData, _references) {
+			// Unreachable, the execution always reverts with its report
+		} catch (bytes memory reason) {
+			// Reports of the execution and its actions are passed on
+			if (bytes4(reason) == SimulationResult.selector) {
+				assembly {
+					revert(add(reason, 0x20), mload(reason))
+				}
+			}
+
+			// Failures outside of the actions, e.g. pulling the provided tokens, the lender or the repayment
+			revert SimulationResult(
+				SimulationReport({
+					success: false,
+					failedIndex: SIMULATION_OUTSIDE_ACTIONS,
+					reason: reason,
+					results: new bytes[](0),
+					tokens: new address[](0),
+					deltas: new int256[](0)
+				})
+			);
+		}
+	}
+
+	/// @notice Runs the execution of simulate for the sender, so that simulate can catch any failure
+	/// @dev Only callable by this contract, always reverts with SimulationResult
+	function simulateExecution(
+		address _sender,
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable {
+		if (msg.sender != address(this)) revert UnsupportedFunction();
+		execution.simulating = true;
+
+		// Sender balances before the execution
+		address[] memory deltaTokens = _simulationTokens(_tokens, _flashloan.tokens);
+		int256[] memory deltas = new int256[](deltaTokens.length);
+		for (uint256 i = 0; i < deltaTokens.length; i++) {
+			deltas[i] = -int256(IERC20(deltaTokens[i]).balanceOf(_sender));
+		}
+
+		bytes[] memory results = _execute(_sender, _tokens, _amounts, _flashloan, _actionData, _references);
+
+		for (uint256 i = 0; i < deltaTokens.length; i++) {
+			deltas[i] += int256(IERC20(deltaTokens[i]).balanceOf(_sender));
+		}
+
+		revert SimulationResult(
+			SimulationReport({success: true, failedIndex: 0, reason: '', results: results, tokens: deltaTokens, deltas: deltas})
+		);
+	}
+
+	// ============ Execution Getters ============
+
+	/// @inheritdoc IFlashloanOrchestrator
+	function sender() external view returns (address) {
+		return execution.sender;
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	function flashToken() external view returns (address) {
+		return flashTokens.length > 0 ? flashTokens[0] : address(0);
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	function flashAmount() external view returns (uint256) {
+		return flashAmounts.length > 0 ? flashAmounts[0] : 0;
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	function provider() external view returns (FlashloanProvider) {
+		return execution.provider;
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	function lender() external view returns (address) {
+		return execution.lender;
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	function flashFees(uint256 index) external view returns (uint256) {
+		if (index >= flashTokens.length) revert InvalidInput();
+		return fees[index];
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	/// @dev Kept as uint8 for existing hooks, executions themselves are not limited
+	function actionIndex() external view returns (uint8) {
+		return SafeCast.toUint8(execution.actionIndex);
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	function currentActionIndex() external view returns (uint256) {
+		return execution.actionIndex;
+	}
+
+	/// @inheritdoc IFlashloanOrchestrator
+	function actionResult(uint256 index) external view returns (bytes memory) {
+		if (index >= actionData.length) revert InvalidInput();
+		return actionResults[index];
+	}
+
+	// ============ Execution ============
+
+	/// @notice Shared implementation of all execution entry points
+	/// @param _sender The caller providing the tokens and receiving the remaining balances
+	function _execute(
+		address _sender,
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan memory _flashloan,
+		Action[] calldata _actionData,
+		Reference[] memory _references
+	) internal returns (bytes[] memory) {
 		// Input validation
 		if (_tokens.length != _amounts.length) revert ArrayLengthMismatch();
-		if (_flashToken == address(0)) revert InvalidAddress();
+		if (_flashloan.tokens.length != _flashloan.amounts.length) revert ArrayLengthMismatch();
+		if (_flashloan.tokens.length == 0) revert InvalidInput();
 		if (_actionData.length == 0) revert NoActionsProvided();
+		ActionReferenceLib.validate(_references, _actionData.length);
 
-		// Store execution parameters
-		sender = msg.sender;
-		tokens = _tokens;
-		amounts = _amounts;
-		flashToken = _flashToken;
-		flashAmount = _flashAmount;
+		for (uint256 i = 0; i < _flashloan.tokens.length; i++) {
+			if (_flashloan.tokens[i] == address(0)) revert InvalidAddress();
+		}
 
-		for (uint256 i = 0; i < _actionData.length; i++) {
-			actionData.push(Action({target: _actionData[i].target, value: _actionData[i].value, data: _actionData[i].data}));
+		// Morpho is fixed, other lenders are chosen per call
+		address _lender = _flashloan.provider == FlashloanProvider.MORPHO ? address(morpho) : _flashloan.lender;
+		if (_lender == address(0)) revert InvalidAddress();
+
+		// Store execution parameters, Balancer loans all tokens with a single callback, the others nest one flashloan per token
+		execution.sender = _sender;
+		execution.provider = _flashloan.provider;
+		execution.lender = _lender;
+		execution.pendingFlashloans = uint56(_flashloan.provider == FlashloanProvider.BALANCER ? 1 : _flashloan.tokens.length);
+
+		// Transfer user-provided tokens to this contract, unless already transferred by Permit2
+		if (!execution.funded) {
+			for (uint256 i = 0; i < _tokens.length; i++) {
+				if (_amounts[i] > 0) {
+					// Validate token address to prevent zero address transfers
+					if (_tokens[i] == address(0)) revert InvalidAddress();
+					IERC20(_tokens[i]).safeTransferFrom(_sender, address(this), _amounts[i]);
+				}
+			}
 		}
 
-		// Initialize action results array
-		actionResult = new bytes[](_actionData.length);
+		// Wrap the sent ETH, WETH is then approved and swept like a provided token
+		Context memory ctx = Context({
+			tokens: _tokens,
+			flashTokens: _flashloan.tokens,
+			flashAmounts: _flashloan.amounts,
+			actions: _actionData,
+			references: _references
+		});
+		uint256 wrapped = 0;
+		if (execution.wrapNative && msg.value > 0) {
+			weth.deposit{value: msg.value}();
+			if (!_contains(ctx.tokens, address(weth))) {
+				ctx.tokens = _append(ctx.tokens, address(weth));
+			}
+			wrapped = msg.value;
+		}
+
+		// Back the getters for hooks
+		_storeContext(ctx, _amounts, wrapped);
 
-		// Transfer user-provided tokens to this contract
-		for (uint8 i = 0; i < tokens.length; i++) {
-			uint256 amount = amounts[i];
+		// Execute flashloans, the innermost callback executes the actions
+		_takeFlashloan(0, ctx, abi.encode(ctx));
 
-			if (amount > 0) {
-				// Validate token address to prevent zero address transfers
-				if (tokens[i] == address(0)) revert InvalidAddress();
-				IERC20(tokens[i]).safeTransferFrom(sender, address(this), amount);
+		// Unwrap the remaining WETH, refunded with the remaining ETH
+		if (execution.unwrapNative) {
+			uint256 wethBalance = weth.balanceOf(address(this));
+			if (wethBalance > 0) {
+				weth.withdraw(wethBalance);
 			}
 		}
 
-		// Execute flashloan with minimal callback data
-		bytes memory data = abi.encode(0); // Minimal data for callback identification
-		morpho.flashLoan(flashToken, flashAmount, data);
-
 		// Return any remaining tokens to the user
-		for (uint8 i = 0; i < tokens.length; i++) {
-			address token = tokens[i];
+		for (uint256 i = 0; i < ctx.tokens.length; i++) {
+			address token = ctx.tokens[i];
 			uint256 bal = IERC20(token).balanceOf(address(this));
 
 			if (bal > 0) {
 				// Use safeTransfer for additional safety
-				IERC20(token).safeTransfer(sender, bal);
+				IERC20(token).safeTransfer(execution.sender, bal);
 			}
 		}
 
 		// Return any remaining ETH to the user
 		uint256 ethBalance = address(this).balance;
 		if (ethBalance > 0) {
-			(bool success, ) = payable(sender).call{value: ethBalance}('');
+			(bool success, ) = payable(execution.sender).call{value: ethBalance}('');
 			if (!success) revert InvalidRefund();
 		}
 
 		// Backup action results before clearing state
-		bytes[] memory results = actionResult;
+		bytes[] memory results = new bytes[](ctx.actions.length);
+		for (uint256 i = 0; i < results.length; i++) {
+			if (bytes(actionResults[i]).length > 0) {
+				results[i] = actionResults[i];
+				delete actionResults[i];
+			}
+		}
 
 		// Clear state variables for security and gas optimization
-		clearVars();
+		clearVars(ctx);
 
 		// Return the backed up results
 		return results;
@@ -137,16 +440,118 @@ contract FlashloanOrchestrator is ReentrancyGuard, IMorphoFlashLoanCallback, IFl
 
 	/// @notice Callback function called by Morpho during flashloan execution
 	/// @param assets The amount of assets that need to be repaid to Morpho
-	/// @param data Arbitrary data passed from the flashloan call (unused)
-	/// @dev This function executes all queued actions and approves repayment
+	/// @param data The execution context, passed on to the next flashloan
+	/// @dev Takes the next flashloan, the innermost one executes all queued actions, then approves repayment
 	function onMorphoFlashLoan(uint256 assets, bytes calldata data) external {
 		// Security: Only Morpho can call this callback
 		if (msg.sender != address(morpho)) revert NotMorpho();
+		uint256 pending = _onFlashloan(FlashloanProvider.MORPHO);
+		Context memory ctx = abi.decode(data, (Context));
+		uint256 index = ctx.flashTokens.length - pending;
+
+		_takeFlashloan(index + 1, ctx, data);
+
+		// Approve Morpho to collect the flashloan repayment
+		// This must happen after all actions to ensure sufficient balance
+		IERC20(ctx.flashTokens[index]).forceApprove(address(morpho), assets);
+	}
+
+	/// @notice Callback function called by the Balancer vault during flashloan execution
+	/// @param feeAmounts The fees to pay on top of the loaned amounts
+	/// @param userData The execution context
+	/// @dev Executes all queued actions, then transfers the repayment back to the vault
+	function receiveFlashLoan(IERC20[] memory, uint256[] memory, uint256[] memory feeAmounts, bytes memory userData) external {
+		_onFlashloan(FlashloanProvider.BALANCER);
+		Context memory ctx = abi.decode(userData, (Context));
+		if (feeAmounts.length != ctx.flashTokens.length) revert ArrayLengthMismatch();
+		for (uint256 i = 0; i < feeAmounts.length; i++) {
+			if (feeAmounts[i] > 0) fees[i] = feeAmounts[i];
+		}
+
+		_executeActions(ctx);
+
+		for (uint256 i = 0; i < ctx.flashTokens.length; i++) {
+			IERC20(ctx.flashTokens[i]).safeTransfer(msg.sender, ctx.flashAmounts[i] + feeAmounts[i]);
+		}
+	}
+
+	/// @notice Callback function called by an ERC-3156 lender during flashloan execution
+	/// @param initiator The address which requested the flashloan, has to be this contract
+	/// @param amount The amount of tokens loaned
+	/// @param fee The fee to pay on top of the amount
+	/// @param data The execution context, passed on to the next flashloan
+	/// @dev Takes the next flashloan, the innermost one executes all queued actions, then approves repayment
+	function onFlashLoan(address initiator, address, uint256 amount, uint256 fee, bytes calldata data) external returns (bytes32) {
+		uint256 pending = _onFlashloan(FlashloanProvider.ERC3156);
+		if (initiator != address(this)) revert InvalidAddress();
+		Context memory ctx = abi.decode(data, (Context));
+		uint256 index = ctx.flashTokens.length - pending;
+		if (fee > 0) fees[index] = fee;
+
+		_takeFlashloan(index + 1, ctx, data);
+
+		// Approve the lender to collect the flashloan repayment
+		IERC20(ctx.flashTokens[index]).forceApprove(msg.sender, amount + fee);
+		return ERC3156_CALLBACK_SUCCESS;
+	}
+
+	// ============ Flashloan Functions ============
+
+	/// @notice Builds the single Morpho flashloan of execute and executeComposed
+	function _morphoFlashloan(address _flashToken, uint256 _flashAmount) internal view returns (Flashloan memory flashloan) {
+		flashloan.provider = FlashloanProvider.MORPHO;
+		flashloan.lender = address(morpho);
+		flashloan.tokens = new address[](1);
+		flashloan.tokens[0] = _flashToken;
+		flashloan.amounts = new uint256[](1);
+		flashloan.amounts[0] = _flashAmount;
+	}
+
+	/// @notice Takes the flashloan at index, or executes the actions once all flashloans are taken
+	/// @param index The index of the flashloan token
+	/// @param ctx The execution context
+	/// @param data The encoded execution context, passed to the lender as callback data
+	function _takeFlashloan(uint256 index, Context memory ctx, bytes memory data) internal {
+		FlashloanProvider kind = execution.provider;
+
+		if (kind == FlashloanProvider.BALANCER) {
+			IERC20[] memory loanTokens = new IERC20[](ctx.flashTokens.length);
+			for (uint256 i = 0; i < ctx.flashTokens.length; i++) {
+				loanTokens[i] = IERC20(ctx.flashTokens[i]);
+			}
+			IBalancerVault(execution.lender).flashLoan(this, loanTokens, ctx.flashAmounts, data);
+		} else if (index == ctx.flashTokens.length) {
+			_executeActions(ctx);
+		} else if (kind == FlashloanProvider.MORPHO) {
+			morpho.flashLoan(ctx.flashTokens[index], ctx.flashAmounts[index], data);
+		} else {
+			IERC3156FlashLender(execution.lender).flashLoan(this, ctx.flashTokens[index], ctx.flashAmounts[index], data);
+		}
+	}
+
+	/// @notice Validates a flashloan callback against the current execution
+	/// @param kind The provider the callback belongs to
+	/// @return pending The flashloans still expected including this one, locates the flashloan token of nested flashloans
+	function _onFlashloan(FlashloanProvider kind) internal returns (uint256 pending) {
+		Execution memory current = execution;
+		if (current.pendingFlashloans == 0 || current.provider != kind) revert UnexpectedFlashloan();
+		if (msg.sender != current.lender) revert InvalidLender(msg.sender);
+
+		pending = current.pendingFlashloans;
+		execution.pendingFlashloans = current.pendingFlashloans - 1;
+	}
+
+	/// @notice Executes all queued actions
+	/// @dev Called once all flashloans are taken, with the loaned tokens on this contract
+	/// @param ctx The execution context
+	function _executeActions(Context memory ctx) internal {
+		bytes[] memory results = new bytes[](ctx.actions.length);
+		address _sender = execution.sender;
 
 		// Execute all queued actions sequentially
-		for (uint8 h = 0; h < actionData.length; h++) {
-			actionIndex = h;
-			Action storage action = actionData[h];
+		for (uint256 h = 0; h < ctx.actions.length; h++) {
+			execution.actionIndex = uint96(h);
+			Action memory action = ctx.actions[h];
 
 			// Validate action target to prevent calls to zero address
 			if (action.target == address(0)) {
@@ -158,23 +563,13 @@ contract FlashloanOrchestrator is ReentrancyGuard, IMorphoFlashLoanCallback, IFl
 				revert RecursiveCallNotAllowed();
 			}
 
-			// Grant temporary token approvals to the action target
-			for (uint8 i = 0; i < tokens.length; i++) {
-				address token = tokens[i];
-				uint256 bal = IERC20(token).balanceOf(address(this));
-				if (bal > 0) {
-					// Approve the exact balance for security
-					IERC20(token).forceApprove(action.target, bal);
-				}
+			// Only registered and unpaused hooks receive approvals
+			if (!registry.isAllowed(action.target)) {
+				revert HookNotAllowed(action.target);
 			}
 
-			// Also approve flashloan token if it's not already in the tokens array
-			if (!_isTokenInArray(flashToken)) {
-				uint256 flashBal = IERC20(flashToken).balanceOf(address(this));
-				if (flashBal > 0) {
-					IERC20(flashToken).forceApprove(action.target, flashBal);
-				}
-			}
+			// Grant temporary token approvals to the action target
+			_approveAll(ctx, action.target, true);
 
 			IFlashloanHook hook = IFlashloanHook(action.target);
 
@@ -183,59 +578,154 @@ contract FlashloanOrchestrator is ReentrancyGuard, IMorphoFlashLoanCallback, IFl
 				revert InvalidAddress();
 			}
 
-			// Execute the action with the specified value and data
-			actionResult[h] = hook.onFlashloanHook{value: action.value}(action.data);
+			// Patch results of prior actions into the data
+			if (ctx.references.length > 0) {
+				ActionReferenceLib.resolve(action.data, h, ctx.references, results);
+			}
+
+			// Execute the action with the specified value and data, a simulation reports a failing action
+			if (execution.simulating) {
+				try hook.onFlashloanHook{value: action.value}(action.data) returns (bytes memory result) {
+					results[h] = result;
+				} catch (bytes memory reason) {
+					revert SimulationResult(
+						SimulationReport({
+							success: false,
+							failedIndex: h,
+							reason: reason,
+							results: results,
+							tokens: new address[](0),
+							deltas: new int256[](0)
+						})
+					);
+				}
+			} else {
+				results[h] = hook.onFlashloanHook{value: action.value}(action.data);
+			}
+			if (results[h].length > 0) actionResults[h] = results[h];
 
 			// Emit event for successful action execution
-			emit Executed(sender, action.target);
+			emit Executed(_sender, action.target);
 
 			// Reset all token allowances for security
-			for (uint8 i = 0; i < tokens.length; i++) {
-				IERC20(tokens[i]).forceApprove(action.target, 0);
-			}
+			_approveAll(ctx, action.target, false);
+		}
+	}
+
+	// ============ Internal Functions ============
 
-			// Reset flashloan token allowance if it was approved
-			if (!_isTokenInArray(flashToken)) {
-				IERC20(flashToken).forceApprove(action.target, 0);
+	/// @notice Grants or resets the approvals of the provided and flashloaned tokens to an action target
+	/// @param ctx The execution context
+	/// @param target The action target
+	/// @param grant Approves the exact balances if true, resets the allowances otherwise
+	function _approveAll(Context memory ctx, address target, bool grant) internal {
+		uint256 count = ctx.tokens.length + ctx.flashTokens.length;
+		for (uint256 i = 0; i < count; i++) {
+			address token = i < ctx.tokens.length ? ctx.tokens[i] : ctx.flashTokens[i - ctx.tokens.length];
+
+			// Flashloaned tokens already provided are handled once
+			if (i >= ctx.tokens.length && _contains(ctx.tokens, token)) continue;
+
+			if (grant) {
+				uint256 bal = IERC20(token).balanceOf(address(this));
+				if (bal > 0) {
+					// Approve the exact balance for security
+					IERC20(token).forceApprove(target, bal);
+				}
+			} else if (IERC20(token).allowance(address(this), target) > 0) {
+				IERC20(token).forceApprove(target, 0);
 			}
 		}
-
-		// Approve Morpho to collect the flashloan repayment
-		// This must happen after all actions to ensure sufficient balance
-		IERC20(flashToken).forceApprove(address(morpho), assets);
 	}
 
-	// ============ Internal Functions ============
+	/// @notice Stores the execution context backing the getters for hooks
+	/// @param ctx The execution context
+	/// @param _amounts The provided amounts
+	/// @param wrapped The wrapped ETH, added to the provided WETH or listed as provided WETH if not already provided
+	/// @dev Written once per execution, the orchestrator itself only reads the context
+	function _storeContext(Context memory ctx, uint256[] calldata _amounts, uint256 wrapped) internal {
+		tokens = ctx.tokens;
+		amounts = _amounts;
+		if (wrapped > 0) {
+			// WETH is provided or was appended, the wrapped ETH counts towards its first entry
+			uint256 i = 0;
+			while (ctx.tokens[i] != address(weth)) i++;
+			if (i < _amounts.length) amounts[i] += wrapped;
+			else amounts.push(wrapped);
+		}
+
+		flashTokens = ctx.flashTokens;
+		flashAmounts = ctx.flashAmounts;
+
+		for (uint256 i = 0; i < ctx.actions.length; i++) {
+			actionData.push(ctx.actions[i]);
+		}
+		for (uint256 i = 0; i < ctx.references.length; i++) {
+			references.push(ctx.references[i]);
+		}
+	}
 
 	/// @notice Clears all execution state variables
 	/// @dev Called after each execution to reset state and prevent data leakage
-	function clearVars() internal {
+	/// @param ctx The execution context
+	function clearVars(Context memory ctx) internal {
 		// Reset user and execution context
-		delete sender;
+		delete execution;
 		delete tokens;
 		delete amounts;
-		delete flashToken;
-		delete flashAmount;
+		delete flashTokens;
+		delete flashAmounts;
+		for (uint256 i = 0; i < ctx.flashTokens.length; i++) {
+			if (fees[i] > 0) delete fees[i];
+		}
 
 		// Reset action execution state
-		delete actionIndex;
 		delete actionData;
-		delete actionResult;
+		delete references;
+	}
+
+	/// @notice Collects the provided and flashloaned tokens without duplicates
+	/// @param _tokens The provided tokens
+	/// @param _flashTokens The flashloaned tokens
+	/// @return list The tokens whose sender balance changes are reported by simulate
+	function _simulationTokens(address[] calldata _tokens, address[] calldata _flashTokens) internal pure returns (address[] memory list) {
+		list = new address[](_tokens.length + _flashTokens.length);
+		uint256 count = 0;
+
+		for (uint256 i = 0; i < list.length; i++) {
+			address token = i < _tokens.length ? _tokens[i] : _flashTokens[i - _tokens.length];
+			if (!_contains(list, token)) list[count++] = token;
+		}
+
+		// Shrink to the unique tokens
+		assembly {
+			mstore(list, count)
+		}
 	}
 
-	/// @notice Checks if a token is already in the tokens array
+	/// @notice Checks if a token is in an array
+	/// @param list The token addresses
 	/// @param token The token address to check
 	/// @return exists True if token is in the array, false otherwise
-	/// @dev Used to avoid duplicate approvals for flashloan token
-	function _isTokenInArray(address token) internal view returns (bool exists) {
-		for (uint8 i = 0; i < tokens.length; i++) {
-			if (tokens[i] == token) {
+	/// @dev Used to avoid duplicate approvals for flashloan tokens
+	function _contains(address[] memory list, address token) internal pure returns (bool exists) {
+		for (uint256 i = 0; i < list.length; i++) {
+			if (list[i] == token) {
 				return true;
 			}
 		}
 		return false;
 	}
 
+	/// @notice Returns a copy of the array with the token appended
+	function _append(address[] memory list, address token) internal pure returns (address[] memory extended) {
+		extended = new address[](list.length + 1);
+		for (uint256 i = 0; i < list.length; i++) {
+			extended[i] = list[i];
+		}
+		extended[list.length] = token;
+	}
+
 	// ============ Fallback Functions ============
 
 	/// @notice Allows contract to receive ETH for action executions that require ETH
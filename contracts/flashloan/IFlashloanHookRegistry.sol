@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title IFlashloanHookRegistry
+/// @notice Allowlist of hooks the FlashloanOrchestrator is allowed to call
+interface IFlashloanHookRegistry {
+	// ---------------------------------------------------------------------------------------
+	// Events
+	// ---------------------------------------------------------------------------------------
+
+	/// @notice Emitted when a hook is added to the allowlist
+	event HookAdded(address indexed hook);
+
+	/// @notice Emitted when a hook is removed from the allowlist
+	event HookRemoved(address indexed hook);
+
+	/// @notice Emitted when a hook is paused or unpaused
+	event HookPaused(address indexed hook, bool paused);
+
+	// ---------------------------------------------------------------------------------------
+	// Errors
+	// ---------------------------------------------------------------------------------------
+
+	/// @notice Thrown when adding a hook that is already registered
+	error HookAlreadyRegistered(address hook);
+
+	/// @notice Thrown when changing a hook that is not registered
+	error HookNotRegistered(address hook);
+
+	// ---------------------------------------------------------------------------------------
+	// Functions
+	// ---------------------------------------------------------------------------------------
+
+	/// @notice Whether the hook is registered and not paused
+	/// @param hook The hook address
+	function isAllowed(address hook) external view returns (bool);
+
+	/// @notice Whether the hook is registered, paused or not
+	/// @param hook The hook address
+	function isRegistered(address hook) external view returns (bool);
+
+	/// @notice Whether the hook is paused
+	/// @param hook The hook address
+	function isPaused(address hook) external view returns (bool);
+
+	/// @notice All registered hooks, including paused ones
+	function getHooks() external view returns (address[] memory);
+
+	/// @notice Adds a hook to the allowlist, owner only
+	function addHook(address hook) external;
+
+	/// @notice Removes a hook from the allowlist, owner only
+	function removeHook(address hook) external;
+
+	/// @notice Pauses or unpauses a registered hook, owner only
+	function setPaused(address hook, bool paused) external;
+}
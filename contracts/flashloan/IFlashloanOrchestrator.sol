@@ -1,6 +1,10 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
+import {IWETH9} from '../weth/IWETH9.sol';
+import {Permit, Permit2Transfer} from '../permit/PermitLib.sol';
+import {IFlashloanHookRegistry} from './IFlashloanHookRegistry.sol';
+
 /// @notice Represents a single action to be executed
 /// @param target The target contract address
 /// @param value The amount of ETH to send with the call
@@ -11,6 +15,54 @@ struct Action {
 	bytes data;
 }
 
+/// @notice Copies a 32 byte word of a prior action result into the data of a later action
+/// @param action Index of the action whose result is read, lower than target
+/// @param word Index of the 32 byte word in the abi encoded result
+/// @param target Index of the action whose data is patched before execution
+/// @param offset Byte offset in the data of the target action, e.g. 32 * n for the n-th static value of abi encoded hook data
+struct Reference {
+	uint256 action;
+	uint256 word;
+	uint256 target;
+	uint256 offset;
+}
+
+/// @notice Lender kinds the orchestrator can borrow from
+enum FlashloanProvider {
+	MORPHO,
+	BALANCER,
+	ERC3156
+}
+
+/// @notice Flashloans of an execution, all taken from the same provider
+/// @dev Morpho and ERC-3156 loans are nested, one flashloan per token. Balancer loans all tokens at once.
+/// @param provider The kind of lender
+/// @param lender The Balancer vault or ERC-3156 lender, ignored for Morpho
+/// @param tokens Tokens to flashloan, sorted ascending without duplicates for Balancer
+/// @param amounts Amounts to flashloan, corresponding to tokens
+struct Flashloan {
+	FlashloanProvider provider;
+	address lender;
+	address[] tokens;
+	uint256[] amounts;
+}
+
+/// @notice Outcome of a simulated execution, reported by reverting with SimulationResult
+/// @param success True if the whole execution succeeded
+/// @param failedIndex Index of the failed action, zero on success, type(uint256).max for a failure outside of the actions
+/// @param reason Revert data of the failed action or execution, empty on success
+/// @param results Results of the executed actions, up to the failed action
+/// @param tokens Provided and flashloaned tokens, empty on failure
+/// @param deltas Balance changes of the sender per token, empty on failure
+struct SimulationReport {
+	bool success;
+	uint256 failedIndex;
+	bytes reason;
+	bytes[] results;
+	address[] tokens;
+	int256[] deltas;
+}
+
 /// @title IFlashloanOrchestrator
 /// @notice Interface for the FlashloanOrchestrator contract that enables flashloan-based action execution
 interface IFlashloanOrchestrator {
@@ -50,9 +102,33 @@ interface IFlashloanOrchestrator {
 	/// @notice Thrown when an unsupported function is called
 	error UnsupportedFunction();
 
+	/// @notice Thrown when the action target is not allowed by the hook registry
+	error HookNotAllowed(address hook);
+
+	/// @notice Thrown when a flashloan callback is not called by the lender of the current execution
+	error InvalidLender(address caller);
+
+	/// @notice Thrown when a flashloan callback arrives outside of an execution or more often than requested
+	error UnexpectedFlashloan();
+
+	/// @notice Always thrown by simulate, carries the outcome of the simulated execution
+	/// @param report The simulation report
+	error SimulationResult(SimulationReport report);
+
 	// ---------------------------------------------------------------------------------------
 	// State Variable Getters
 	// ---------------------------------------------------------------------------------------
+	// The execution getters are meant for hooks during an execution. They are backed by storage written at
+	// the start of every execution and deleted at its end, without transient storage hooks cannot read the
+	// context carried through the flashloan callbacks.
+
+	/// @notice Gets the hook registry consulted before every hook call
+	/// @return The registry address
+	function registry() external view returns (IFlashloanHookRegistry);
+
+	/// @notice Gets the wrapped native token used by executeNative
+	/// @return The WETH address
+	function weth() external view returns (IWETH9);
 
 	/// @notice Gets the address of the user who initiated the current execution
 	/// @return The sender address
@@ -69,17 +145,45 @@ interface IFlashloanOrchestrator {
 	function amounts(uint256 index) external view returns (uint256);
 
 	/// @notice Gets the token used for flashloan
-	/// @return The flashloan token address
+	/// @return The flashloan token address, the first one for multi-token executions
 	function flashToken() external view returns (address);
 
 	/// @notice Gets the amount borrowed via flashloan
-	/// @return The flashloan amount
+	/// @return The flashloan amount, the first one for multi-token executions
 	function flashAmount() external view returns (uint256);
 
+	/// @notice Gets the flashloan provider of the current execution
+	/// @return The provider kind
+	function provider() external view returns (FlashloanProvider);
+
+	/// @notice Gets the lender of the current execution
+	/// @return The Morpho, Balancer vault or ERC-3156 lender address
+	function lender() external view returns (address);
+
+	/// @notice Gets the tokens borrowed via flashloan
+	/// @param index The index of the token to retrieve
+	/// @return The flashloan token address at the specified index
+	function flashTokens(uint256 index) external view returns (address);
+
+	/// @notice Gets the amounts borrowed via flashloan
+	/// @param index The index of the amount to retrieve
+	/// @return The flashloan amount at the specified index
+	function flashAmounts(uint256 index) external view returns (uint256);
+
+	/// @notice Gets the fees charged by the lender, repaid on top of the flashloan amounts
+	/// @param index The index of the fee to retrieve
+	/// @return The flashloan fee at the specified index, known once actions run
+	function flashFees(uint256 index) external view returns (uint256);
+
 	/// @notice Gets the current action being executed (for error tracking)
+	/// @dev Reverts beyond action 255, see currentActionIndex
 	/// @return The current action index
 	function actionIndex() external view returns (uint8);
 
+	/// @notice Gets the current action being executed, for executions of any length
+	/// @return The current action index
+	function currentActionIndex() external view returns (uint256);
+
 	/// @notice Gets the action data at a specific index
 	/// @param index The index of the action to retrieve
 	/// @return target The target contract address
@@ -92,6 +196,10 @@ interface IFlashloanOrchestrator {
 	/// @return The action execution result
 	function actionResult(uint256 index) external view returns (bytes memory);
 
+	/// @notice Gets a reference of the current composed execution
+	/// @param index The index of the reference to retrieve
+	function references(uint256 index) external view returns (uint256 action, uint256 word, uint256 target, uint256 offset);
+
 	// ---------------------------------------------------------------------------------------
 	// Functions
 	// ---------------------------------------------------------------------------------------
@@ -108,5 +216,106 @@ interface IFlashloanOrchestrator {
 		address _flashToken,
 		uint256 _flashAmount,
 		Action[] calldata _actionData
-	) external returns (bytes[] memory);
+	) external payable returns (bytes[] memory);
+
+	/// @notice Executes a series of actions, where actions consume results of prior actions
+	/// @dev Same as execute, the data of each action is patched with its references right before the action runs
+	/// @param _tokens Array of token addresses to transfer from caller
+	/// @param _amounts Array of amounts corresponding to tokens
+	/// @param _flashToken Token to flashloan
+	/// @param _flashAmount Amount to flashloan
+	/// @param _actionData Array of actions to execute during the flashloan
+	/// @param _references Results of prior actions to patch into the data of later actions
+	function executeComposed(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		address _flashToken,
+		uint256 _flashAmount,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable returns (bytes[] memory);
+
+	/// @notice Executes a series of actions funded by flashloans of several tokens from the chosen provider
+	/// @dev Fees of Balancer and ERC-3156 lenders have to be covered by the provided tokens or the actions
+	/// @param _tokens Array of token addresses to transfer from caller
+	/// @param _amounts Array of amounts corresponding to tokens
+	/// @param _flashloan Provider, lender, tokens and amounts to flashloan
+	/// @param _actionData Array of actions to execute during the flashloans
+	/// @param _references Results of prior actions to patch into the data of later actions, empty for none
+	function executeMulti(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable returns (bytes[] memory);
+
+	/// @notice Simulates executeMulti and reverts with SimulationResult, meant to be called via eth_call
+	/// @dev A reverting action is reported with its index and revert data. Failures outside of the actions,
+	/// e.g. missing approvals, the lender or the repayment, are reported with index type(uint256).max.
+	/// @param _tokens Array of token addresses to transfer from caller
+	/// @param _amounts Array of amounts corresponding to tokens
+	/// @param _flashloan Provider, lender, tokens and amounts to flashloan
+	/// @param _actionData Array of actions to execute during the flashloans
+	/// @param _references Results of prior actions to patch into the data of later actions, empty for none
+	function simulate(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable;
+
+	/// @notice Executes like executeMulti, wrapping the sent ETH before and unwrapping the remaining WETH after the flashloans
+	/// @dev Wrapped WETH is approved to the actions like a provided token, unwrapped ETH is refunded with any remaining ETH
+	/// @param _tokens Array of token addresses to transfer from caller
+	/// @param _amounts Array of amounts corresponding to tokens
+	/// @param _flashloan Provider, lender, tokens and amounts to flashloan
+	/// @param _actionData Array of actions to execute during the flashloans
+	/// @param _references Results of prior actions to patch into the data of later actions, empty for none
+	/// @param _wrap Wraps msg.value into WETH before the flashloans, otherwise it stays ETH for the action values
+	/// @param _unwrap Unwraps the remaining WETH after the flashloans and refunds it as ETH
+	function executeNative(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references,
+		bool _wrap,
+		bool _unwrap
+	) external payable returns (bytes[] memory);
+
+	/// @notice Executes like executeMulti, applying EIP-2612 permits for the provided tokens instead of a prior approval
+	/// @dev Permits with a zero deadline are skipped, for tokens already approved
+	/// @param _tokens Array of token addresses to transfer from caller
+	/// @param _amounts Array of amounts corresponding to tokens
+	/// @param _flashloan Provider, lender, tokens and amounts to flashloan
+	/// @param _actionData Array of actions to execute during the flashloans
+	/// @param _references Results of prior actions to patch into the data of later actions, empty for none
+	/// @param _permits Permits of the caller for this contract, one per provided token
+	function executeWithPermit(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references,
+		Permit[] calldata _permits
+	) external payable returns (bytes[] memory);
+
+	/// @notice Executes like executeMulti, transferring the provided tokens with one Permit2 signature instead of a prior approval
+	/// @dev The caller signs over all provided tokens and amounts with this contract as spender
+	/// @param _tokens Array of token addresses to transfer from caller
+	/// @param _amounts Array of amounts corresponding to tokens
+	/// @param _flashloan Provider, lender, tokens and amounts to flashloan
+	/// @param _actionData Array of actions to execute during the flashloans
+	/// @param _references Results of prior actions to patch into the data of later actions, empty for none
+	/// @param _transfer Nonce, deadline and signature of the Permit2 batch transfer
+	function executeWithPermit2(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references,
+		Permit2Transfer calldata _transfer
+	) external payable returns (bytes[] memory);
 }
@@ -11,6 +11,7 @@ import {ISwapRouter} from '@uniswap/v3-periphery/contracts/interfaces/ISwapRoute
 import {IMorpho, MarketParams, Id, Position, Market} from '../morpho/IMorpho.sol';
 import {SharesMathLib} from '../morpho/SharesMathLib.sol';
 import {IMorphoFlashLoanCallback} from '../morpho/IMorphoCallbacks.sol';
+import {PermitLib, Permit, Permit2Transfer} from '../permit/PermitLib.sol';
 
 contract LeverageMorpho is Ownable, IMorphoFlashLoanCallback {
 	using Math for uint256;
@@ -155,12 +156,6 @@ contract LeverageMorpho is Ownable, IMorphoFlashLoanCallback {
 		uint24[] memory fees,
 		uint256 amountOutMinimum
 	) external onlyOwner {
-		// path encoding checks
-		if (tokens.length < 2) revert WrongEncodePathInputs();
-		if (tokens[0] != address(loan)) revert WrongInputToken(tokens[0], address(loan));
-		if (tokens[tokens.length - 1] != address(collateral))
-			revert WrongOutputToken(tokens[tokens.length - 1], address(collateral));
-
 		// add additional funds
 		if (walletLoan > 0) {
 			loan.safeTransferFrom(msg.sender, address(this), walletLoan); // needs allowance (loan tkn)
@@ -169,6 +164,64 @@ contract LeverageMorpho is Ownable, IMorphoFlashLoanCallback {
 			collateral.safeTransferFrom(msg.sender, address(this), walletColl); // needs allowance (coll tkn)
 		}
 
+		_increase(assets, tokens, fees, amountOutMinimum);
+	}
+
+	// same as increase, with EIP-2612 permits instead of allowances, zero deadline skips a permit
+	function increaseWithPermit(
+		uint256 walletLoan, // add additional loan tkn
+		uint256 walletColl, // add additional collateral tkn
+		uint256 assets, // flashloan amount loan tkn
+		address[] memory tokens,
+		uint24[] memory fees,
+		uint256 amountOutMinimum,
+		Permit memory loanPermit,
+		Permit memory collPermit
+	) external onlyOwner {
+		// add additional funds
+		if (walletLoan > 0) {
+			PermitLib.permit(address(loan), msg.sender, walletLoan, loanPermit);
+			loan.safeTransferFrom(msg.sender, address(this), walletLoan);
+		}
+		if (walletColl > 0) {
+			PermitLib.permit(address(collateral), msg.sender, walletColl, collPermit);
+			collateral.safeTransferFrom(msg.sender, address(this), walletColl);
+		}
+
+		_increase(assets, tokens, fees, amountOutMinimum);
+	}
+
+	// same as increase, with one Permit2 signature over the loan and collateral tkn (in this order)
+	function increaseWithPermit2(
+		uint256 walletLoan, // add additional loan tkn
+		uint256 walletColl, // add additional collateral tkn
+		uint256 assets, // flashloan amount loan tkn
+		address[] memory tokens,
+		uint24[] memory fees,
+		uint256 amountOutMinimum,
+		Permit2Transfer memory transfer
+	) external onlyOwner {
+		// add additional funds
+		address[] memory wallet = new address[](2);
+		wallet[0] = address(loan);
+		wallet[1] = address(collateral);
+
+		uint256[] memory amounts = new uint256[](2);
+		amounts[0] = walletLoan;
+		amounts[1] = walletColl;
+
+		PermitLib.permit2BatchTransferFrom(wallet, amounts, msg.sender, transfer);
+
+		_increase(assets, tokens, fees, amountOutMinimum);
+	}
+
+	function _increase(uint256 assets, address[] memory tokens, uint24[] memory fees, uint256 amountOutMinimum) internal {
+		// path encoding checks
+		if (tokens.length < 2) revert WrongEncodePathInputs();
+		if (tokens[0] != address(loan)) revert WrongInputToken(tokens[0], address(loan));
+		if (tokens[tokens.length - 1] != address(collateral))
+			revert WrongOutputToken(tokens[tokens.length - 1], address(collateral));
+
 		// perform flashloan with data
 		bytes memory data = abi.encode(INCREASE_LEVERAGE, encodePath(tokens, fees), amountOutMinimum); // FIXME: move encodePath to off-chain
 		morpho.flashLoan(address(loan), assets, data);
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0;
+
+/// @title Interface for the signature transfers of Uniswap Permit2
+/// @notice Subset of ISignatureTransfer, tokens are pulled with a one-time signature of the owner
+/// @dev The owner approves Permit2 once per token, nonces are unordered and consumed by the transfer
+interface IPermit2 {
+	/// @notice The token and amount details for a transfer signed in the permit transfer signature
+	struct TokenPermissions {
+		address token;
+		uint256 amount;
+	}
+
+	/// @notice The signed permit message for a single token transfer
+	struct PermitTransferFrom {
+		TokenPermissions permitted;
+		uint256 nonce;
+		uint256 deadline;
+	}
+
+	/// @notice The signed permit message for multiple token transfers
+	struct PermitBatchTransferFrom {
+		TokenPermissions[] permitted;
+		uint256 nonce;
+		uint256 deadline;
+	}
+
+	/// @notice Specifies the recipient address and amount for batched transfers
+	struct SignatureTransferDetails {
+		address to;
+		uint256 requestedAmount;
+	}
+
+	/// @notice Transfers a token using a signed permit message
+	/// @param permit The permit data signed over by the owner
+	/// @param transferDetails The spender's requested transfer details for the permitted token
+	/// @param owner The owner of the tokens to transfer
+	/// @param signature The signature to verify
+	function permitTransferFrom(
+		PermitTransferFrom memory permit,
+		SignatureTransferDetails calldata transferDetails,
+		address owner,
+		bytes calldata signature
+	) external;
+
+	/// @notice Transfers multiple tokens using a signed permit message
+	/// @param permit The permit data signed over by the owner
+	/// @param transferDetails Specifies the recipient and requested amount for the token transfer
+	/// @param owner The owner of the tokens to transfer
+	/// @param signature The signature to verify
+	function permitTransferFrom(
+		PermitBatchTransferFrom memory permit,
+		SignatureTransferDetails[] calldata transferDetails,
+		address owner,
+		bytes calldata signature
+	) external;
+
+	/// @notice A map from token owner address and a caller specified word index to a bitmap of used nonces
+	function nonceBitmap(address owner, uint256 wordPos) external view returns (uint256);
+}
@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import {IERC20Permit} from '@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol';
+
+import {IPermit2} from './IPermit2.sol';
+
+/// @notice EIP-2612 permit of the owner for the contract pulling the tokens
+/// @param value The allowance signed over, at least the amount pulled
+/// @param deadline The timestamp until the signature is valid, zero skips the permit for tokens already approved
+struct Permit {
+	uint256 value;
+	uint256 deadline;
+	uint8 v;
+	bytes32 r;
+	bytes32 s;
+}
+
+/// @notice Permit2 signature transfer of the owner, the tokens and amounts are given by the entry point
+/// @param nonce The unordered Permit2 nonce, consumed by the transfer
+/// @param deadline The timestamp until the signature is valid
+/// @param signature The signature over the Permit2 message
+struct Permit2Transfer {
+	uint256 nonce;
+	uint256 deadline;
+	bytes signature;
+}
+
+/// @title PermitLib
+/// @notice Pulls tokens with EIP-2612 permits or Permit2 signature transfers instead of a prior approval
+/// @dev Permit2 is deployed at the same address on all chains
+library PermitLib {
+	/// @notice Canonical Uniswap Permit2 deployment
+	IPermit2 internal constant PERMIT2 = IPermit2(0x000000000022D473030F116dDEE9F6B43aC78BA3);
+
+	/// @notice Thrown when a permit failed and the allowance does not cover the amount
+	/// @param token The token of the permit
+	/// @param allowance The allowance of the owner after the permit
+	/// @param amount The amount to pull
+	error PermitFailed(address token, uint256 allowance, uint256 amount);
+
+	/// @notice Applies an EIP-2612 permit for this contract
+	/// @dev A failing permit is accepted if the allowance already covers the amount, e.g. if the permit was front-run
+	/// @param token The token to permit
+	/// @param owner The owner signing the permit
+	/// @param amount The amount about to be pulled
+	/// @param signed The permit signature, skipped if the deadline is zero
+	function permit(address token, address owner, uint256 amount, Permit memory signed) internal {
+		if (signed.deadline == 0) return;
+
+		try IERC20Permit(token).permit(owner, address(this), signed.value, signed.deadline, signed.v, signed.r, signed.s) {} catch {
+			uint256 allowance = IERC20(token).allowance(owner, address(this));
+			if (allowance < amount) revert PermitFailed(token, allowance, amount);
+		}
+	}
+
+	/// @notice Transfers a token from the owner to this contract with a Permit2 signature
+	/// @param token The token to transfer
+	/// @param owner The owner signing the transfer
+	/// @param amount The amount signed over and transferred
+	/// @param transfer The Permit2 nonce, deadline and signature
+	function permit2TransferFrom(address token, address owner, uint256 amount, Permit2Transfer memory transfer) internal {
+		PERMIT2.permitTransferFrom(
+			IPermit2.PermitTransferFrom({
+				permitted: IPermit2.TokenPermissions({token: token, amount: amount}),
+				nonce: transfer.nonce,
+				deadline: transfer.deadline
+			}),
+			IPermit2.SignatureTransferDetails({to: address(this), requestedAmount: amount}),
+			owner,
+			transfer.signature
+		);
+	}
+
+	/// @notice Transfers multiple tokens from the owner to this contract with one Permit2 signature
+	/// @dev All tokens are signed over, including those with a zero amount
+	/// @param tokens The tokens to transfer
+	/// @param amounts The amounts signed over and transferred
+	/// @param owner The owner signing the transfer
+	/// @param transfer The Permit2 nonce, deadline and signature
+	function permit2BatchTransferFrom(
+		address[] memory tokens,
+		uint256[] memory amounts,
+		address owner,
+		Permit2Transfer memory transfer
+	) internal {
+		IPermit2.TokenPermissions[] memory permitted = new IPermit2.TokenPermissions[](tokens.length);
+		IPermit2.SignatureTransferDetails[] memory details = new IPermit2.SignatureTransferDetails[](tokens.length);
+
+		for (uint256 i = 0; i < tokens.length; i++) {
+			permitted[i] = IPermit2.TokenPermissions({token: tokens[i], amount: amounts[i]});
+			details[i] = IPermit2.SignatureTransferDetails({to: address(this), requestedAmount: amounts[i]});
+		}
+
+		PERMIT2.permitTransferFrom(
+			IPermit2.PermitBatchTransferFrom({permitted: permitted, nonce: transfer.nonce, deadline: transfer.deadline}),
+			details,
+			owner,
+			transfer.signature
+		);
+	}
+}
@@ -1,16 +1,21 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
-import {Ownable} from '@openzeppelin/contracts/access/Ownable.sol';
+import {AccessControl} from '@openzeppelin/contracts/access/AccessControl.sol';
 import {Address} from '@openzeppelin/contracts/utils/Address.sol';
+import {EnumerableSet} from '@openzeppelin/contracts/utils/structs/EnumerableSet.sol';
+import {ECDSA} from '@openzeppelin/contracts/utils/cryptography/ECDSA.sol';
+import {EIP712} from '@openzeppelin/contracts/utils/cryptography/EIP712.sol';
 
 /**
  * @title Queue
  * @notice A smart contract for executing batch operations with failure handling
- * @dev Implements ownership, reentrancy protection, and pausable functionality
+ * @dev Implements role-based access, timelocked and signed batches, and pausable functionality
  */
-contract Queue is Ownable {
+contract Queue is AccessControl, EIP712 {
     using Address for address;
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
 
     // ============ Events ============
 
@@ -31,13 +36,57 @@ contract Queue is Ownable {
     /// @notice Emitted when an individual action fails
     /// @param batchId The batch identifier
     /// @param actionIndex The index of the failed action
-    /// @param reason The reason for failure
+    /// @param reason The raw revert data of the failed call, e.g. an encoded Error(string), Panic(uint256) or custom error
     event ActionFailed(
         uint256 indexed batchId,
         uint256 actionIndex,
-        string reason
+        bytes reason
     );
 
+    /// @notice Emitted when a batch is queued for later execution
+    /// @param batchId The unique identifier for the batch
+    /// @param actions The actions to execute
+    /// @param allowFailureMap The failure map for the batch
+    /// @param eta The earliest execution timestamp
+    /// @param expiry The latest execution timestamp, zero if the batch does not expire
+    event BatchQueued(
+        uint256 indexed batchId,
+        Action[] actions,
+        uint256 allowFailureMap,
+        uint64 eta,
+        uint64 expiry
+    );
+
+    /// @notice Emitted when a queued batch is cancelled
+    /// @param batchId The batch identifier
+    event BatchCancelled(uint256 indexed batchId);
+
+    /// @notice Emitted when the minimum delay for queued batches changes
+    /// @param oldDelay The previous minimum delay in seconds
+    /// @param newDelay The new minimum delay in seconds
+    event MinDelayChanged(uint256 oldDelay, uint256 newDelay);
+
+    /// @notice Emitted when a function of a target is allowed
+    /// @param target The target contract address
+    /// @param selector The function selector
+    /// @param maxValue Maximum ETH value allowed per call, NO_VALUE_CAP if uncapped
+    event SelectorAllowed(address indexed target, bytes4 indexed selector, uint256 maxValue);
+
+    /// @notice Emitted when a function of a target is disallowed
+    /// @param target The target contract address
+    /// @param selector The function selector
+    event SelectorDisallowed(address indexed target, bytes4 indexed selector);
+
+    /// @notice Emitted when the nonce of a signed batch is consumed
+    /// @param signer The address that signed the batch
+    /// @param nonce The consumed nonce
+    event NonceUsed(address indexed signer, bytes32 nonce);
+
+    /// @notice Emitted when a signer cancels a nonce before it is used
+    /// @param signer The address that cancelled the nonce
+    /// @param nonce The cancelled nonce
+    event AuthorizationCanceled(address indexed signer, bytes32 nonce);
+
     /// @notice Emitted when the contract is paused
     /// @param account The address that paused the contract
     event Paused(address indexed account);
@@ -58,16 +107,79 @@ contract Queue is Ownable {
         bytes data;
     }
 
+    /// @notice Allowance of a single function of a target
+    /// @param allowed Whether calls to the function are allowed
+    /// @param maxValue Maximum ETH value allowed per call, NO_VALUE_CAP if uncapped
+    struct SelectorPolicy {
+        bool allowed;
+        uint256 maxValue;
+    }
+
     /// @notice Configuration for batch execution
     /// @param maxActions Maximum number of actions allowed per batch
     /// @param maxValue Maximum ETH value allowed per action
-    /// @param allowedTargets Mapping of allowed target addresses
+    /// @param allowedTargets Mapping of allowed target addresses, all functions of these can be called
+    /// @param allowedSelectors Mapping of allowed functions per target, for targets not allowed as a whole
     struct BatchConfig {
         uint256 maxActions;
         uint256 maxValue;
         mapping(address => bool) allowedTargets;
+        mapping(address => mapping(bytes4 => SelectorPolicy)) allowedSelectors;
+    }
+
+    /// @notice Lifecycle of a queued batch
+    enum BatchState {
+        None,
+        Queued,
+        Executed,
+        Cancelled
+    }
+
+    /// @notice A batch waiting for its execution window
+    /// @param actions The actions to execute, deleted once executed or cancelled
+    /// @param allowFailureMap The failure map for the batch
+    /// @param eta The earliest execution timestamp
+    /// @param expiry The latest execution timestamp, zero if the batch does not expire
+    /// @param state The current state of the batch
+    struct QueuedBatch {
+        Action[] actions;
+        uint256 allowFailureMap;
+        uint64 eta;
+        uint64 expiry;
+        BatchState state;
     }
 
+    // ============ Roles ============
+
+    /// @notice Role allowed to queue batches
+    bytes32 public constant PROPOSER_ROLE = keccak256('PROPOSER_ROLE');
+
+    /// @notice Role allowed to execute batches, immediately or once queued
+    bytes32 public constant EXECUTOR_ROLE = keccak256('EXECUTOR_ROLE');
+
+    /// @notice Role allowed to cancel queued batches
+    bytes32 public constant CANCELLER_ROLE = keccak256('CANCELLER_ROLE');
+
+    /// @notice Role allowed to pause the contract, unpausing requires the admin role
+    bytes32 public constant PAUSER_ROLE = keccak256('PAUSER_ROLE');
+
+    /// @notice Role allowed to sign batches, which any relayer can submit with executeSignedBatch
+    bytes32 public constant SIGNER_ROLE = keccak256('SIGNER_ROLE');
+
+    // ============ Constants ============
+
+    /// @notice Selector policy value cap for functions without a per-call ETH limit
+    uint256 public constant NO_VALUE_CAP = type(uint256).max;
+
+    /// @notice EIP-712 type hash of an action within a signed batch
+    bytes32 public constant ACTION_TYPEHASH = keccak256('Action(address target,uint256 value,bytes data)');
+
+    /// @notice EIP-712 type hash of a signed batch
+    bytes32 public constant SIGNED_BATCH_TYPEHASH =
+        keccak256(
+            'SignedBatch(Action[] actions,uint256 allowFailureMap,bytes32 nonce,uint256 deadline)Action(address target,uint256 value,bytes data)'
+        );
+
     // ============ State Variables ============
 
     /// @notice Counter for batch IDs
@@ -79,8 +191,47 @@ contract Queue is Ownable {
     /// @notice Mapping to track executed batch IDs to prevent replay
     mapping(uint256 => bool) public executedBatches;
 
+    /// @notice Whether queueing and executing batches is paused
+    bool public paused;
+
+    /// @notice Minimum time in seconds between queueing and executing a batch
+    uint256 public minDelay;
+
+    /// @notice Queued batches by batch ID
+    mapping(uint256 => QueuedBatch) private _queuedBatches;
+
+    /// @notice Used or cancelled nonces of signed batches per signer
+    mapping(address => mapping(bytes32 => bool)) public nonces;
+
+    /// @notice Targets allowed as a whole, for enumeration
+    EnumerableSet.AddressSet private _allowedTargets;
+
+    /// @notice Targets with at least one allowed selector, for enumeration
+    EnumerableSet.AddressSet private _selectorTargets;
+
+    /// @notice Allowed selectors per target, for enumeration
+    mapping(address => EnumerableSet.Bytes32Set) private _targetSelectors;
+
     // ============ Errors ============
 
+    /// @notice Thrown when the signature of a signed batch cannot be recovered
+    error SignatureInvalid();
+
+    /// @notice Thrown when the nonce of a signed batch is already used or cancelled
+    /// @param signer The address that signed the batch
+    /// @param nonce The nonce
+    error NonceAlreadyUsed(address signer, bytes32 nonce);
+
+    /// @notice Thrown when a signed batch is submitted after its deadline
+    /// @param deadline The latest execution timestamp
+    error AuthorizationExpired(uint256 deadline);
+
+    /// @notice Thrown when queueing or executing while the contract is paused
+    error EnforcedPause();
+
+    /// @notice Thrown when unpausing while the contract is not paused
+    error ExpectedPause();
+
     /// @notice Thrown when no actions are provided
     error InvalidActionCount();
     
@@ -97,12 +248,49 @@ contract Queue is Ownable {
     /// @notice Thrown when target is not in allowed list
     error TargetNotAllowed();
     
+    /// @notice Thrown when the called function of a target with a selector allowlist is not allowed
+    /// @param target The target contract address
+    /// @param selector The function selector, zero for calls with less than 4 bytes of data
+    error SelectorNotAllowed(address target, bytes4 selector);
+
+    /// @notice Thrown when value exceeds the maximum of the called function
+    /// @param target The target contract address
+    /// @param selector The function selector
+    /// @param maxValue The maximum ETH value allowed per call
+    error SelectorValueExceedsMaximum(address target, bytes4 selector, uint256 maxValue);
+
     /// @notice Thrown when batch has already been executed
     error BatchAlreadyExecuted();
     
     /// @notice Thrown when batch size exceeds maximum
     error BatchSizeExceedsMaximum();
 
+    /// @notice Thrown when a batch is executed immediately while a minimum delay is set
+    error ImmediateExecutionDisabled();
+
+    /// @notice Thrown when the execution timestamp is earlier than the minimum delay allows
+    /// @param eta The requested execution timestamp
+    /// @param earliest The earliest allowed execution timestamp
+    error DelayTooShort(uint256 eta, uint256 earliest);
+
+    /// @notice Thrown when the expiry is not after the execution timestamp
+    error InvalidExpiry();
+
+    /// @notice Thrown when a batch is not in the queued state
+    /// @param batchId The batch identifier
+    error BatchNotQueued(uint256 batchId);
+
+    /// @notice Thrown when a queued batch is executed before its execution timestamp
+    /// @param eta The earliest execution timestamp
+    error BatchNotReady(uint64 eta);
+
+    /// @notice Thrown when a queued batch is executed after its expiry
+    /// @param expiry The latest execution timestamp
+    error BatchExpired(uint64 expiry);
+
+    /// @notice Thrown when the minimum delay is lowered without going through the queue
+    error DelayDecreaseNotQueued();
+
     // ============ Modifiers ============
 
     /// @notice Validates that actions array is not empty
@@ -113,6 +301,12 @@ contract Queue is Ownable {
         _;
     }
 
+    /// @notice Validates that the contract is not paused
+    modifier whenNotPaused() {
+        if (paused) revert EnforcedPause();
+        _;
+    }
+
     /// @notice Validates that the contract has sufficient balance
     /// @param totalValue The total value to be sent
     modifier sufficientBalance(uint256 totalValue) {
@@ -123,9 +317,17 @@ contract Queue is Ownable {
     // ============ Constructor ============
 
     /// @notice Initializes the Queue contract
+    /// @dev The deployer gets all roles and can grant them to keepers and guardians, then renounce them
     /// @param _maxActions Maximum number of actions allowed per batch
     /// @param _maxValue Maximum ETH value allowed per action
-    constructor(uint256 _maxActions, uint256 _maxValue) Ownable(msg.sender) {
+    constructor(uint256 _maxActions, uint256 _maxValue) EIP712('Queue', '1') {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PROPOSER_ROLE, msg.sender);
+        _grantRole(EXECUTOR_ROLE, msg.sender);
+        _grantRole(CANCELLER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _grantRole(SIGNER_ROLE, msg.sender);
+
         batchConfig.maxActions = _maxActions;
         batchConfig.maxValue = _maxValue;
     }
@@ -133,6 +335,7 @@ contract Queue is Ownable {
     // ============ Core Functions ============
 
     /// @notice Executes a batch of actions with failure handling
+    /// @dev Only available while no minimum delay is set, use queueBatch otherwise
     /// @param actions Array of actions to execute
     /// @param allowFailureMap Bitmap allowing specific actions to fail without reverting the entire batch
     /// @return results Array indicating success/failure of each action
@@ -142,25 +345,196 @@ contract Queue is Ownable {
         uint256 allowFailureMap
     ) 
         external 
-        onlyOwner 
+        onlyRole(EXECUTOR_ROLE) 
+        whenNotPaused
         validActions(actions)
         returns (bool[] memory results, uint256 batchId)
     {
+        if (minDelay > 0) revert ImmediateExecutionDisabled();
+
         // Generate batch ID based on actions and metadata
         batchId = _createBatchId(actions, allowFailureMap);
         
         // Check if batch has already been executed
         if (executedBatches[batchId]) revert BatchAlreadyExecuted();
         
-        // Mark batch as executed
-        executedBatches[batchId] = true;
-        
-        results = new bool[](actions.length);
-        uint256 totalValue = 0;
-        
-        // Validate all actions before execution
+        results = _executeActions(batchId, actions, allowFailureMap);
+    }
+
+    /// @notice Queues a batch of actions for execution within a time window
+    /// @param actions Array of actions to execute
+    /// @param allowFailureMap Bitmap allowing specific actions to fail without reverting the entire batch
+    /// @param eta The earliest execution timestamp, at least minDelay from now
+    /// @param expiry The latest execution timestamp, zero if the batch should not expire
+    /// @return batchId The unique identifier for this batch
+    function queueBatch(
+        Action[] calldata actions,
+        uint256 allowFailureMap,
+        uint64 eta,
+        uint64 expiry
+    )
+        external
+        onlyRole(PROPOSER_ROLE)
+        whenNotPaused
+        validActions(actions)
+        returns (uint256 batchId)
+    {
+        uint256 earliest = block.timestamp + minDelay;
+        if (eta < earliest) revert DelayTooShort(eta, earliest);
+        if (expiry != 0 && expiry <= eta) revert InvalidExpiry();
+
+        // Validate now to fail early, the actions are validated again on execution
+        _validateActions(actions);
+
+        // Each queued batch gets its own ID, so the same actions can be queued more than once
+        batchId = _createBatchId(actions, allowFailureMap);
+        if (executedBatches[batchId]) revert BatchAlreadyExecuted();
+        _batchCounter++;
+
+        QueuedBatch storage batch = _queuedBatches[batchId];
+        for (uint256 i = 0; i < actions.length; i++) {
+            batch.actions.push(actions[i]);
+        }
+        batch.allowFailureMap = allowFailureMap;
+        batch.eta = eta;
+        batch.expiry = expiry;
+        batch.state = BatchState.Queued;
+
+        emit BatchQueued(batchId, actions, allowFailureMap, eta, expiry);
+    }
+
+    /// @notice Cancels a queued batch
+    /// @param batchId The batch identifier
+    function cancelBatch(uint256 batchId) external onlyRole(CANCELLER_ROLE) {
+        QueuedBatch storage batch = _queuedBatches[batchId];
+        if (batch.state != BatchState.Queued) revert BatchNotQueued(batchId);
+
+        batch.state = BatchState.Cancelled;
+        delete batch.actions;
+
+        emit BatchCancelled(batchId);
+    }
+
+    /// @notice Executes a queued batch within its execution window
+    /// @param batchId The batch identifier
+    /// @return results Array indicating success/failure of each action
+    function executeQueuedBatch(
+        uint256 batchId
+    ) external onlyRole(EXECUTOR_ROLE) whenNotPaused returns (bool[] memory results) {
+        QueuedBatch storage batch = _queuedBatches[batchId];
+        if (batch.state != BatchState.Queued) revert BatchNotQueued(batchId);
+        if (block.timestamp < batch.eta) revert BatchNotReady(batch.eta);
+        if (batch.expiry != 0 && block.timestamp > batch.expiry) revert BatchExpired(batch.expiry);
+
+        Action[] memory actions = batch.actions;
+        batch.state = BatchState.Executed;
+        delete batch.actions;
+
+        results = _executeActions(batchId, actions, batch.allowFailureMap);
+    }
+
+    /// @notice Executes a batch signed by an account with the signer role, submitted by any relayer
+    /// @dev Only available while no minimum delay is set, like executeBatch
+    /// @param actions Array of actions to execute
+    /// @param allowFailureMap Bitmap allowing specific actions to fail without reverting the entire batch
+    /// @param nonce Random nonce of the signer, see cancelAuthorization
+    /// @param deadline The latest execution timestamp
+    /// @param signature EIP-712 signature of the SignedBatch
+    /// @return results Array indicating success/failure of each action
+    /// @return batchId The unique identifier for this batch
+    function executeSignedBatch(
+        Action[] calldata actions,
+        uint256 allowFailureMap,
+        bytes32 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    )
+        external
+        whenNotPaused
+        validActions(actions)
+        returns (bool[] memory results, uint256 batchId)
+    {
+        if (minDelay > 0) revert ImmediateExecutionDisabled();
+
+        bytes32 hash = hashSignedBatch(actions, allowFailureMap, nonce, deadline);
+        address signer = _recoverSigner(hash, signature);
+        _checkRole(SIGNER_ROLE, signer);
+        if (nonces[signer][nonce]) revert NonceAlreadyUsed(signer, nonce);
+        if (block.timestamp > deadline) revert AuthorizationExpired(deadline);
+
+        // Consume the nonce before any call
+        nonces[signer][nonce] = true;
+        emit NonceUsed(signer, nonce);
+
+        // The digest covers the signer's nonce, so each signed batch gets its own ID
+        batchId = uint256(hash);
+        if (executedBatches[batchId]) revert BatchAlreadyExecuted();
+
+        results = _executeActions(batchId, actions, allowFailureMap);
+    }
+
+    /// @notice Cancels an unused nonce of the caller, invalidating batches signed with it
+    /// @param nonce The nonce to cancel
+    function cancelAuthorization(bytes32 nonce) external {
+        if (nonces[msg.sender][nonce]) revert NonceAlreadyUsed(msg.sender, nonce);
+        nonces[msg.sender][nonce] = true;
+        emit AuthorizationCanceled(msg.sender, nonce);
+    }
+
+    /// @notice Recovers the signer of a signed batch
+    /// @param actions Array of actions to execute
+    /// @param allowFailureMap The failure map for the batch
+    /// @param nonce Random nonce of the signer
+    /// @param deadline The latest execution timestamp
+    /// @param signature EIP-712 signature of the SignedBatch
+    /// @return signer The recovered signer, not checked for the signer role
+    function verifyBatchSignature(
+        Action[] calldata actions,
+        uint256 allowFailureMap,
+        bytes32 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) public view returns (address signer) {
+        signer = _recoverSigner(hashSignedBatch(actions, allowFailureMap, nonce, deadline), signature);
+    }
+
+    /// @notice Gets the EIP-712 digest of a signed batch
+    /// @param actions Array of actions to execute
+    /// @param allowFailureMap The failure map for the batch
+    /// @param nonce Random nonce of the signer
+    /// @param deadline The latest execution timestamp
+    /// @return The digest to sign
+    function hashSignedBatch(
+        Action[] calldata actions,
+        uint256 allowFailureMap,
+        bytes32 nonce,
+        uint256 deadline
+    ) public view returns (bytes32) {
+        bytes32[] memory actionHashes = new bytes32[](actions.length);
         for (uint256 i = 0; i < actions.length; i++) {
-            Action calldata action = actions[i];
+            actionHashes[i] = keccak256(
+                abi.encode(ACTION_TYPEHASH, actions[i].target, actions[i].value, keccak256(actions[i].data))
+            );
+        }
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                SIGNED_BATCH_TYPEHASH,
+                keccak256(abi.encodePacked(actionHashes)),
+                allowFailureMap,
+                nonce,
+                deadline
+            )
+        );
+        return _hashTypedDataV4(structHash);
+    }
+
+    /// @notice Validates the actions against the batch configuration
+    /// @param actions The actions to validate
+    /// @return totalValue The total ETH value of the actions
+    function _validateActions(Action[] memory actions) internal view returns (uint256 totalValue) {
+        for (uint256 i = 0; i < actions.length; i++) {
+            Action memory action = actions[i];
             
             // Validate target address
             if (action.target == address(0)) revert InvalidTargetAddress();
@@ -168,13 +542,48 @@ contract Queue is Ownable {
             // Validate value
             if (action.value > batchConfig.maxValue) revert ValueExceedsMaximum();
             
-            // Check if target is allowed (if restrictions are enabled)
-            if (batchConfig.allowedTargets[address(0)] == false) {
-                if (!batchConfig.allowedTargets[action.target]) revert TargetNotAllowed();
+            // Check if target or function is allowed (if restrictions are enabled)
+            bytes4 selector = _selector(action.data);
+            SelectorPolicy storage policy = batchConfig.allowedSelectors[action.target][selector];
+            if (batchConfig.allowedTargets[address(0)] == false && !batchConfig.allowedTargets[action.target]) {
+                if (_targetSelectors[action.target].length() == 0) revert TargetNotAllowed();
+                if (!policy.allowed) revert SelectorNotAllowed(action.target, selector);
+            }
+
+            // Per-function value caps apply even if the target is allowed as a whole
+            if (policy.allowed && action.value > policy.maxValue) {
+                revert SelectorValueExceedsMaximum(action.target, selector, policy.maxValue);
             }
             
             totalValue += action.value;
         }
+    }
+
+    /// @notice Gets the function selector of call data
+    /// @param data The call data
+    /// @return The first 4 bytes of the data, zero for shorter data such as plain ETH transfers
+    function _selector(bytes memory data) internal pure returns (bytes4) {
+        if (data.length < 4) return bytes4(0);
+        return bytes4(data);
+    }
+
+    /// @notice Validates and executes the actions of a batch
+    /// @param batchId The batch identifier
+    /// @param actions The actions to execute
+    /// @param allowFailureMap The failure map for the batch
+    /// @return results Array indicating success/failure of each action
+    function _executeActions(
+        uint256 batchId,
+        Action[] memory actions,
+        uint256 allowFailureMap
+    ) internal returns (bool[] memory results) {
+        // Mark batch as executed
+        executedBatches[batchId] = true;
+        
+        results = new bool[](actions.length);
+
+        // Validate all actions before execution
+        uint256 totalValue = _validateActions(actions);
         
         // Check sufficient balance
         if (totalValue > 0) {
@@ -183,7 +592,7 @@ contract Queue is Ownable {
         
         // Execute actions
         for (uint256 i = 0; i < actions.length; i++) {
-            Action calldata action = actions[i];
+            Action memory action = actions[i];
             
             // Execute action
             (bool success, bytes memory returnData) = action.target.call{
@@ -198,7 +607,7 @@ contract Queue is Ownable {
                     revert ActionExecutionFailed(i);
                 }
                 results[i] = false;
-                emit ActionFailed(batchId, i, string(returnData));
+                emit ActionFailed(batchId, i, returnData);
             }
         }
         
@@ -224,63 +633,121 @@ contract Queue is Ownable {
         batchId = uint256(hash);
     }
 
+    /// @notice Recovers the signer of an EIP-712 digest
+    /// @param hash The digest of the SignedBatch
+    /// @param signature EIP-712 signature of the SignedBatch
+    /// @return signer The recovered signer, not checked for the signer role
+    function _recoverSigner(bytes32 hash, bytes calldata signature) internal pure returns (address signer) {
+        (signer, , ) = ECDSA.tryRecover(hash, signature);
+        if (signer == address(0)) revert SignatureInvalid();
+    }
+
     // ============ Configuration Functions ============
 
+    /// @notice Sets the minimum delay for queued batches
+    /// @dev The admin can raise the delay directly, lowering it has to be queued as a call from the queue itself
+    /// @param newDelay The new minimum delay in seconds
+    function setMinDelay(uint256 newDelay) external {
+        if (msg.sender != address(this)) {
+            _checkRole(DEFAULT_ADMIN_ROLE);
+            if (newDelay < minDelay) revert DelayDecreaseNotQueued();
+        }
+        emit MinDelayChanged(minDelay, newDelay);
+        minDelay = newDelay;
+    }
+
     /// @notice Sets the maximum number of actions allowed per batch
     /// @param maxActions The new maximum number of actions
-    function setMaxActions(uint256 maxActions) external onlyOwner {
+    function setMaxActions(uint256 maxActions) external onlyRole(DEFAULT_ADMIN_ROLE) {
         batchConfig.maxActions = maxActions;
     }
 
     /// @notice Sets the maximum value allowed per action
     /// @param maxValue The new maximum value
-    function setMaxValue(uint256 maxValue) external onlyOwner {
+    function setMaxValue(uint256 maxValue) external onlyRole(DEFAULT_ADMIN_ROLE) {
         batchConfig.maxValue = maxValue;
     }
 
     /// @notice Adds a target address to the allowed list
     /// @param target The target address to allow
-    function allowTarget(address target) external onlyOwner {
+    function allowTarget(address target) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(target != address(0), "Invalid target address");
         batchConfig.allowedTargets[target] = true;
+        _allowedTargets.add(target);
     }
 
     /// @notice Removes a target address from the allowed list
     /// @param target The target address to disallow
-    function disallowTarget(address target) external onlyOwner {
+    function disallowTarget(address target) external onlyRole(DEFAULT_ADMIN_ROLE) {
         batchConfig.allowedTargets[target] = false;
+        _allowedTargets.remove(target);
+    }
+
+    /// @notice Allows a single function of a target, for targets not allowed as a whole
+    /// @param target The target contract address
+    /// @param selector The function selector, zero for calls with less than 4 bytes of data
+    /// @param maxValue Maximum ETH value allowed per call, NO_VALUE_CAP if uncapped
+    function allowSelector(address target, bytes4 selector, uint256 maxValue) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(target != address(0), "Invalid target address");
+        batchConfig.allowedSelectors[target][selector] = SelectorPolicy(true, maxValue);
+        _targetSelectors[target].add(bytes32(selector));
+        _selectorTargets.add(target);
+        emit SelectorAllowed(target, selector, maxValue);
+    }
+
+    /// @notice Disallows a single function of a target, a no-op if it is not allowed
+    /// @param target The target contract address
+    /// @param selector The function selector
+    function disallowSelector(address target, bytes4 selector) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        // Nothing to remove, no event for unchanged policies
+        if (!_targetSelectors[target].remove(bytes32(selector))) return;
+
+        delete batchConfig.allowedSelectors[target][selector];
+        if (_targetSelectors[target].length() == 0) _selectorTargets.remove(target);
+        emit SelectorDisallowed(target, selector);
     }
 
     /// @notice Disables target restrictions (allows all targets)
-    function disableTargetRestrictions() external onlyOwner {
+    function disableTargetRestrictions() external onlyRole(DEFAULT_ADMIN_ROLE) {
         batchConfig.allowedTargets[address(0)] = true;
     }
 
     /// @notice Enables target restrictions
-    function enableTargetRestrictions() external onlyOwner {
+    function enableTargetRestrictions() external onlyRole(DEFAULT_ADMIN_ROLE) {
         batchConfig.allowedTargets[address(0)] = false;
     }
 
     // ============ Emergency Functions ============
 
+    /// @notice Pauses queueing and executing batches, queued batches can still be cancelled
+    function pause() external onlyRole(PAUSER_ROLE) whenNotPaused {
+        paused = true;
+        emit Paused(msg.sender);
+    }
 
+    /// @notice Unpauses queueing and executing batches
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (!paused) revert ExpectedPause();
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
 
-    /// @notice Emergency withdrawal of all ETH from the contract
-    function emergencyWithdraw() external onlyOwner {
+    /// @notice Emergency withdrawal of all ETH from the contract to the calling admin
+    function emergencyWithdraw() external onlyRole(DEFAULT_ADMIN_ROLE) {
         uint256 balance = address(this).balance;
         require(balance > 0, "No balance to withdraw");
         
-        (bool success, ) = payable(owner()).call{value: balance}("");
+        (bool success, ) = payable(msg.sender).call{value: balance}("");
         require(success, "Withdrawal failed");
     }
 
-    /// @notice Emergency withdrawal of specific amount
+    /// @notice Emergency withdrawal of specific amount to the calling admin
     /// @param amount The amount to withdraw
-    function emergencyWithdrawAmount(uint256 amount) external onlyOwner {
+    function emergencyWithdrawAmount(uint256 amount) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(amount > 0, "Amount must be greater than 0");
         require(amount <= address(this).balance, "Insufficient balance");
         
-        (bool success, ) = payable(owner()).call{value: amount}("");
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
         require(success, "Withdrawal failed");
     }
 
@@ -302,6 +769,62 @@ contract Queue is Ownable {
         return true;
     }
 
+    /// @notice Checks if a call to a function of a target with the given value passes the allowlists
+    /// @param target The target address to check
+    /// @param selector The function selector, zero for calls with less than 4 bytes of data
+    /// @param value The ETH value of the call
+    /// @return True if the call is allowed
+    function isCallAllowed(address target, bytes4 selector, uint256 value) external view returns (bool) {
+        SelectorPolicy storage policy = batchConfig.allowedSelectors[target][selector];
+        if (policy.allowed && value > policy.maxValue) return false;
+        if (batchConfig.allowedTargets[address(0)] || batchConfig.allowedTargets[target]) return true;
+        return policy.allowed;
+    }
+
+    /// @notice Gets the targets allowed as a whole
+    /// @return The allowed target addresses
+    function getAllowedTargets() external view returns (address[] memory) {
+        return _allowedTargets.values();
+    }
+
+    /// @notice Gets the targets with at least one allowed function
+    /// @return The target addresses with a selector allowlist
+    function getSelectorTargets() external view returns (address[] memory) {
+        return _selectorTargets.values();
+    }
+
+    /// @notice Gets the allowed functions of a target
+    /// @param target The target contract address
+    /// @return selectors The allowed function selectors
+    /// @return maxValues The maximum ETH value per call of each selector, NO_VALUE_CAP if uncapped
+    function getAllowedSelectors(
+        address target
+    ) external view returns (bytes4[] memory selectors, uint256[] memory maxValues) {
+        EnumerableSet.Bytes32Set storage set = _targetSelectors[target];
+        selectors = new bytes4[](set.length());
+        maxValues = new uint256[](set.length());
+        for (uint256 i = 0; i < selectors.length; i++) {
+            selectors[i] = bytes4(set.at(i));
+            maxValues[i] = batchConfig.allowedSelectors[target][selectors[i]].maxValue;
+        }
+    }
+
+    /// @notice Gets a queued batch
+    /// @param batchId The batch identifier
+    /// @return actions The actions to execute, empty once executed or cancelled
+    /// @return allowFailureMap The failure map for the batch
+    /// @return eta The earliest execution timestamp
+    /// @return expiry The latest execution timestamp, zero if the batch does not expire
+    /// @return state The current state of the batch
+    function getQueuedBatch(uint256 batchId)
+        external
+        view
+        returns (Action[] memory actions, uint256 allowFailureMap, uint64 eta, uint64 expiry, BatchState state)
+    {
+        QueuedBatch storage batch = _queuedBatches[batchId];
+        return (batch.actions, batch.allowFailureMap, batch.eta, batch.expiry, batch.state);
+    }
+
     /// @notice Gets the current batch configuration
     /// @return maxActions Maximum number of actions allowed
     /// @return maxValue Maximum value allowed per action
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import {SafeERC20} from '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
+import {IBalancerVault, IFlashLoanRecipient} from '../balancer/IBalancerVault.sol';
+
+/**
+ * @title MockBalancerVault
+ * @notice Balancer V2 vault stand-in for flashloans, lends its own balances at a settable fee.
+ * @dev Like the vault, the recipient has to transfer amount and fee back before returning.
+ */
+contract MockBalancerVault is IBalancerVault {
+	using SafeERC20 for IERC20;
+
+	// fee in basis points of the loaned amount
+	uint256 public feeBps;
+
+	// misbehaving vault, passes no fees to the recipient
+	bool public omitFees;
+
+	function setFee(uint256 _feeBps) external {
+		feeBps = _feeBps;
+	}
+
+	function setOmitFees(bool _omitFees) external {
+		omitFees = _omitFees;
+	}
+
+	function flashLoan(IFlashLoanRecipient recipient, IERC20[] memory tokens, uint256[] memory amounts, bytes memory userData) external {
+		require(tokens.length == amounts.length, 'Input length mismatch');
+
+		uint256[] memory fees = new uint256[](tokens.length);
+		uint256[] memory balances = new uint256[](tokens.length);
+
+		for (uint256 i = 0; i < tokens.length; i++) {
+			require(i == 0 || address(tokens[i - 1]) < address(tokens[i]), 'Unsorted tokens');
+
+			fees[i] = (amounts[i] * feeBps) / 10_000;
+			balances[i] = tokens[i].balanceOf(address(this));
+			tokens[i].safeTransfer(address(recipient), amounts[i]);
+		}
+
+		recipient.receiveFlashLoan(tokens, amounts, omitFees ? new uint256[](0) : fees, userData);
+
+		for (uint256 i = 0; i < tokens.length; i++) {
+			require(tokens[i].balanceOf(address(this)) >= balances[i] + fees[i], 'Insufficient flashloan repayment');
+			emit FlashLoan(recipient, tokens[i], amounts[i], fees[i]);
+		}
+	}
+}
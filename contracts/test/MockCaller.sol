@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MockCaller
+ * @notice Forwards a call with value, has no receive function and rejects ether refunds.
+ */
+contract MockCaller {
+	function forward(address target, bytes calldata data) external payable returns (bytes memory) {
+		(bool success, bytes memory result) = target.call{value: msg.value}(data);
+		if (!success) {
+			assembly {
+				revert(add(result, 0x20), mload(result))
+			}
+		}
+		return result;
+	}
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IFlashloanHook} from '../flashloan/IFlashloanHook.sol';
+import {IFlashloanOrchestrator} from '../flashloan/IFlashloanOrchestrator.sol';
+
+/**
+ * @title MockContextHook
+ * @notice Flashloan hook reporting the execution context the orchestrator exposes to hooks.
+ * @dev Empty action data returns an empty result, any other data returns
+ *      abi.encode(uint256 actionIndex, address target, bytes data, uint256 amount) read from the orchestrator getters,
+ *      where amount is the first provided amount.
+ */
+contract MockContextHook is IFlashloanHook {
+	IFlashloanOrchestrator public immutable orchestrator;
+
+	constructor(address _orchestrator) {
+		orchestrator = IFlashloanOrchestrator(_orchestrator);
+	}
+
+	function onFlashloanHook(bytes calldata data) external payable returns (bytes memory) {
+		if (data.length == 0) return '';
+
+		uint256 index = orchestrator.currentActionIndex();
+		(address target, , bytes memory stored) = orchestrator.actionData(index);
+		return abi.encode(index, target, stored, orchestrator.amounts(0));
+	}
+}
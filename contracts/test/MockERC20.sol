@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from '@openzeppelin/contracts/token/ERC20/ERC20.sol';
+
+/**
+ * @title MockERC20
+ * @notice Freely mintable ERC20 with configurable decimals, used to stand in for ZCHF, USDC etc. in local tests.
+ * @dev Like Frankencoin, minters have an unlimited allowance on every account (e.g. the savings module).
+ */
+contract MockERC20 is ERC20 {
+	uint8 private immutable _decimals;
+
+	mapping(address => bool) public isMinter;
+
+	constructor(string memory _name, string memory _symbol, uint8 decimals_) ERC20(_name, _symbol) {
+		_decimals = decimals_;
+	}
+
+	function decimals() public view override returns (uint8) {
+		return _decimals;
+	}
+
+	function allowance(address owner, address spender) public view override returns (uint256) {
+		if (isMinter[spender]) return type(uint256).max;
+		return super.allowance(owner, spender);
+	}
+
+	function setMinter(address minter, bool enabled) external {
+		isMinter[minter] = enabled;
+	}
+
+	function mint(address to, uint256 amount) external {
+		_mint(to, amount);
+	}
+
+	function burn(address from, uint256 amount) external {
+		_burn(from, amount);
+	}
+}
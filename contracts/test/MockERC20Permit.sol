@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ECDSA} from '@openzeppelin/contracts/utils/cryptography/ECDSA.sol';
+import {MockERC20} from './MockERC20.sol';
+
+/**
+ * @title MockERC20Permit
+ * @notice MockERC20 with EIP-2612 permits, stands in for USDC (domain with name and version)
+ *         and ZCHF (ERC20PermitLight, domain with chain id and verifying contract only).
+ * @dev An empty version selects the ERC20PermitLight domain.
+ */
+contract MockERC20Permit is MockERC20 {
+	bytes32 private constant PERMIT_TYPEHASH =
+		keccak256('Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)');
+
+	string private version;
+
+	mapping(address => uint256) public nonces;
+
+	constructor(string memory _name, string memory _symbol, uint8 decimals_, string memory _version) MockERC20(_name, _symbol, decimals_) {
+		version = _version;
+	}
+
+	function DOMAIN_SEPARATOR() public view returns (bytes32) {
+		if (bytes(version).length == 0) {
+			return keccak256(abi.encode(keccak256('EIP712Domain(uint256 chainId,address verifyingContract)'), block.chainid, address(this)));
+		}
+
+		return
+			keccak256(
+				abi.encode(
+					keccak256('EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)'),
+					keccak256(bytes(name())),
+					keccak256(bytes(version)),
+					block.chainid,
+					address(this)
+				)
+			);
+	}
+
+	function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external {
+		require(block.timestamp <= deadline, 'Permit expired');
+
+		bytes32 structHash = keccak256(abi.encode(PERMIT_TYPEHASH, owner, spender, value, nonces[owner]++, deadline));
+		bytes32 digest = keccak256(abi.encodePacked('\x19\x01', DOMAIN_SEPARATOR(), structHash));
+		require(ECDSA.recover(digest, v, r, s) == owner, 'Invalid signature');
+
+		_approve(owner, spender, value);
+	}
+}
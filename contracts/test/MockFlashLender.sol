@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import {SafeERC20} from '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
+import {IERC3156FlashBorrower} from '@openzeppelin/contracts/interfaces/IERC3156FlashBorrower.sol';
+import {IERC3156FlashLender} from '@openzeppelin/contracts/interfaces/IERC3156FlashLender.sol';
+
+/**
+ * @title MockFlashLender
+ * @notice ERC-3156 lender stand-in, lends its own balances at a settable fee.
+ * @dev Pulls amount and fee back from the receiver after the callback.
+ */
+contract MockFlashLender is IERC3156FlashLender {
+	using SafeERC20 for IERC20;
+
+	bytes32 private constant CALLBACK_SUCCESS = keccak256('ERC3156FlashBorrower.onFlashLoan');
+
+	// fee in basis points of the loaned amount
+	uint256 public feeBps;
+
+	event FlashLoan(address indexed receiver, address indexed token, uint256 amount, uint256 fee);
+
+	function setFee(uint256 _feeBps) external {
+		feeBps = _feeBps;
+	}
+
+	function maxFlashLoan(address token) public view returns (uint256) {
+		return IERC20(token).balanceOf(address(this));
+	}
+
+	function flashFee(address, uint256 amount) public view returns (uint256) {
+		return (amount * feeBps) / 10_000;
+	}
+
+	function flashLoan(IERC3156FlashBorrower receiver, address token, uint256 amount, bytes calldata data) external returns (bool) {
+		require(amount <= maxFlashLoan(token), 'Exceeds max flashloan');
+		uint256 fee = flashFee(token, amount);
+
+		IERC20(token).safeTransfer(address(receiver), amount);
+		require(receiver.onFlashLoan(msg.sender, token, amount, fee, data) == CALLBACK_SUCCESS, 'Invalid callback');
+		IERC20(token).safeTransferFrom(address(receiver), address(this), amount + fee);
+
+		emit FlashLoan(address(receiver), token, amount, fee);
+		return true;
+	}
+}
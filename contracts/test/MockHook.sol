@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IFlashloanHook} from '../flashloan/IFlashloanHook.sol';
+import {IFlashloanOrchestrator} from '../flashloan/IFlashloanOrchestrator.sol';
+import {MockERC20} from './MockERC20.sol';
+
+/**
+ * @title MockHook
+ * @notice Flashloan hook converting a token of the orchestrator into another at a fixed rate.
+ * @dev Action data is abi.encode(address tokenIn, address tokenOut, uint256 amountIn, uint256 rate),
+ *      the result is abi.encode(uint256 amountIn, uint256 amountOut). Tokens have to be MockERC20.
+ */
+contract MockHook is IFlashloanHook {
+	IFlashloanOrchestrator public immutable orchestrator;
+
+	event Converted(address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut);
+
+	constructor(address _orchestrator) {
+		orchestrator = IFlashloanOrchestrator(_orchestrator);
+	}
+
+	function onFlashloanHook(bytes calldata data) external payable returns (bytes memory) {
+		(address tokenIn, address tokenOut, uint256 amountIn, uint256 rate) = abi.decode(data, (address, address, uint256, uint256));
+		uint256 amountOut = (amountIn * rate) / 1 ether;
+
+		MockERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+		MockERC20(tokenIn).burn(address(this), amountIn);
+		MockERC20(tokenOut).mint(msg.sender, amountOut);
+
+		emit Converted(tokenIn, tokenOut, amountIn, amountOut);
+		return abi.encode(amountIn, amountOut);
+	}
+}
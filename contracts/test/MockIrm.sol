@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IIrm} from '../morpho/IIrm.sol';
+import {MarketParams, Market} from '../morpho/IMorpho.sol';
+
+/**
+ * @title MockIrm
+ * @notice Morpho interest rate model with a fixed, settable borrow rate per second (WAD).
+ */
+contract MockIrm is IIrm {
+	uint256 public ratePerSecond;
+
+	event RateChanged(uint256 ratePerSecond);
+
+	constructor(uint256 _ratePerSecond) {
+		ratePerSecond = _ratePerSecond;
+	}
+
+	function setRate(uint256 _ratePerSecond) external {
+		ratePerSecond = _ratePerSecond;
+		emit RateChanged(_ratePerSecond);
+	}
+
+	function borrowRate(MarketParams memory, Market memory) external view returns (uint256) {
+		return ratePerSecond;
+	}
+
+	function borrowRateView(MarketParams memory, Market memory) external view returns (uint256) {
+		return ratePerSecond;
+	}
+}
@@ -0,0 +1,272 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import {SafeERC20} from '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
+import {SafeCast} from '@openzeppelin/contracts/utils/math/SafeCast.sol';
+
+import {MarketParams, Id, Position, Market} from '../morpho/IMorpho.sol';
+import {IIrm} from '../morpho/IIrm.sol';
+import {IOracle} from '../morpho/IOracle.sol';
+import {IMorphoFlashLoanCallback, IMorphoRepayCallback} from '../morpho/IMorphoCallbacks.sol';
+import {IMorphoSupplyCallback, IMorphoSupplyCollateralCallback} from '../morpho/IMorphoCallbacks.sol';
+import {MathLib} from '../morpho/MathLib.sol';
+import {SharesMathLib} from '../morpho/SharesMathLib.sol';
+
+/**
+ * @title MockMorpho
+ * @notice Minimal Morpho Blue stand-in for local tests. ABI compatible with `IMorpho` for markets,
+ *         positions, supply/borrow/repay, collateral, authorizations and flashloans.
+ *
+ * @dev Share math, rounding, interest accrual and the health check follow Morpho Blue, revert reasons
+ *      use the same strings. Not covered: fees, liquidations, signatures and IRM/LLTV governance.
+ *      An `irm` of address(0) disables interest for a market.
+ */
+contract MockMorpho {
+	using MathLib for uint256;
+	using SharesMathLib for uint256;
+	using SafeCast for uint256;
+	using SafeERC20 for IERC20;
+
+	uint256 public constant ORACLE_PRICE_SCALE = 1e36;
+
+	mapping(Id => mapping(address => Position)) public position;
+	mapping(Id => Market) public market;
+	mapping(Id => MarketParams) public idToMarketParams;
+	mapping(address => mapping(address => bool)) public isAuthorized;
+
+	event CreateMarket(Id indexed id, MarketParams marketParams);
+	event Supply(Id indexed id, address indexed caller, address indexed onBehalf, uint256 assets, uint256 shares);
+	event Withdraw(Id indexed id, address caller, address indexed onBehalf, address indexed receiver, uint256 assets, uint256 shares);
+	event Borrow(Id indexed id, address caller, address indexed onBehalf, address indexed receiver, uint256 assets, uint256 shares);
+	event Repay(Id indexed id, address indexed caller, address indexed onBehalf, uint256 assets, uint256 shares);
+	event SupplyCollateral(Id indexed id, address indexed caller, address indexed onBehalf, uint256 assets);
+	event WithdrawCollateral(Id indexed id, address caller, address indexed onBehalf, address indexed receiver, uint256 assets);
+	event FlashLoan(address indexed caller, address indexed token, uint256 assets);
+	event SetAuthorization(address indexed caller, address indexed authorizer, address indexed authorized, bool newIsAuthorized);
+	event AccrueInterest(Id indexed id, uint256 prevBorrowRate, uint256 interest, uint256 feeShares);
+
+	// ---------------------------------------------------------------------------------------
+
+	function getMarketId(MarketParams memory marketParams) public pure returns (Id) {
+		return Id.wrap(keccak256(abi.encode(marketParams)));
+	}
+
+	function createMarket(MarketParams memory marketParams) external {
+		Id id = getMarketId(marketParams);
+		require(market[id].lastUpdate == 0, 'market already created');
+
+		market[id].lastUpdate = uint128(block.timestamp);
+		idToMarketParams[id] = marketParams;
+
+		emit CreateMarket(id, marketParams);
+	}
+
+	function setAuthorization(address authorized, bool newIsAuthorized) external {
+		isAuthorized[msg.sender][authorized] = newIsAuthorized;
+		emit SetAuthorization(msg.sender, msg.sender, authorized, newIsAuthorized);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function supply(
+		MarketParams memory marketParams,
+		uint256 assets,
+		uint256 shares,
+		address onBehalf,
+		bytes calldata data
+	) external returns (uint256, uint256) {
+		Id id = _prepare(marketParams, assets, shares, onBehalf);
+
+		if (assets > 0) shares = assets.toSharesDown(market[id].totalSupplyAssets, market[id].totalSupplyShares);
+		else assets = shares.toAssetsUp(market[id].totalSupplyAssets, market[id].totalSupplyShares);
+
+		position[id][onBehalf].supplyShares += shares;
+		market[id].totalSupplyShares += shares.toUint128();
+		market[id].totalSupplyAssets += assets.toUint128();
+
+		emit Supply(id, msg.sender, onBehalf, assets, shares);
+
+		if (data.length > 0) IMorphoSupplyCallback(msg.sender).onMorphoSupply(assets, data);
+		IERC20(marketParams.loanToken).safeTransferFrom(msg.sender, address(this), assets);
+
+		return (assets, shares);
+	}
+
+	function withdraw(
+		MarketParams memory marketParams,
+		uint256 assets,
+		uint256 shares,
+		address onBehalf,
+		address receiver
+	) external returns (uint256, uint256) {
+		Id id = _prepare(marketParams, assets, shares, receiver);
+		require(_isSenderAuthorized(onBehalf), 'unauthorized');
+
+		if (assets > 0) shares = assets.toSharesUp(market[id].totalSupplyAssets, market[id].totalSupplyShares);
+		else assets = shares.toAssetsDown(market[id].totalSupplyAssets, market[id].totalSupplyShares);
+
+		position[id][onBehalf].supplyShares -= shares;
+		market[id].totalSupplyShares -= shares.toUint128();
+		market[id].totalSupplyAssets -= assets.toUint128();
+
+		require(market[id].totalBorrowAssets <= market[id].totalSupplyAssets, 'insufficient liquidity');
+
+		emit Withdraw(id, msg.sender, onBehalf, receiver, assets, shares);
+
+		IERC20(marketParams.loanToken).safeTransfer(receiver, assets);
+
+		return (assets, shares);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function borrow(
+		MarketParams memory marketParams,
+		uint256 assets,
+		uint256 shares,
+		address onBehalf,
+		address receiver
+	) external returns (uint256, uint256) {
+		Id id = _prepare(marketParams, assets, shares, receiver);
+		require(_isSenderAuthorized(onBehalf), 'unauthorized');
+
+		if (assets > 0) shares = assets.toSharesUp(market[id].totalBorrowAssets, market[id].totalBorrowShares);
+		else assets = shares.toAssetsDown(market[id].totalBorrowAssets, market[id].totalBorrowShares);
+
+		position[id][onBehalf].borrowShares += shares.toUint128();
+		market[id].totalBorrowShares += shares.toUint128();
+		market[id].totalBorrowAssets += assets.toUint128();
+
+		require(_isHealthy(marketParams, id, onBehalf), 'insufficient collateral');
+		require(market[id].totalBorrowAssets <= market[id].totalSupplyAssets, 'insufficient liquidity');
+
+		emit Borrow(id, msg.sender, onBehalf, receiver, assets, shares);
+
+		IERC20(marketParams.loanToken).safeTransfer(receiver, assets);
+
+		return (assets, shares);
+	}
+
+	function repay(
+		MarketParams memory marketParams,
+		uint256 assets,
+		uint256 shares,
+		address onBehalf,
+		bytes calldata data
+	) external returns (uint256, uint256) {
+		Id id = _prepare(marketParams, assets, shares, onBehalf);
+
+		if (assets > 0) shares = assets.toSharesDown(market[id].totalBorrowAssets, market[id].totalBorrowShares);
+		else assets = shares.toAssetsUp(market[id].totalBorrowAssets, market[id].totalBorrowShares);
+
+		position[id][onBehalf].borrowShares -= shares.toUint128();
+		market[id].totalBorrowShares -= shares.toUint128();
+		market[id].totalBorrowAssets = market[id].totalBorrowAssets > assets ? market[id].totalBorrowAssets - assets.toUint128() : 0;
+
+		emit Repay(id, msg.sender, onBehalf, assets, shares);
+
+		if (data.length > 0) IMorphoRepayCallback(msg.sender).onMorphoRepay(assets, data);
+		IERC20(marketParams.loanToken).safeTransferFrom(msg.sender, address(this), assets);
+
+		return (assets, shares);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function supplyCollateral(MarketParams memory marketParams, uint256 assets, address onBehalf, bytes calldata data) external {
+		Id id = getMarketId(marketParams);
+		require(market[id].lastUpdate != 0, 'market not created');
+		require(assets != 0, 'zero assets');
+		require(onBehalf != address(0), 'zero address');
+
+		// no interest accrual, the health of the position can only improve
+		position[id][onBehalf].collateral += assets.toUint128();
+
+		emit SupplyCollateral(id, msg.sender, onBehalf, assets);
+
+		if (data.length > 0) IMorphoSupplyCollateralCallback(msg.sender).onMorphoSupplyCollateral(assets, data);
+		IERC20(marketParams.collateralToken).safeTransferFrom(msg.sender, address(this), assets);
+	}
+
+	function withdrawCollateral(MarketParams memory marketParams, uint256 assets, address onBehalf, address receiver) external {
+		Id id = getMarketId(marketParams);
+		require(market[id].lastUpdate != 0, 'market not created');
+		require(assets != 0, 'zero assets');
+		require(receiver != address(0), 'zero address');
+		require(_isSenderAuthorized(onBehalf), 'unauthorized');
+
+		_accrueInterest(marketParams, id);
+
+		position[id][onBehalf].collateral -= assets.toUint128();
+
+		require(_isHealthy(marketParams, id, onBehalf), 'insufficient collateral');
+
+		emit WithdrawCollateral(id, msg.sender, onBehalf, receiver, assets);
+
+		IERC20(marketParams.collateralToken).safeTransfer(receiver, assets);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	/// @notice Lends any token held by this contract, including supplied collateral
+	function flashLoan(address token, uint256 assets, bytes calldata data) external {
+		require(assets != 0, 'zero assets');
+
+		emit FlashLoan(msg.sender, token, assets);
+
+		IERC20(token).safeTransfer(msg.sender, assets);
+		IMorphoFlashLoanCallback(msg.sender).onMorphoFlashLoan(assets, data);
+		IERC20(token).safeTransferFrom(msg.sender, address(this), assets);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function accrueInterest(MarketParams memory marketParams) external {
+		Id id = getMarketId(marketParams);
+		require(market[id].lastUpdate != 0, 'market not created');
+		_accrueInterest(marketParams, id);
+	}
+
+	function _accrueInterest(MarketParams memory marketParams, Id id) internal {
+		uint256 elapsed = block.timestamp - market[id].lastUpdate;
+		if (elapsed == 0) return;
+
+		if (marketParams.irm != address(0)) {
+			uint256 borrowRate = IIrm(marketParams.irm).borrowRate(marketParams, market[id]);
+			uint256 interest = uint256(market[id].totalBorrowAssets).wMulDown(borrowRate.wTaylorCompounded(elapsed));
+			market[id].totalBorrowAssets += interest.toUint128();
+			market[id].totalSupplyAssets += interest.toUint128();
+
+			emit AccrueInterest(id, borrowRate, interest, 0);
+		}
+
+		market[id].lastUpdate = uint128(block.timestamp);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function _prepare(MarketParams memory marketParams, uint256 assets, uint256 shares, address account) internal returns (Id id) {
+		id = getMarketId(marketParams);
+		require(market[id].lastUpdate != 0, 'market not created');
+		require((assets == 0) != (shares == 0), 'inconsistent input');
+		require(account != address(0), 'zero address');
+
+		_accrueInterest(marketParams, id);
+	}
+
+	function _isSenderAuthorized(address onBehalf) internal view returns (bool) {
+		return msg.sender == onBehalf || isAuthorized[onBehalf][msg.sender];
+	}
+
+	function _isHealthy(MarketParams memory marketParams, Id id, address borrower) internal view returns (bool) {
+		if (position[id][borrower].borrowShares == 0) return true;
+
+		uint256 borrowed = uint256(position[id][borrower].borrowShares).toAssetsUp(market[id].totalBorrowAssets, market[id].totalBorrowShares);
+		uint256 maxBorrow = uint256(position[id][borrower].collateral)
+			.mulDivDown(IOracle(marketParams.oracle).price(), ORACLE_PRICE_SCALE)
+			.wMulDown(marketParams.lltv);
+
+		return maxBorrow >= borrowed;
+	}
+}
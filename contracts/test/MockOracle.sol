@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IOracle} from '../morpho/IOracle.sol';
+
+/**
+ * @title MockOracle
+ * @notice Morpho oracle with a settable price, scaled by 1e36 and adjusted by the token decimals like Morpho expects.
+ */
+contract MockOracle is IOracle {
+	uint256 public price;
+
+	event PriceChanged(uint256 price);
+
+	constructor(uint256 _price) {
+		price = _price;
+	}
+
+	function setPrice(uint256 _price) external {
+		price = _price;
+		emit PriceChanged(_price);
+	}
+}
@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import {SafeERC20} from '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
+import {ECDSA} from '@openzeppelin/contracts/utils/cryptography/ECDSA.sol';
+import {IPermit2} from '../permit/IPermit2.sol';
+
+/**
+ * @title MockPermit2
+ * @notice Permit2 stand-in for signature transfers, verifies the same EIP-712 messages and unordered nonces.
+ * @dev Placed at the canonical Permit2 address with hardhat_setCode, so the domain is computed on every call.
+ */
+contract MockPermit2 is IPermit2 {
+	using SafeERC20 for IERC20;
+
+	bytes32 private constant TOKEN_PERMISSIONS_TYPEHASH = keccak256('TokenPermissions(address token,uint256 amount)');
+	bytes32 private constant PERMIT_TRANSFER_FROM_TYPEHASH =
+		keccak256(
+			'PermitTransferFrom(TokenPermissions permitted,address spender,uint256 nonce,uint256 deadline)TokenPermissions(address token,uint256 amount)'
+		);
+	bytes32 private constant PERMIT_BATCH_TRANSFER_FROM_TYPEHASH =
+		keccak256(
+			'PermitBatchTransferFrom(TokenPermissions[] permitted,address spender,uint256 nonce,uint256 deadline)TokenPermissions(address token,uint256 amount)'
+		);
+
+	mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+	error SignatureExpired(uint256 deadline);
+	error InvalidNonce();
+	error InvalidAmount(uint256 maxAmount);
+	error InvalidSigner();
+	error LengthMismatch();
+
+	function DOMAIN_SEPARATOR() public view returns (bytes32) {
+		return
+			keccak256(
+				abi.encode(
+					keccak256('EIP712Domain(string name,uint256 chainId,address verifyingContract)'),
+					keccak256('Permit2'),
+					block.chainid,
+					address(this)
+				)
+			);
+	}
+
+	function permitTransferFrom(
+		PermitTransferFrom memory permit,
+		SignatureTransferDetails calldata transferDetails,
+		address owner,
+		bytes calldata signature
+	) external {
+		if (transferDetails.requestedAmount > permit.permitted.amount) revert InvalidAmount(permit.permitted.amount);
+
+		bytes32 structHash = keccak256(
+			abi.encode(PERMIT_TRANSFER_FROM_TYPEHASH, _hashPermissions(permit.permitted), msg.sender, permit.nonce, permit.deadline)
+		);
+		_verify(owner, permit.nonce, permit.deadline, structHash, signature);
+
+		IERC20(permit.permitted.token).safeTransferFrom(owner, transferDetails.to, transferDetails.requestedAmount);
+	}
+
+	function permitTransferFrom(
+		PermitBatchTransferFrom memory permit,
+		SignatureTransferDetails[] calldata transferDetails,
+		address owner,
+		bytes calldata signature
+	) external {
+		if (permit.permitted.length != transferDetails.length) revert LengthMismatch();
+
+		bytes32[] memory hashes = new bytes32[](permit.permitted.length);
+		for (uint256 i = 0; i < permit.permitted.length; i++) {
+			hashes[i] = _hashPermissions(permit.permitted[i]);
+		}
+
+		bytes32 structHash = keccak256(
+			abi.encode(PERMIT_BATCH_TRANSFER_FROM_TYPEHASH, keccak256(abi.encodePacked(hashes)), msg.sender, permit.nonce, permit.deadline)
+		);
+		_verify(owner, permit.nonce, permit.deadline, structHash, signature);
+
+		for (uint256 i = 0; i < permit.permitted.length; i++) {
+			uint256 requestedAmount = transferDetails[i].requestedAmount;
+			if (requestedAmount > permit.permitted[i].amount) revert InvalidAmount(permit.permitted[i].amount);
+
+			if (requestedAmount != 0) {
+				IERC20(permit.permitted[i].token).safeTransferFrom(owner, transferDetails[i].to, requestedAmount);
+			}
+		}
+	}
+
+	function _hashPermissions(TokenPermissions memory permitted) internal pure returns (bytes32) {
+		return keccak256(abi.encode(TOKEN_PERMISSIONS_TYPEHASH, permitted.token, permitted.amount));
+	}
+
+	function _verify(address owner, uint256 nonce, uint256 deadline, bytes32 structHash, bytes calldata signature) internal {
+		if (block.timestamp > deadline) revert SignatureExpired(deadline);
+
+		// unordered nonces, the first 248 bits select the word and the last 8 bits the bit
+		uint256 bit = 1 << (nonce & 0xff);
+		uint256 flipped = nonceBitmap[owner][nonce >> 8] ^= bit;
+		if (flipped & bit == 0) revert InvalidNonce();
+
+		bytes32 digest = keccak256(abi.encodePacked('\x19\x01', DOMAIN_SEPARATOR(), structHash));
+		if (ECDSA.recover(digest, signature) != owner) revert InvalidSigner();
+	}
+}
@@ -0,0 +1,188 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ISavingsZCHF} from '../vault/helpers/ISavingsZCHF.sol';
+import {MockERC20} from './MockERC20.sol';
+
+/**
+ * @title MockSavingsZCHF
+ * @notice Local stand-in for the Frankencoin savings module, following its tick based interest accounting.
+ *
+ * @dev Ticks grow by `currentRatePPM` per second. New deposits shift the account ticks into the future
+ *      by up to `INTEREST_DELAY` (weighted by the deposited amount), during which no interest accrues.
+ *      Interest and referral fees are minted on refresh, since the mock has no reserve to pay them from.
+ */
+contract MockSavingsZCHF is ISavingsZCHF {
+	uint64 public constant INTEREST_DELAY = 3 days;
+	uint32 public constant MAX_REFERRAL_FEE_PPM = 250_000;
+
+	MockERC20 private immutable coin;
+
+	uint24 public currentRatePPM;
+	uint64 private anchorTicks;
+	uint40 private anchorTime;
+
+	mapping(address => Account) private accounts;
+
+	event RateChanged(uint24 ratePPM);
+
+	constructor(MockERC20 _zchf, uint24 _ratePPM) {
+		coin = _zchf;
+		currentRatePPM = _ratePPM;
+		anchorTime = uint40(block.timestamp);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function zchf() external view returns (address) {
+		return address(coin);
+	}
+
+	function savings(address account) external view returns (Account memory) {
+		return accounts[account];
+	}
+
+	/// @notice Changes the rate, ticks accrued so far are kept
+	function setRate(uint24 ratePPM) external {
+		anchorTicks = currentTicks();
+		anchorTime = uint40(block.timestamp);
+		currentRatePPM = ratePPM;
+		emit RateChanged(ratePPM);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function currentTicks() public view returns (uint64) {
+		return ticks(block.timestamp);
+	}
+
+	function ticks(uint256 timestamp) public view returns (uint64) {
+		return anchorTicks + uint64(timestamp - anchorTime) * currentRatePPM;
+	}
+
+	function accruedInterest(address accountOwner) public view returns (uint192) {
+		return accruedInterest(accountOwner, block.timestamp);
+	}
+
+	function accruedInterest(address accountOwner, uint256 timestamp) public view returns (uint192) {
+		return calculateInterest(accounts[accountOwner], ticks(timestamp));
+	}
+
+	function calculateInterest(Account memory account, uint64 _ticks) public pure returns (uint192) {
+		if (_ticks <= account.ticks) return 0;
+		return uint192((uint256(account.saved) * (_ticks - account.ticks)) / 1_000_000 / 365 days);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function refresh(address accountOwner) internal returns (Account storage) {
+		Account storage account = accounts[accountOwner];
+		uint64 _ticks = currentTicks();
+
+		if (_ticks > account.ticks) {
+			uint192 interest = calculateInterest(account, _ticks);
+
+			if (interest > 0) {
+				uint192 referrerFee = 0;
+				if (account.referrer != address(0)) {
+					referrerFee = uint192((uint256(interest) * account.referralFeePPM) / 1_000_000);
+					coin.mint(account.referrer, referrerFee);
+				}
+
+				coin.mint(address(this), interest - referrerFee);
+				account.saved += interest - referrerFee;
+				emit InterestCollected(accountOwner, interest, referrerFee);
+			}
+
+			account.ticks = _ticks;
+		}
+
+		return account;
+	}
+
+	function refreshMyBalance() external returns (uint192) {
+		return refresh(msg.sender).saved;
+	}
+
+	function refreshBalance(address owner) external returns (uint192) {
+		return refresh(owner).saved;
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function save(uint192 amount) public {
+		save(msg.sender, amount);
+	}
+
+	function save(address owner, uint192 amount) public {
+		if (currentRatePPM == 0) revert ModuleDisabled();
+
+		Account storage account = refresh(owner);
+		if (amount == 0) return;
+
+		coin.transferFrom(msg.sender, address(this), amount);
+
+		// weighted shift of the account ticks, a fresh deposit waits the full INTEREST_DELAY
+		uint64 _ticks = currentTicks();
+		uint256 weighted = (uint256(account.saved) * (account.ticks - _ticks) + uint256(amount) * currentRatePPM * INTEREST_DELAY) /
+			(account.saved + amount);
+
+		account.saved += amount;
+		account.ticks = _ticks + uint64(weighted);
+		emit Saved(owner, amount);
+	}
+
+	function save(uint192 amount, address referrer, uint24 referralFeePPM) external {
+		_setReferrer(msg.sender, referrer, referralFeePPM);
+		save(msg.sender, amount);
+	}
+
+	function withdraw(address target, uint192 amount) public returns (uint256) {
+		Account storage account = refresh(msg.sender);
+
+		if (amount >= account.saved) {
+			amount = account.saved;
+			delete accounts[msg.sender];
+		} else {
+			account.saved -= amount;
+		}
+
+		coin.transfer(target, amount);
+		emit Withdrawn(msg.sender, amount);
+		return amount;
+	}
+
+	function withdraw(uint192 amount, address referrer, uint24 referralFeePPM) external {
+		_setReferrer(msg.sender, referrer, referralFeePPM);
+		withdraw(msg.sender, amount);
+	}
+
+	function adjust(uint192 targetAmount) public {
+		uint192 balance = refresh(msg.sender).saved;
+		if (balance < targetAmount) {
+			save(msg.sender, targetAmount - balance);
+		} else if (balance > targetAmount) {
+			withdraw(msg.sender, balance - targetAmount);
+		}
+	}
+
+	function adjust(uint192 targetAmount, address referrer, uint24 referralFeePPM) external {
+		_setReferrer(msg.sender, referrer, referralFeePPM);
+		adjust(targetAmount);
+	}
+
+	function dropReferrer() external {
+		_setReferrer(msg.sender, address(0), 0);
+	}
+
+	// ---------------------------------------------------------------------------------------
+
+	function _setReferrer(address owner, address referrer, uint24 referralFeePPM) internal {
+		if (referralFeePPM > MAX_REFERRAL_FEE_PPM) revert ReferralFeeTooHigh(referralFeePPM);
+
+		// interest up to now is settled with the previous referrer
+		Account storage account = refresh(owner);
+		account.referrer = referrer;
+		account.referralFeePPM = referralFeePPM;
+	}
+}
@@ -0,0 +1,580 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Math} from '@openzeppelin/contracts/utils/math/Math.sol';
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import {SafeERC20} from '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
+import {ReentrancyGuard} from '@openzeppelin/contracts/utils/ReentrancyGuard.sol';
+import {IERC3156FlashBorrower} from '@openzeppelin/contracts/interfaces/IERC3156FlashBorrower.sol';
+import {IERC3156FlashLender} from '@openzeppelin/contracts/interfaces/IERC3156FlashLender.sol';
+
+import {IMorpho, MarketParams, Id, Position, Market} from '../morpho/IMorpho.sol';
+import {SharesMathLib} from '../morpho/SharesMathLib.sol';
+import {IMorphoFlashLoanCallback} from '../morpho/IMorphoCallbacks.sol';
+import {IBalancerVault, IFlashLoanRecipient} from '../balancer/IBalancerVault.sol';
+import {IWETH9} from '../weth/IWETH9.sol';
+import {Action, Reference, Flashloan, FlashloanProvider, SimulationReport} from '../flashloan/IFlashloanOrchestrator.sol';
+import {IFlashloanHook} from '../flashloan/IFlashloanHook.sol';
+import {IFlashloanHookRegistry} from '../flashloan/IFlashloanHookRegistry.sol';
+import {ActionReferenceLib} from '../flashloan/ActionReferenceLib.sol';
+
+/// @title MockStorageOrchestrator
+/// @notice FlashloanOrchestrator with the storage-backed execution context it used before the context was carried
+/// through the flashloan callbacks, deployed by the gas comparison test only
+/// @dev Copy of the former implementation, errors and events are declared here instead of inherited from
+/// IFlashloanOrchestrator, which has gained entry points since.
+contract MockStorageOrchestrator is ReentrancyGuard, IMorphoFlashLoanCallback, IFlashLoanRecipient, IERC3156FlashBorrower {
+	using Math for uint256;
+	using SharesMathLib for uint256;
+	using SafeERC20 for IERC20;
+
+	event Executed(address indexed sender, address target);
+
+	error NotMorpho();
+	error InvalidInput();
+	error InvalidAddress();
+	error InvalidRefund();
+	error ArrayLengthMismatch();
+	error NoActionsProvided();
+	error RecursiveCallNotAllowed();
+	error UnsupportedFunction();
+	error HookNotAllowed(address hook);
+	error InvalidLender(address caller);
+	error UnexpectedFlashloan();
+	error SimulationResult(SimulationReport report);
+
+	/// @notice The Morpho protocol contract used for flashloans
+	IMorpho private immutable morpho;
+
+	/// @notice Allowlist of hooks, consulted before every hook call
+	IFlashloanHookRegistry public immutable registry;
+
+	/// @notice Wrapped native token for executeNative
+	IWETH9 public immutable weth;
+
+	/// @notice Return value of a successful ERC-3156 callback
+	bytes32 private constant ERC3156_CALLBACK_SUCCESS = keccak256('ERC3156FlashBorrower.onFlashLoan');
+
+	// ============ State Variables ============
+
+	/// @notice Address of the user who initiated the current execution
+	/// @dev Reset after each execution for security
+	address public sender;
+
+	/// @notice Array of token addresses provided by the user
+	address[] public tokens;
+
+	/// @notice Array of token amounts provided by the user
+	uint256[] public amounts;
+
+	/// @notice Token used for flashloan
+	address public flashToken;
+
+	/// @notice Amount borrowed via flashloan
+	uint256 public flashAmount;
+
+	/// @notice Provider of the flashloans
+	FlashloanProvider public provider;
+
+	/// @notice Lender of the flashloans, Morpho for the Morpho provider
+	address public lender;
+
+	/// @notice Tokens borrowed via flashloan
+	address[] public flashTokens;
+
+	/// @notice Amounts borrowed via flashloan
+	uint256[] public flashAmounts;
+
+	/// @notice Fees charged by the lender, set by the flashloan callbacks
+	uint256[] public flashFees;
+
+	/// @notice Flashloan callbacks still expected in the current execution
+	uint256 private pendingFlashloans;
+
+	/// @notice Set by simulate, reports reverting actions instead of bubbling their error
+	bool private simulating;
+
+	/// @notice Set by executeNative, wraps the sent ETH before the flashloans
+	bool private wrapNative;
+
+	/// @notice Set by executeNative, unwraps the remaining WETH after the flashloans
+	bool private unwrapNative;
+
+	/// @notice Current action being executed (for error tracking)
+	uint8 public actionIndex;
+
+	/// @notice Array of actions to execute during flashloan
+	Action[] public actionData;
+
+	/// @notice Results from executed actions
+	bytes[] public actionResult;
+
+	/// @notice Results of prior actions patched into the data of later actions
+	Reference[] public references;
+
+	/// @notice Initializes the FlashloanOrchestrator with Morpho protocol, the hook registry and WETH
+	/// @param _morpho Address of the Morpho protocol contract
+	/// @param _registry Address of the hook registry
+	/// @param _weth Address of the wrapped native token
+	/// @dev Validates that _morpho, _registry and _weth are not zero address for security
+	constructor(address _morpho, address _registry, address _weth) {
+		if (_morpho == address(0) || _registry == address(0) || _weth == address(0)) revert InvalidAddress();
+		morpho = IMorpho(_morpho);
+		registry = IFlashloanHookRegistry(_registry);
+		weth = IWETH9(_weth);
+	}
+
+	// ============ External Functions ============
+
+	/// @dev Validates inputs, transfers user tokens, executes flashloan, and sweeps remaining tokens
+	function execute(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		address _flashToken,
+		uint256 _flashAmount,
+		Action[] calldata _actionData
+	) external payable nonReentrant returns (bytes[] memory) {
+		return _execute(_tokens, _amounts, _morphoFlashloan(_flashToken, _flashAmount), _actionData, new Reference[](0));
+	}
+
+	/// @dev References are validated when their target action runs
+	function executeComposed(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		address _flashToken,
+		uint256 _flashAmount,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable nonReentrant returns (bytes[] memory) {
+		return _execute(_tokens, _amounts, _morphoFlashloan(_flashToken, _flashAmount), _actionData, _references);
+	}
+
+	/// @dev The lender is validated by the flashloan callbacks
+	function executeMulti(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable nonReentrant returns (bytes[] memory) {
+		return _execute(_tokens, _amounts, _flashloan, _actionData, _references);
+	}
+
+	/// @dev Flags are stored for the execution and cleared afterwards
+	function executeNative(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references,
+		bool _wrap,
+		bool _unwrap
+	) external payable nonReentrant returns (bytes[] memory) {
+		wrapNative = _wrap;
+		unwrapNative = _unwrap;
+		return _execute(_tokens, _amounts, _flashloan, _actionData, _references);
+	}
+
+	/// @dev Always reverts, state changes and transfers are rolled back
+	function simulate(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan calldata _flashloan,
+		Action[] calldata _actionData,
+		Reference[] calldata _references
+	) external payable nonReentrant {
+		simulating = true;
+
+		// Sender balances before the execution
+		address[] memory deltaTokens = _simulationTokens(_tokens, _flashloan.tokens);
+		int256[] memory deltas = new int256[](deltaTokens.length);
+		for (uint256 i = 0; i < deltaTokens.length; i++) {
+			deltas[i] = -int256(IERC20(deltaTokens[i]).balanceOf(msg.sender));
+		}
+
+		bytes[] memory results = _execute(_tokens, _amounts, _flashloan, _actionData, _references);
+
+		for (uint256 i = 0; i < deltaTokens.length; i++) {
+			deltas[i] += int256(IERC20(deltaTokens[i]).balanceOf(msg.sender));
+		}
+
+		revert SimulationResult(
+			SimulationReport({success: true, failedIndex: 0, reason: '', results: results, tokens: deltaTokens, deltas: deltas})
+		);
+	}
+
+	/// @notice Shared implementation of all execution entry points
+	function _execute(
+		address[] calldata _tokens,
+		uint256[] calldata _amounts,
+		Flashloan memory _flashloan,
+		Action[] calldata _actionData,
+		Reference[] memory _references
+	) internal returns (bytes[] memory) {
+		// Input validation
+		if (_tokens.length != _amounts.length) revert ArrayLengthMismatch();
+		if (_flashloan.tokens.length != _flashloan.amounts.length) revert ArrayLengthMismatch();
+		if (_flashloan.tokens.length == 0) revert InvalidInput();
+		if (_actionData.length == 0) revert NoActionsProvided();
+
+		for (uint256 i = 0; i < _flashloan.tokens.length; i++) {
+			if (_flashloan.tokens[i] == address(0)) revert InvalidAddress();
+		}
+
+		// Morpho is fixed, other lenders are chosen per call
+		address _lender = _flashloan.provider == FlashloanProvider.MORPHO ? address(morpho) : _flashloan.lender;
+		if (_lender == address(0)) revert InvalidAddress();
+
+		// Store execution parameters
+		sender = msg.sender;
+		tokens = _tokens;
+		amounts = _amounts;
+		flashToken = _flashloan.tokens[0];
+		flashAmount = _flashloan.amounts[0];
+		provider = _flashloan.provider;
+		lender = _lender;
+		flashTokens = _flashloan.tokens;
+		flashAmounts = _flashloan.amounts;
+		flashFees = new uint256[](_flashloan.tokens.length);
+
+		// Balancer loans all tokens with a single callback, the others nest one flashloan per token
+		pendingFlashloans = provider == FlashloanProvider.BALANCER ? 1 : flashTokens.length;
+
+		for (uint256 i = 0; i < _actionData.length; i++) {
+			actionData.push(Action({target: _actionData[i].target, value: _actionData[i].value, data: _actionData[i].data}));
+		}
+
+		for (uint256 i = 0; i < _references.length; i++) {
+			references.push(_references[i]);
+		}
+
+		// Initialize action results array
+		actionResult = new bytes[](_actionData.length);
+
+		// Transfer user-provided tokens to this contract
+		for (uint8 i = 0; i < tokens.length; i++) {
+			uint256 amount = amounts[i];
+
+			if (amount > 0) {
+				// Validate token address to prevent zero address transfers
+				if (tokens[i] == address(0)) revert InvalidAddress();
+				IERC20(tokens[i]).safeTransferFrom(sender, address(this), amount);
+			}
+		}
+
+		// Wrap the sent ETH, WETH is then approved and swept like a provided token
+		if (wrapNative && msg.value > 0) {
+			weth.deposit{value: msg.value}();
+			if (!_isTokenInArray(address(weth))) {
+				tokens.push(address(weth));
+				amounts.push(msg.value);
+			}
+		}
+
+		// Execute flashloans, the innermost callback executes the actions
+		_takeFlashloan(0);
+
+		// Unwrap the remaining WETH, refunded with the remaining ETH
+		if (unwrapNative) {
+			uint256 wethBalance = weth.balanceOf(address(this));
+			if (wethBalance > 0) {
+				weth.withdraw(wethBalance);
+			}
+		}
+
+		// Return any remaining tokens to the user
+		for (uint8 i = 0; i < tokens.length; i++) {
+			address token = tokens[i];
+			uint256 bal = IERC20(token).balanceOf(address(this));
+
+			if (bal > 0) {
+				// Use safeTransfer for additional safety
+				IERC20(token).safeTransfer(sender, bal);
+			}
+		}
+
+		// Return any remaining ETH to the user
+		uint256 ethBalance = address(this).balance;
+		if (ethBalance > 0) {
+			(bool success, ) = payable(sender).call{value: ethBalance}('');
+			if (!success) revert InvalidRefund();
+		}
+
+		// Backup action results before clearing state
+		bytes[] memory results = actionResult;
+
+		// Clear state variables for security and gas optimization
+		clearVars();
+
+		// Return the backed up results
+		return results;
+	}
+
+	// ============ Callback Functions ============
+
+	/// @notice Callback function called by Morpho during flashloan execution
+	/// @param assets The amount of assets that need to be repaid to Morpho
+	/// @param data Arbitrary data passed from the flashloan call (unused)
+	/// @dev Takes the next flashloan, the innermost one executes all queued actions, then approves repayment
+	function onMorphoFlashLoan(uint256 assets, bytes calldata data) external {
+		// Security: Only Morpho can call this callback
+		if (msg.sender != address(morpho)) revert NotMorpho();
+		uint256 index = _onFlashloan(FlashloanProvider.MORPHO);
+
+		_takeFlashloan(index + 1);
+
+		// Approve Morpho to collect the flashloan repayment
+		// This must happen after all actions to ensure sufficient balance
+		IERC20(flashTokens[index]).forceApprove(address(morpho), assets);
+	}
+
+	/// @notice Callback function called by the Balancer vault during flashloan execution
+	/// @param feeAmounts The fees to pay on top of the loaned amounts
+	/// @dev Executes all queued actions, then transfers the repayment back to the vault
+	function receiveFlashLoan(IERC20[] memory, uint256[] memory, uint256[] memory feeAmounts, bytes memory) external {
+		_onFlashloan(FlashloanProvider.BALANCER);
+		flashFees = feeAmounts;
+
+		_executeActions();
+
+		for (uint256 i = 0; i < flashTokens.length; i++) {
+			IERC20(flashTokens[i]).safeTransfer(msg.sender, flashAmounts[i] + feeAmounts[i]);
+		}
+	}
+
+	/// @notice Callback function called by an ERC-3156 lender during flashloan execution
+	/// @param initiator The address which requested the flashloan, has to be this contract
+	/// @param amount The amount of tokens loaned
+	/// @param fee The fee to pay on top of the amount
+	/// @dev Takes the next flashloan, the innermost one executes all queued actions, then approves repayment
+	function onFlashLoan(address initiator, address, uint256 amount, uint256 fee, bytes calldata) external returns (bytes32) {
+		uint256 index = _onFlashloan(FlashloanProvider.ERC3156);
+		if (initiator != address(this)) revert InvalidAddress();
+		flashFees[index] = fee;
+
+		_takeFlashloan(index + 1);
+
+		// Approve the lender to collect the flashloan repayment
+		IERC20(flashTokens[index]).forceApprove(msg.sender, amount + fee);
+		return ERC3156_CALLBACK_SUCCESS;
+	}
+
+	// ============ Flashloan Functions ============
+
+	/// @notice Builds the single Morpho flashloan of execute and executeComposed
+	function _morphoFlashloan(address _flashToken, uint256 _flashAmount) internal view returns (Flashloan memory flashloan) {
+		flashloan.provider = FlashloanProvider.MORPHO;
+		flashloan.lender = address(morpho);
+		flashloan.tokens = new address[](1);
+		flashloan.tokens[0] = _flashToken;
+		flashloan.amounts = new uint256[](1);
+		flashloan.amounts[0] = _flashAmount;
+	}
+
+	/// @notice Takes the flashloan at index, or executes the actions once all flashloans are taken
+	/// @param index The index of the flashloan token
+	function _takeFlashloan(uint256 index) internal {
+		if (provider == FlashloanProvider.BALANCER) {
+			IERC20[] memory loanTokens = new IERC20[](flashTokens.length);
+			for (uint256 i = 0; i < flashTokens.length; i++) {
+				loanTokens[i] = IERC20(flashTokens[i]);
+			}
+			IBalancerVault(lender).flashLoan(this, loanTokens, flashAmounts, '');
+		} else if (index == flashTokens.length) {
+			_executeActions();
+		} else if (provider == FlashloanProvider.MORPHO) {
+			morpho.flashLoan(flashTokens[index], flashAmounts[index], abi.encode(index));
+		} else {
+			IERC3156FlashLender(lender).flashLoan(this, flashTokens[index], flashAmounts[index], abi.encode(index));
+		}
+	}
+
+	/// @notice Validates a flashloan callback against the current execution
+	/// @param kind The provider the callback belongs to
+	/// @return index The index of the flashloan token, for nested flashloans
+	function _onFlashloan(FlashloanProvider kind) internal returns (uint256 index) {
+		if (pendingFlashloans == 0 || provider != kind) revert UnexpectedFlashloan();
+		if (msg.sender != lender) revert InvalidLender(msg.sender);
+
+		index = flashTokens.length - pendingFlashloans;
+		pendingFlashloans--;
+	}
+
+	/// @notice Executes all queued actions
+	/// @dev Called once all flashloans are taken, with the loaned tokens on this contract
+	function _executeActions() internal {
+		// Load references once, empty for plain executions
+		Reference[] memory refs = references;
+
+		// Execute all queued actions sequentially
+		for (uint8 h = 0; h < actionData.length; h++) {
+			actionIndex = h;
+			Action storage action = actionData[h];
+
+			// Validate action target to prevent calls to zero address
+			if (action.target == address(0)) {
+				revert InvalidAddress();
+			}
+
+			// Prevent recursive calls to this contract for security
+			if (action.target == address(this)) {
+				revert RecursiveCallNotAllowed();
+			}
+
+			// Only registered and unpaused hooks receive approvals
+			if (!registry.isAllowed(action.target)) {
+				revert HookNotAllowed(action.target);
+			}
+
+			// Grant temporary token approvals to the action target
+			for (uint8 i = 0; i < tokens.length; i++) {
+				address token = tokens[i];
+				uint256 bal = IERC20(token).balanceOf(address(this));
+				if (bal > 0) {
+					// Approve the exact balance for security
+					IERC20(token).forceApprove(action.target, bal);
+				}
+			}
+
+			// Also approve flashloan tokens if they are not already in the tokens array
+			for (uint256 i = 0; i < flashTokens.length; i++) {
+				address token = flashTokens[i];
+				if (_isTokenInArray(token)) continue;
+
+				uint256 flashBal = IERC20(token).balanceOf(address(this));
+				if (flashBal > 0) {
+					IERC20(token).forceApprove(action.target, flashBal);
+				}
+			}
+
+			IFlashloanHook hook = IFlashloanHook(action.target);
+
+			// Verify orchestrator address
+			if (address(hook.orchestrator()) != address(this)) {
+				revert InvalidAddress();
+			}
+
+			// Patch results of prior actions into the data
+			bytes memory hookData = action.data;
+			if (refs.length > 0) {
+				ActionReferenceLib.resolve(hookData, h, refs, actionResult);
+			}
+
+			// Execute the action with the specified value and data, a simulation reports a failing action
+			if (simulating) {
+				try hook.onFlashloanHook{value: action.value}(hookData) returns (bytes memory result) {
+					actionResult[h] = result;
+				} catch (bytes memory reason) {
+					revert SimulationResult(
+						SimulationReport({
+							success: false,
+							failedIndex: h,
+							reason: reason,
+							results: actionResult,
+							tokens: new address[](0),
+							deltas: new int256[](0)
+						})
+					);
+				}
+			} else {
+				actionResult[h] = hook.onFlashloanHook{value: action.value}(hookData);
+			}
+
+			// Emit event for successful action execution
+			emit Executed(sender, action.target);
+
+			// Reset all token allowances for security
+			for (uint8 i = 0; i < tokens.length; i++) {
+				IERC20(tokens[i]).forceApprove(action.target, 0);
+			}
+
+			// Reset flashloan token allowances if they were approved
+			for (uint256 i = 0; i < flashTokens.length; i++) {
+				if (!_isTokenInArray(flashTokens[i])) {
+					IERC20(flashTokens[i]).forceApprove(action.target, 0);
+				}
+			}
+		}
+	}
+
+	// ============ Internal Functions ============
+
+	/// @notice Clears all execution state variables
+	/// @dev Called after each execution to reset state and prevent data leakage
+	function clearVars() internal {
+		// Reset user and execution context
+		delete sender;
+		delete tokens;
+		delete amounts;
+		delete flashToken;
+		delete flashAmount;
+		delete provider;
+		delete lender;
+		delete flashTokens;
+		delete flashAmounts;
+		delete flashFees;
+		delete pendingFlashloans;
+		delete simulating;
+		delete wrapNative;
+		delete unwrapNative;
+
+		// Reset action execution state
+		delete actionIndex;
+		delete actionData;
+		delete actionResult;
+		delete references;
+	}
+
+	/// @notice Collects the provided and flashloaned tokens without duplicates
+	/// @param _tokens The provided tokens
+	/// @param _flashTokens The flashloaned tokens
+	/// @return list The tokens whose sender balance changes are reported by simulate
+	function _simulationTokens(address[] calldata _tokens, address[] calldata _flashTokens) internal pure returns (address[] memory list) {
+		list = new address[](_tokens.length + _flashTokens.length);
+		uint256 count = 0;
+
+		for (uint256 i = 0; i < list.length; i++) {
+			address token = i < _tokens.length ? _tokens[i] : _flashTokens[i - _tokens.length];
+			bool exists = false;
+			for (uint256 j = 0; j < count; j++) {
+				if (list[j] == token) {
+					exists = true;
+					break;
+				}
+			}
+			if (!exists) list[count++] = token;
+		}
+
+		// Shrink to the unique tokens
+		assembly {
+			mstore(list, count)
+		}
+	}
+
+	/// @notice Checks if a token is already in the tokens array
+	/// @param token The token address to check
+	/// @return exists True if token is in the array, false otherwise
+	/// @dev Used to avoid duplicate approvals for flashloan token
+	function _isTokenInArray(address token) internal view returns (bool exists) {
+		for (uint8 i = 0; i < tokens.length; i++) {
+			if (tokens[i] == token) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	// ============ Fallback Functions ============
+
+	/// @notice Allows contract to receive ETH for action executions that require ETH
+	/// @dev ETH can be used as value in action calls
+	receive() external payable {
+		// Allow ETH deposits for action execution
+	}
+
+	/// @notice Fallback function to handle unexpected calls
+	/// @dev Reverts to prevent accidental calls to unsupported functions
+	fallback() external payable {
+		revert UnsupportedFunction();
+	}
+}
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ISwapRouter} from '@uniswap/v3-periphery/contracts/interfaces/ISwapRouter.sol';
+import {MockERC20} from './MockERC20.sol';
+
+/**
+ * @title MockSwapRouter
+ * @notice Uniswap V3 router stand-in for exactInput, swaps every hop at a settable rate instead of a pool.
+ * @dev Input tokens are burned and output tokens minted, so all tokens of a path have to be MockERC20.
+ *      The fee of a hop is only parsed, rates already include any fee.
+ */
+contract MockSwapRouter {
+	uint256 private constant ADDR_SIZE = 20;
+	uint256 private constant FEE_SIZE = 3;
+	uint256 private constant HOP_SIZE = ADDR_SIZE + FEE_SIZE;
+
+	// tokenIn => tokenOut => amountOut per 1e18 amountIn
+	mapping(address => mapping(address => uint256)) public rates;
+
+	event Swapped(address indexed tokenIn, address indexed tokenOut, uint24 fee, uint256 amountIn, uint256 amountOut);
+
+	function setRate(address tokenIn, address tokenOut, uint256 rate) external {
+		rates[tokenIn][tokenOut] = rate;
+	}
+
+	function exactInput(ISwapRouter.ExactInputParams calldata params) external payable returns (uint256 amountOut) {
+		require(block.timestamp <= params.deadline, 'Transaction too old');
+		require(params.path.length >= HOP_SIZE + ADDR_SIZE && (params.path.length - ADDR_SIZE) % HOP_SIZE == 0, 'Invalid path');
+
+		address tokenIn = _token(params.path, 0);
+		MockERC20(tokenIn).transferFrom(msg.sender, address(this), params.amountIn);
+		MockERC20(tokenIn).burn(address(this), params.amountIn);
+
+		amountOut = params.amountIn;
+		for (uint256 i = 0; i < params.path.length - ADDR_SIZE; i += HOP_SIZE) {
+			address tokenOut = _token(params.path, i + HOP_SIZE);
+			uint24 fee = uint24(bytes3(params.path[i + ADDR_SIZE:i + HOP_SIZE]));
+
+			uint256 rate = rates[tokenIn][tokenOut];
+			require(rate > 0, 'No rate');
+
+			uint256 amountIn = amountOut;
+			amountOut = (amountIn * rate) / 1 ether;
+			emit Swapped(tokenIn, tokenOut, fee, amountIn, amountOut);
+
+			tokenIn = tokenOut;
+		}
+
+		require(amountOut >= params.amountOutMinimum, 'Too little received');
+		MockERC20(tokenIn).mint(params.recipient, amountOut);
+	}
+
+	function _token(bytes calldata path, uint256 start) internal pure returns (address) {
+		return address(bytes20(path[start:start + ADDR_SIZE]));
+	}
+}
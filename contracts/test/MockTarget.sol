@@ -11,6 +11,8 @@ contract MockTarget {
 
     event ValueSet(uint256 newValue);
 
+    error ValueTooHigh(uint256 value, uint256 maximum);
+
     /// @notice Sets the value
     /// @param _value The new value to set
     function setValue(uint256 _value) external {
@@ -18,6 +20,13 @@ contract MockTarget {
         emit ValueSet(_value);
     }
 
+    /// @notice Sets the value and accepts ETH
+    /// @param _value The new value to set
+    function setValuePayable(uint256 _value) external payable {
+        value = _value;
+        emit ValueSet(_value);
+    }
+
     /// @notice Sets whether the contract should revert on calls
     /// @param _shouldRevert Whether to revert
     function setShouldRevert(bool _shouldRevert) external {
@@ -29,6 +38,19 @@ contract MockTarget {
         revert("MockTarget: This function always reverts");
     }
 
+    /// @notice A function that always reverts with a custom error
+    /// @param _value The value reported in the error
+    function customErrorFunction(uint256 _value) external pure {
+        revert ValueTooHigh(_value, 100);
+    }
+
+    /// @notice A function that panics with a division by zero for a zero divisor
+    /// @param _divisor The divisor
+    /// @return The quotient of 100 and the divisor
+    function panicFunction(uint256 _divisor) external pure returns (uint256) {
+        return 100 / _divisor;
+    }
+
     /// @notice A function that reverts based on state
     function conditionalRevert() external view {
         require(!shouldRevert, "MockTarget: Conditional revert");
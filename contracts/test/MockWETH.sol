@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ERC20} from '@openzeppelin/contracts/token/ERC20/ERC20.sol';
+
+/**
+ * @title MockWETH
+ * @notice WETH9 stand-in, wraps ether 1:1.
+ */
+contract MockWETH is ERC20 {
+	event Deposit(address indexed dst, uint256 wad);
+	event Withdrawal(address indexed src, uint256 wad);
+
+	constructor() ERC20('Wrapped Ether', 'WETH') {}
+
+	receive() external payable {
+		deposit();
+	}
+
+	function deposit() public payable {
+		_mint(msg.sender, msg.value);
+		emit Deposit(msg.sender, msg.value);
+	}
+
+	function withdraw(uint256 wad) external {
+		_burn(msg.sender, wad);
+		(bool success, ) = payable(msg.sender).call{value: wad}('');
+		require(success, 'Transfer failed');
+		emit Withdrawal(msg.sender, wad);
+	}
+}
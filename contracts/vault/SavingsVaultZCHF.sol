@@ -4,9 +4,11 @@ pragma solidity ^0.8.20;
 import {Math} from '@openzeppelin/contracts/utils/math/Math.sol';
 import {SafeERC20} from '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
 import {ERC4626, ERC20, IERC20} from '@openzeppelin/contracts/token/ERC20/extensions/ERC4626.sol';
+import {ERC20Permit} from '@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol';
 import {Ownable2Step, Ownable} from '@openzeppelin/contracts/access/Ownable2Step.sol';
 
 import {ISavingsZCHF} from './helpers/ISavingsZCHF.sol';
+import {PermitLib, Permit, Permit2Transfer} from '../permit/PermitLib.sol';
 
 /**
  * @title SavingsVaultZCHF
@@ -22,8 +24,13 @@ import {ISavingsZCHF} from './helpers/ISavingsZCHF.sol';
  *      price based on newly accrued interest. Withdrawals are protected by a locking mechanism tied
  *      to `savings.currentTicks()`, preventing premature exits and mitigating manipulation of
  *      account-based interest shifts enforced by `savings.INTEREST_DELAY()`.
+ *
+ *      Deposits can be funded with an EIP-2612 permit or a Permit2 signature transfer of the ZCHF,
+ *      the shares themselves support EIP-2612 permits. Permits are part of new deployments only, the
+ *      vault deployed at `savingsVaultZCHF` in exports/address.config.ts predates them and has neither
+ *      `permit`, `nonces`, `eip712Domain` nor `depositWithPermit` and `depositWithPermit2`.
  */
-contract SavingsVaultZCHF is ERC4626, Ownable2Step {
+contract SavingsVaultZCHF is ERC4626, ERC20Permit, Ownable2Step {
 	using Math for uint256;
 
 	ISavingsZCHF public immutable savings;
@@ -38,7 +45,7 @@ contract SavingsVaultZCHF is ERC4626, Ownable2Step {
 		ISavingsZCHF _savings,
 		string memory _name,
 		string memory _symbol
-	) ERC4626(_coin) ERC20(_name, _symbol) Ownable(_owner) {
+	) ERC4626(_coin) ERC20(_name, _symbol) ERC20Permit(_name) Ownable(_owner) {
 		savings = _savings;
 	}
 
@@ -74,6 +81,10 @@ contract SavingsVaultZCHF is ERC4626, Ownable2Step {
 	// ---------------------------------------------------------------------------------------
 	// Override functions of ERC4626
 
+	function decimals() public view virtual override(ERC4626, ERC20) returns (uint8) {
+		return super.decimals();
+	}
+
 	function totalAssets() public view override returns (uint256) {
 		return savings.savings(address(this)).saved + _interest();
 	}
@@ -108,8 +119,6 @@ contract SavingsVaultZCHF is ERC4626, Ownable2Step {
 	// ---------------------------------------------------------------------------------------
 
 	function _deposit(address caller, address receiver, uint256 assets, uint256 shares) internal virtual override {
-		_accrueInterest();
-
 		// If _asset is ERC-777, `transferFrom` can trigger a reentrancy BEFORE the transfer happens through the
 		// `tokensToSend` hook. On the other hand, the `tokenReceived` hook, that is triggered after the transfer,
 		// calls the vault, which is assumed not malicious.
@@ -119,6 +128,14 @@ contract SavingsVaultZCHF is ERC4626, Ownable2Step {
 		// slither-disable-next-line reentrancy-no-eth
 		SafeERC20.safeTransferFrom(IERC20(asset()), caller, address(this), assets);
 
+		_save(caller, receiver, assets, shares);
+	}
+
+	/// @notice Saves assets already held by the vault and mints the shares
+	/// @dev Shared by `_deposit` and the Permit2 deposit, which transfers the assets beforehand
+	function _save(address caller, address receiver, uint256 assets, uint256 shares) internal {
+		_accrueInterest();
+
 		savings.save(uint192(assets));
 
 		_mint(receiver, shares);
@@ -149,6 +166,29 @@ contract SavingsVaultZCHF is ERC4626, Ownable2Step {
 		emit Withdraw(caller, receiver, owner, assets, shares);
 	}
 
+	// ---------------------------------------------------------------------------------------
+	// Deposits without a prior approval of the assets
+
+	/// @notice Deposits assets like `deposit`, applying an EIP-2612 permit of the caller for the assets first
+	/// @dev A failing permit is accepted if the allowance already covers the assets, e.g. if the permit was front-run
+	function depositWithPermit(uint256 assets, address receiver, Permit calldata permit) external returns (uint256) {
+		PermitLib.permit(asset(), _msgSender(), assets, permit);
+		return deposit(assets, receiver);
+	}
+
+	/// @notice Deposits assets like `deposit`, transferring them with a Permit2 signature of the caller
+	/// @dev The caller signs over the asset and amount with this vault as spender
+	function depositWithPermit2(uint256 assets, address receiver, Permit2Transfer calldata transfer) external returns (uint256) {
+		uint256 maxAssets = maxDeposit(receiver);
+		if (assets > maxAssets) revert ERC4626ExceededMaxDeposit(receiver, assets, maxAssets);
+
+		uint256 shares = previewDeposit(assets);
+		PermitLib.permit2TransferFrom(asset(), _msgSender(), assets, transfer);
+		_save(_msgSender(), receiver, assets, shares);
+
+		return shares;
+	}
+
 	// ---------------------------------------------------------------------------------------
 
 	/// @notice Internal function to accrue and record interest if available
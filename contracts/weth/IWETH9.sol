@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.8.0;
+
+import {IERC20} from '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+
+/// @title Interface for WETH9
+interface IWETH9 is IERC20 {
+	/// @notice Deposit ether to get wrapped ether
+	function deposit() external payable;
+
+	/// @notice Withdraw wrapped ether to get ether
+	function withdraw(uint256) external;
+}
@@ -0,0 +1,123 @@
+export const FlashloanHookFactory_ERC4626ABI = [
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: '_orchestrator',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: '_morpho',
+				type: 'address',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'constructor',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'Id',
+				name: 'marketId',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'address',
+				name: 'hook',
+				type: 'address',
+			},
+		],
+		name: 'HookExists',
+		type: 'error',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'hook',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'Id',
+				name: 'marketId',
+				type: 'bytes32',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'vault',
+				type: 'address',
+			},
+		],
+		name: 'Created',
+		type: 'event',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'Id',
+				name: '_marketId',
+				type: 'bytes32',
+			},
+		],
+		name: 'create',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'Id',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		name: 'hooks',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'morpho',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'orchestrator',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+] as const;
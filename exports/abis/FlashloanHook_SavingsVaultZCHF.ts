@@ -0,0 +1,416 @@
+export const FlashloanHook_SavingsVaultZCHFABI = [
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: '_orchestrator',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: '_morpho',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: '_savingsVault',
+				type: 'address',
+			},
+			{
+				internalType: 'Id',
+				name: '_market',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'constructor',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'deadline',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'timestamp',
+				type: 'uint256',
+			},
+		],
+		name: 'DeadlineExpired',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'repaid',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'maxRepay',
+				type: 'uint256',
+			},
+		],
+		name: 'ExcessiveRepay',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'amountOut',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'minAmountOut',
+				type: 'uint256',
+			},
+		],
+		name: 'InsufficientAmountOut',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'InvalidAddress',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'given',
+				type: 'uint256',
+			},
+		],
+		name: 'InvalidDataLength',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'Id',
+				name: 'market',
+				type: 'bytes32',
+			},
+		],
+		name: 'InvalidMarket',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint8',
+				name: 'given',
+				type: 'uint8',
+			},
+		],
+		name: 'InvalidOpcode',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'vault',
+				type: 'address',
+			},
+		],
+		name: 'InvalidVault',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'token',
+				type: 'address',
+			},
+		],
+		name: 'SafeERC20FailedOperation',
+		type: 'error',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: 'uint8',
+				name: 'opcode',
+				type: 'uint8',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'flash',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'amountIn',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'amountOut',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'provided',
+				type: 'uint256',
+			},
+		],
+		name: 'Executed',
+		type: 'event',
+	},
+	{
+		inputs: [],
+		name: 'CLOSE_TO_COLLATERAL',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'CLOSE_TO_LOAN',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'DECREASE_LEVERAGE',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'INCREASE_LEVERAGE',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes',
+				name: 'data',
+				type: 'bytes',
+			},
+		],
+		name: 'decodeData',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: 'opcode',
+				type: 'uint8',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'minAmountOut',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'maxRepay',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'deadline',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct FlashloanHook_ERC4626.Limits',
+				name: 'limits',
+				type: 'tuple',
+			},
+		],
+		stateMutability: 'pure',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'loanToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'collateralToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'oracle',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'irm',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'lltv',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct MarketParams',
+				name: 'marketParams',
+				type: 'tuple',
+			},
+		],
+		name: 'getMarketId',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'pure',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'market',
+		outputs: [
+			{
+				internalType: 'address',
+				name: 'loanToken',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'collateralToken',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'oracle',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'irm',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: 'lltv',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'morpho',
+		outputs: [
+			{
+				internalType: 'contract IMorpho',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes',
+				name: 'data',
+				type: 'bytes',
+			},
+		],
+		name: 'onFlashloanHook',
+		outputs: [
+			{
+				internalType: 'bytes',
+				name: '',
+				type: 'bytes',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'orchestrator',
+		outputs: [
+			{
+				internalType: 'contract IFlashloanOrchestrator',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'savingsVault',
+		outputs: [
+			{
+				internalType: 'contract SavingsVaultZCHF',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'vault',
+		outputs: [
+			{
+				internalType: 'contract IERC4626',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+] as const;
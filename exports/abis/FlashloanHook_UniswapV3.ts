@@ -0,0 +1,302 @@
+export const FlashloanHook_UniswapV3ABI = [
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: '_orchestrator',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: '_morpho',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: '_uniswap',
+				type: 'address',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'constructor',
+	},
+	{
+		inputs: [],
+		name: 'InvalidAddress',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint8',
+				name: 'given',
+				type: 'uint8',
+			},
+		],
+		name: 'InvalidOpcode',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'length',
+				type: 'uint256',
+			},
+		],
+		name: 'InvalidPath',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'token',
+				type: 'address',
+			},
+		],
+		name: 'SafeERC20FailedOperation',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'input',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'needed',
+				type: 'address',
+			},
+		],
+		name: 'WrongInputToken',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'output',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'needed',
+				type: 'address',
+			},
+		],
+		name: 'WrongOutputToken',
+		type: 'error',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: 'uint8',
+				name: 'opcode',
+				type: 'uint8',
+			},
+			{
+				indexed: true,
+				internalType: 'Id',
+				name: 'marketId',
+				type: 'bytes32',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'flash',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'swapIn',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'swapOut',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'provided',
+				type: 'uint256',
+			},
+		],
+		name: 'Executed',
+		type: 'event',
+	},
+	{
+		inputs: [],
+		name: 'CLOSE_POSITION',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'DECREASE_LEVERAGE',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'INCREASE_LEVERAGE',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes',
+				name: 'path',
+				type: 'bytes',
+			},
+			{
+				internalType: 'address',
+				name: 'tokenIn',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'tokenOut',
+				type: 'address',
+			},
+		],
+		name: 'checkPath',
+		outputs: [],
+		stateMutability: 'pure',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'loanToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'collateralToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'oracle',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'irm',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'lltv',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct MarketParams',
+				name: 'marketParams',
+				type: 'tuple',
+			},
+		],
+		name: 'getMarketId',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'pure',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'morpho',
+		outputs: [
+			{
+				internalType: 'contract IMorpho',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes',
+				name: 'data',
+				type: 'bytes',
+			},
+		],
+		name: 'onFlashloanHook',
+		outputs: [
+			{
+				internalType: 'bytes',
+				name: '',
+				type: 'bytes',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'orchestrator',
+		outputs: [
+			{
+				internalType: 'contract IFlashloanOrchestrator',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'uniswap',
+		outputs: [
+			{
+				internalType: 'contract ISwapRouter',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+] as const;
@@ -0,0 +1,1423 @@
+export const FlashloanOrchestratorABI = [
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: '_morpho',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: '_registry',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: '_weth',
+				type: 'address',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'constructor',
+	},
+	{
+		inputs: [],
+		name: 'ArrayLengthMismatch',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'hook',
+				type: 'address',
+			},
+		],
+		name: 'HookNotAllowed',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'InvalidAddress',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'InvalidInput',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'caller',
+				type: 'address',
+			},
+		],
+		name: 'InvalidLender',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'index',
+				type: 'uint256',
+			},
+		],
+		name: 'InvalidReference',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'InvalidRefund',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'NoActionsProvided',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'NotMorpho',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'token',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: 'allowance',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'amount',
+				type: 'uint256',
+			},
+		],
+		name: 'PermitFailed',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'RecursiveCallNotAllowed',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'ReentrancyGuardReentrantCall',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint8',
+				name: 'bits',
+				type: 'uint8',
+			},
+			{
+				internalType: 'uint256',
+				name: 'value',
+				type: 'uint256',
+			},
+		],
+		name: 'SafeCastOverflowedUintDowncast',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'token',
+				type: 'address',
+			},
+		],
+		name: 'SafeERC20FailedOperation',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'bool',
+						name: 'success',
+						type: 'bool',
+					},
+					{
+						internalType: 'uint256',
+						name: 'failedIndex',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'reason',
+						type: 'bytes',
+					},
+					{
+						internalType: 'bytes[]',
+						name: 'results',
+						type: 'bytes[]',
+					},
+					{
+						internalType: 'address[]',
+						name: 'tokens',
+						type: 'address[]',
+					},
+					{
+						internalType: 'int256[]',
+						name: 'deltas',
+						type: 'int256[]',
+					},
+				],
+				internalType: 'struct SimulationReport',
+				name: 'report',
+				type: 'tuple',
+			},
+		],
+		name: 'SimulationResult',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'UnexpectedFlashloan',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'index',
+				type: 'uint256',
+			},
+		],
+		name: 'UnresolvableReference',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'UnsupportedFunction',
+		type: 'error',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'sender',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+		],
+		name: 'Executed',
+		type: 'event',
+	},
+	{
+		stateMutability: 'payable',
+		type: 'fallback',
+	},
+	{
+		inputs: [],
+		name: 'SIMULATION_OUTSIDE_ACTIONS',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		name: 'actionData',
+		outputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: 'value',
+				type: 'uint256',
+			},
+			{
+				internalType: 'bytes',
+				name: 'data',
+				type: 'bytes',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'actionIndex',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'index',
+				type: 'uint256',
+			},
+		],
+		name: 'actionResult',
+		outputs: [
+			{
+				internalType: 'bytes',
+				name: '',
+				type: 'bytes',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		name: 'amounts',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'currentActionIndex',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address[]',
+				name: '_tokens',
+				type: 'address[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: '_amounts',
+				type: 'uint256[]',
+			},
+			{
+				internalType: 'address',
+				name: '_flashToken',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: '_flashAmount',
+				type: 'uint256',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Action[]',
+				name: '_actionData',
+				type: 'tuple[]',
+			},
+		],
+		name: 'execute',
+		outputs: [
+			{
+				internalType: 'bytes[]',
+				name: '',
+				type: 'bytes[]',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address[]',
+				name: '_tokens',
+				type: 'address[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: '_amounts',
+				type: 'uint256[]',
+			},
+			{
+				internalType: 'address',
+				name: '_flashToken',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: '_flashAmount',
+				type: 'uint256',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Action[]',
+				name: '_actionData',
+				type: 'tuple[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'action',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'word',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'target',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'offset',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct Reference[]',
+				name: '_references',
+				type: 'tuple[]',
+			},
+		],
+		name: 'executeComposed',
+		outputs: [
+			{
+				internalType: 'bytes[]',
+				name: '',
+				type: 'bytes[]',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address[]',
+				name: '_tokens',
+				type: 'address[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: '_amounts',
+				type: 'uint256[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'enum FlashloanProvider',
+						name: 'provider',
+						type: 'uint8',
+					},
+					{
+						internalType: 'address',
+						name: 'lender',
+						type: 'address',
+					},
+					{
+						internalType: 'address[]',
+						name: 'tokens',
+						type: 'address[]',
+					},
+					{
+						internalType: 'uint256[]',
+						name: 'amounts',
+						type: 'uint256[]',
+					},
+				],
+				internalType: 'struct Flashloan',
+				name: '_flashloan',
+				type: 'tuple',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Action[]',
+				name: '_actionData',
+				type: 'tuple[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'action',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'word',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'target',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'offset',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct Reference[]',
+				name: '_references',
+				type: 'tuple[]',
+			},
+		],
+		name: 'executeMulti',
+		outputs: [
+			{
+				internalType: 'bytes[]',
+				name: '',
+				type: 'bytes[]',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address[]',
+				name: '_tokens',
+				type: 'address[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: '_amounts',
+				type: 'uint256[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'enum FlashloanProvider',
+						name: 'provider',
+						type: 'uint8',
+					},
+					{
+						internalType: 'address',
+						name: 'lender',
+						type: 'address',
+					},
+					{
+						internalType: 'address[]',
+						name: 'tokens',
+						type: 'address[]',
+					},
+					{
+						internalType: 'uint256[]',
+						name: 'amounts',
+						type: 'uint256[]',
+					},
+				],
+				internalType: 'struct Flashloan',
+				name: '_flashloan',
+				type: 'tuple',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Action[]',
+				name: '_actionData',
+				type: 'tuple[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'action',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'word',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'target',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'offset',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct Reference[]',
+				name: '_references',
+				type: 'tuple[]',
+			},
+			{
+				internalType: 'bool',
+				name: '_wrap',
+				type: 'bool',
+			},
+			{
+				internalType: 'bool',
+				name: '_unwrap',
+				type: 'bool',
+			},
+		],
+		name: 'executeNative',
+		outputs: [
+			{
+				internalType: 'bytes[]',
+				name: '',
+				type: 'bytes[]',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address[]',
+				name: '_tokens',
+				type: 'address[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: '_amounts',
+				type: 'uint256[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'enum FlashloanProvider',
+						name: 'provider',
+						type: 'uint8',
+					},
+					{
+						internalType: 'address',
+						name: 'lender',
+						type: 'address',
+					},
+					{
+						internalType: 'address[]',
+						name: 'tokens',
+						type: 'address[]',
+					},
+					{
+						internalType: 'uint256[]',
+						name: 'amounts',
+						type: 'uint256[]',
+					},
+				],
+				internalType: 'struct Flashloan',
+				name: '_flashloan',
+				type: 'tuple',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Action[]',
+				name: '_actionData',
+				type: 'tuple[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'action',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'word',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'target',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'offset',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct Reference[]',
+				name: '_references',
+				type: 'tuple[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'deadline',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint8',
+						name: 'v',
+						type: 'uint8',
+					},
+					{
+						internalType: 'bytes32',
+						name: 'r',
+						type: 'bytes32',
+					},
+					{
+						internalType: 'bytes32',
+						name: 's',
+						type: 'bytes32',
+					},
+				],
+				internalType: 'struct Permit[]',
+				name: '_permits',
+				type: 'tuple[]',
+			},
+		],
+		name: 'executeWithPermit',
+		outputs: [
+			{
+				internalType: 'bytes[]',
+				name: '',
+				type: 'bytes[]',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address[]',
+				name: '_tokens',
+				type: 'address[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: '_amounts',
+				type: 'uint256[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'enum FlashloanProvider',
+						name: 'provider',
+						type: 'uint8',
+					},
+					{
+						internalType: 'address',
+						name: 'lender',
+						type: 'address',
+					},
+					{
+						internalType: 'address[]',
+						name: 'tokens',
+						type: 'address[]',
+					},
+					{
+						internalType: 'uint256[]',
+						name: 'amounts',
+						type: 'uint256[]',
+					},
+				],
+				internalType: 'struct Flashloan',
+				name: '_flashloan',
+				type: 'tuple',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Action[]',
+				name: '_actionData',
+				type: 'tuple[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'action',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'word',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'target',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'offset',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct Reference[]',
+				name: '_references',
+				type: 'tuple[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'nonce',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'deadline',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'signature',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Permit2Transfer',
+				name: '_transfer',
+				type: 'tuple',
+			},
+		],
+		name: 'executeWithPermit2',
+		outputs: [
+			{
+				internalType: 'bytes[]',
+				name: '',
+				type: 'bytes[]',
+			},
+		],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'flashAmount',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		name: 'flashAmounts',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'index',
+				type: 'uint256',
+			},
+		],
+		name: 'flashFees',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'flashToken',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		name: 'flashTokens',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'lender',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'initiator',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: 'amount',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'fee',
+				type: 'uint256',
+			},
+			{
+				internalType: 'bytes',
+				name: 'data',
+				type: 'bytes',
+			},
+		],
+		name: 'onFlashLoan',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+			{
+				internalType: 'bytes',
+				name: 'data',
+				type: 'bytes',
+			},
+		],
+		name: 'onMorphoFlashLoan',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'provider',
+		outputs: [
+			{
+				internalType: 'enum FlashloanProvider',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'contract IERC20[]',
+				name: '',
+				type: 'address[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: '',
+				type: 'uint256[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: 'feeAmounts',
+				type: 'uint256[]',
+			},
+			{
+				internalType: 'bytes',
+				name: 'userData',
+				type: 'bytes',
+			},
+		],
+		name: 'receiveFlashLoan',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		name: 'references',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'action',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'word',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'target',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'offset',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'registry',
+		outputs: [
+			{
+				internalType: 'contract IFlashloanHookRegistry',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'sender',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address[]',
+				name: '_tokens',
+				type: 'address[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: '_amounts',
+				type: 'uint256[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'enum FlashloanProvider',
+						name: 'provider',
+						type: 'uint8',
+					},
+					{
+						internalType: 'address',
+						name: 'lender',
+						type: 'address',
+					},
+					{
+						internalType: 'address[]',
+						name: 'tokens',
+						type: 'address[]',
+					},
+					{
+						internalType: 'uint256[]',
+						name: 'amounts',
+						type: 'uint256[]',
+					},
+				],
+				internalType: 'struct Flashloan',
+				name: '_flashloan',
+				type: 'tuple',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Action[]',
+				name: '_actionData',
+				type: 'tuple[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'action',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'word',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'target',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'offset',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct Reference[]',
+				name: '_references',
+				type: 'tuple[]',
+			},
+		],
+		name: 'simulate',
+		outputs: [],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: '_sender',
+				type: 'address',
+			},
+			{
+				internalType: 'address[]',
+				name: '_tokens',
+				type: 'address[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: '_amounts',
+				type: 'uint256[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'enum FlashloanProvider',
+						name: 'provider',
+						type: 'uint8',
+					},
+					{
+						internalType: 'address',
+						name: 'lender',
+						type: 'address',
+					},
+					{
+						internalType: 'address[]',
+						name: 'tokens',
+						type: 'address[]',
+					},
+					{
+						internalType: 'uint256[]',
+						name: 'amounts',
+						type: 'uint256[]',
+					},
+				],
+				internalType: 'struct Flashloan',
+				name: '_flashloan',
+				type: 'tuple',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Action[]',
+				name: '_actionData',
+				type: 'tuple[]',
+			},
+			{
+				components: [
+					{
+						internalType: 'uint256',
+						name: 'action',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'word',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'target',
+						type: 'uint256',
+					},
+					{
+						internalType: 'uint256',
+						name: 'offset',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct Reference[]',
+				name: '_references',
+				type: 'tuple[]',
+			},
+		],
+		name: 'simulateExecution',
+		outputs: [],
+		stateMutability: 'payable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		name: 'tokens',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'weth',
+		outputs: [
+			{
+				internalType: 'contract IWETH9',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		stateMutability: 'payable',
+		type: 'receive',
+	},
+] as const;
@@ -0,0 +1,1483 @@
+export const IMetaMorphoV1_1ABI = [
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'spender',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'value',
+				type: 'uint256',
+			},
+		],
+		name: 'Approval',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'sender',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		name: 'Deposit',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'from',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'to',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'value',
+				type: 'uint256',
+			},
+		],
+		name: 'Transfer',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'sender',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'receiver',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		name: 'Withdraw',
+		type: 'event',
+	},
+	{
+		inputs: [],
+		name: 'DECIMALS_OFFSET',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'DOMAIN_SEPARATOR',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'MORPHO',
+		outputs: [
+			{
+				internalType: 'contract IMorpho',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'loanToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'collateralToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'oracle',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'irm',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'lltv',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct MarketParams',
+				name: 'marketParams',
+				type: 'tuple',
+			},
+		],
+		name: 'acceptCap',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'acceptGuardian',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'acceptOwnership',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'acceptTimelock',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'spender',
+				type: 'address',
+			},
+		],
+		name: 'allowance',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'spender',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: 'value',
+				type: 'uint256',
+			},
+		],
+		name: 'approve',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'asset',
+		outputs: [
+			{
+				internalType: 'address',
+				name: 'assetTokenAddress',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+		],
+		name: 'balanceOf',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'Id',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		name: 'config',
+		outputs: [
+			{
+				components: [
+					{
+						internalType: 'uint184',
+						name: 'cap',
+						type: 'uint184',
+					},
+					{
+						internalType: 'bool',
+						name: 'enabled',
+						type: 'bool',
+					},
+					{
+						internalType: 'uint64',
+						name: 'removableAt',
+						type: 'uint64',
+					},
+				],
+				internalType: 'struct MarketConfig',
+				name: '',
+				type: 'tuple',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		name: 'convertToAssets',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+		],
+		name: 'convertToShares',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'curator',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'decimals',
+		outputs: [
+			{
+				internalType: 'uint8',
+				name: '',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+			{
+				internalType: 'address',
+				name: 'receiver',
+				type: 'address',
+			},
+		],
+		name: 'deposit',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'fee',
+		outputs: [
+			{
+				internalType: 'uint96',
+				name: '',
+				type: 'uint96',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'feeRecipient',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'guardian',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+		],
+		name: 'isAllocator',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'lastTotalAssets',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'lostAssets',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'receiver',
+				type: 'address',
+			},
+		],
+		name: 'maxDeposit',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'maxAssets',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'receiver',
+				type: 'address',
+			},
+		],
+		name: 'maxMint',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'maxShares',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+		],
+		name: 'maxRedeem',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'maxShares',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+		],
+		name: 'maxWithdraw',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'maxAssets',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+			{
+				internalType: 'address',
+				name: 'receiver',
+				type: 'address',
+			},
+		],
+		name: 'mint',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes[]',
+				name: '',
+				type: 'bytes[]',
+			},
+		],
+		name: 'multicall',
+		outputs: [
+			{
+				internalType: 'bytes[]',
+				name: '',
+				type: 'bytes[]',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'name',
+		outputs: [
+			{
+				internalType: 'string',
+				name: '',
+				type: 'string',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+		],
+		name: 'nonces',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'owner',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'Id',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		name: 'pendingCap',
+		outputs: [
+			{
+				components: [
+					{
+						internalType: 'uint192',
+						name: 'value',
+						type: 'uint192',
+					},
+					{
+						internalType: 'uint64',
+						name: 'validAt',
+						type: 'uint64',
+					},
+				],
+				internalType: 'struct PendingUint192',
+				name: '',
+				type: 'tuple',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'pendingGuardian',
+		outputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'value',
+						type: 'address',
+					},
+					{
+						internalType: 'uint64',
+						name: 'validAt',
+						type: 'uint64',
+					},
+				],
+				internalType: 'struct PendingAddress',
+				name: '',
+				type: 'tuple',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'pendingOwner',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'pendingTimelock',
+		outputs: [
+			{
+				components: [
+					{
+						internalType: 'uint192',
+						name: 'value',
+						type: 'uint192',
+					},
+					{
+						internalType: 'uint64',
+						name: 'validAt',
+						type: 'uint64',
+					},
+				],
+				internalType: 'struct PendingUint192',
+				name: '',
+				type: 'tuple',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'spender',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: 'value',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'deadline',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint8',
+				name: 'v',
+				type: 'uint8',
+			},
+			{
+				internalType: 'bytes32',
+				name: 'r',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'bytes32',
+				name: 's',
+				type: 'bytes32',
+			},
+		],
+		name: 'permit',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+		],
+		name: 'previewDeposit',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		name: 'previewMint',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		name: 'previewRedeem',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+		],
+		name: 'previewWithdraw',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						components: [
+							{
+								internalType: 'address',
+								name: 'loanToken',
+								type: 'address',
+							},
+							{
+								internalType: 'address',
+								name: 'collateralToken',
+								type: 'address',
+							},
+							{
+								internalType: 'address',
+								name: 'oracle',
+								type: 'address',
+							},
+							{
+								internalType: 'address',
+								name: 'irm',
+								type: 'address',
+							},
+							{
+								internalType: 'uint256',
+								name: 'lltv',
+								type: 'uint256',
+							},
+						],
+						internalType: 'struct MarketParams',
+						name: 'marketParams',
+						type: 'tuple',
+					},
+					{
+						internalType: 'uint256',
+						name: 'assets',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct MarketAllocation[]',
+				name: 'allocations',
+				type: 'tuple[]',
+			},
+		],
+		name: 'reallocate',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+			{
+				internalType: 'address',
+				name: 'receiver',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+		],
+		name: 'redeem',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'renounceOwnership',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'Id',
+				name: 'id',
+				type: 'bytes32',
+			},
+		],
+		name: 'revokePendingCap',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'revokePendingGuardian',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'Id',
+				name: 'id',
+				type: 'bytes32',
+			},
+		],
+		name: 'revokePendingMarketRemoval',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'revokePendingTimelock',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'newCurator',
+				type: 'address',
+			},
+		],
+		name: 'setCurator',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'newFee',
+				type: 'uint256',
+			},
+		],
+		name: 'setFee',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'newFeeRecipient',
+				type: 'address',
+			},
+		],
+		name: 'setFeeRecipient',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'newAllocator',
+				type: 'address',
+			},
+			{
+				internalType: 'bool',
+				name: 'newIsAllocator',
+				type: 'bool',
+			},
+		],
+		name: 'setIsAllocator',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'string',
+				name: 'newName',
+				type: 'string',
+			},
+		],
+		name: 'setName',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'newSkimRecipient',
+				type: 'address',
+			},
+		],
+		name: 'setSkimRecipient',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'Id[]',
+				name: 'newSupplyQueue',
+				type: 'bytes32[]',
+			},
+		],
+		name: 'setSupplyQueue',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'string',
+				name: 'newSymbol',
+				type: 'string',
+			},
+		],
+		name: 'setSymbol',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		name: 'skim',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'skimRecipient',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'loanToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'collateralToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'oracle',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'irm',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'lltv',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct MarketParams',
+				name: 'marketParams',
+				type: 'tuple',
+			},
+			{
+				internalType: 'uint256',
+				name: 'newSupplyCap',
+				type: 'uint256',
+			},
+		],
+		name: 'submitCap',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'newGuardian',
+				type: 'address',
+			},
+		],
+		name: 'submitGuardian',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'loanToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'collateralToken',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'oracle',
+						type: 'address',
+					},
+					{
+						internalType: 'address',
+						name: 'irm',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'lltv',
+						type: 'uint256',
+					},
+				],
+				internalType: 'struct MarketParams',
+				name: 'marketParams',
+				type: 'tuple',
+			},
+		],
+		name: 'submitMarketRemoval',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'newTimelock',
+				type: 'uint256',
+			},
+		],
+		name: 'submitTimelock',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		name: 'supplyQueue',
+		outputs: [
+			{
+				internalType: 'Id',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'supplyQueueLength',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'symbol',
+		outputs: [
+			{
+				internalType: 'string',
+				name: '',
+				type: 'string',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'timelock',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'totalAssets',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'totalManagedAssets',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'totalSupply',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'to',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: 'value',
+				type: 'uint256',
+			},
+		],
+		name: 'transfer',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'from',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'to',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: 'value',
+				type: 'uint256',
+			},
+		],
+		name: 'transferFrom',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		name: 'transferOwnership',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256[]',
+				name: 'indexes',
+				type: 'uint256[]',
+			},
+		],
+		name: 'updateWithdrawQueue',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'assets',
+				type: 'uint256',
+			},
+			{
+				internalType: 'address',
+				name: 'receiver',
+				type: 'address',
+			},
+			{
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+		],
+		name: 'withdraw',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'shares',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		name: 'withdrawQueue',
+		outputs: [
+			{
+				internalType: 'Id',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'withdrawQueueLength',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+] as const;
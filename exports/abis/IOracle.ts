@@ -0,0 +1,15 @@
+export const IOracleABI = [
+	{
+		inputs: [],
+		name: 'price',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+] as const;
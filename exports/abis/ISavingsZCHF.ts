@@ -0,0 +1,450 @@
+export const ISavingsZCHFABI = [
+	{
+		inputs: [
+			{
+				internalType: 'uint40',
+				name: 'remainingSeconds',
+				type: 'uint40',
+			},
+		],
+		name: 'FundsLocked',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'ModuleDisabled',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint32',
+				name: 'fee',
+				type: 'uint32',
+			},
+		],
+		name: 'ReferralFeeTooHigh',
+		type: 'error',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'interest',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'referrerFee',
+				type: 'uint256',
+			},
+		],
+		name: 'InterestCollected',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'uint192',
+				name: 'amount',
+				type: 'uint192',
+			},
+		],
+		name: 'Saved',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'uint192',
+				name: 'amount',
+				type: 'uint192',
+			},
+		],
+		name: 'Withdrawn',
+		type: 'event',
+	},
+	{
+		inputs: [],
+		name: 'INTEREST_DELAY',
+		outputs: [
+			{
+				internalType: 'uint64',
+				name: '',
+				type: 'uint64',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'accountOwner',
+				type: 'address',
+			},
+		],
+		name: 'accruedInterest',
+		outputs: [
+			{
+				internalType: 'uint192',
+				name: '',
+				type: 'uint192',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'accountOwner',
+				type: 'address',
+			},
+			{
+				internalType: 'uint256',
+				name: 'timestamp',
+				type: 'uint256',
+			},
+		],
+		name: 'accruedInterest',
+		outputs: [
+			{
+				internalType: 'uint192',
+				name: '',
+				type: 'uint192',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint192',
+				name: 'targetAmount',
+				type: 'uint192',
+			},
+			{
+				internalType: 'address',
+				name: 'referrer',
+				type: 'address',
+			},
+			{
+				internalType: 'uint24',
+				name: 'referralFeePPM',
+				type: 'uint24',
+			},
+		],
+		name: 'adjust',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint192',
+				name: 'targetAmount',
+				type: 'uint192',
+			},
+		],
+		name: 'adjust',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'uint192',
+						name: 'saved',
+						type: 'uint192',
+					},
+					{
+						internalType: 'uint64',
+						name: 'ticks',
+						type: 'uint64',
+					},
+					{
+						internalType: 'address',
+						name: 'referrer',
+						type: 'address',
+					},
+					{
+						internalType: 'uint32',
+						name: 'referralFeePPM',
+						type: 'uint32',
+					},
+				],
+				internalType: 'struct ISavingsZCHF.Account',
+				name: 'account',
+				type: 'tuple',
+			},
+			{
+				internalType: 'uint64',
+				name: 'ticks',
+				type: 'uint64',
+			},
+		],
+		name: 'calculateInterest',
+		outputs: [
+			{
+				internalType: 'uint192',
+				name: '',
+				type: 'uint192',
+			},
+		],
+		stateMutability: 'pure',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'currentRatePPM',
+		outputs: [
+			{
+				internalType: 'uint24',
+				name: '',
+				type: 'uint24',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'currentTicks',
+		outputs: [
+			{
+				internalType: 'uint64',
+				name: '',
+				type: 'uint64',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'dropReferrer',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+		],
+		name: 'refreshBalance',
+		outputs: [
+			{
+				internalType: 'uint192',
+				name: '',
+				type: 'uint192',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'refreshMyBalance',
+		outputs: [
+			{
+				internalType: 'uint192',
+				name: '',
+				type: 'uint192',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'owner',
+				type: 'address',
+			},
+			{
+				internalType: 'uint192',
+				name: 'amount',
+				type: 'uint192',
+			},
+		],
+		name: 'save',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint192',
+				name: 'amount',
+				type: 'uint192',
+			},
+		],
+		name: 'save',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint192',
+				name: 'amount',
+				type: 'uint192',
+			},
+			{
+				internalType: 'address',
+				name: 'referrer',
+				type: 'address',
+			},
+			{
+				internalType: 'uint24',
+				name: 'referralFeePPM',
+				type: 'uint24',
+			},
+		],
+		name: 'save',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+		],
+		name: 'savings',
+		outputs: [
+			{
+				components: [
+					{
+						internalType: 'uint192',
+						name: 'saved',
+						type: 'uint192',
+					},
+					{
+						internalType: 'uint64',
+						name: 'ticks',
+						type: 'uint64',
+					},
+					{
+						internalType: 'address',
+						name: 'referrer',
+						type: 'address',
+					},
+					{
+						internalType: 'uint32',
+						name: 'referralFeePPM',
+						type: 'uint32',
+					},
+				],
+				internalType: 'struct ISavingsZCHF.Account',
+				name: '',
+				type: 'tuple',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+			{
+				internalType: 'uint192',
+				name: 'amount',
+				type: 'uint192',
+			},
+		],
+		name: 'withdraw',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint192',
+				name: 'amount',
+				type: 'uint192',
+			},
+			{
+				internalType: 'address',
+				name: 'referrer',
+				type: 'address',
+			},
+			{
+				internalType: 'uint24',
+				name: 'referralFeePPM',
+				type: 'uint24',
+			},
+		],
+		name: 'withdraw',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'zchf',
+		outputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+] as const;
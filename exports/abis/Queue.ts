@@ -0,0 +1,1609 @@
+export const QueueABI = [
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '_maxActions',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: '_maxValue',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'constructor',
+	},
+	{
+		inputs: [],
+		name: 'AccessControlBadConfirmation',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+			{
+				internalType: 'bytes32',
+				name: 'neededRole',
+				type: 'bytes32',
+			},
+		],
+		name: 'AccessControlUnauthorizedAccount',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'index',
+				type: 'uint256',
+			},
+		],
+		name: 'ActionExecutionFailed',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'deadline',
+				type: 'uint256',
+			},
+		],
+		name: 'AuthorizationExpired',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'BatchAlreadyExecuted',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint64',
+				name: 'expiry',
+				type: 'uint64',
+			},
+		],
+		name: 'BatchExpired',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+		],
+		name: 'BatchNotQueued',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint64',
+				name: 'eta',
+				type: 'uint64',
+			},
+		],
+		name: 'BatchNotReady',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'BatchSizeExceedsMaximum',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'DelayDecreaseNotQueued',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'eta',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'earliest',
+				type: 'uint256',
+			},
+		],
+		name: 'DelayTooShort',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'EnforcedPause',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'ExpectedPause',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'ImmediateExecutionDisabled',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'InvalidActionCount',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'InvalidExpiry',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'InvalidShortString',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'InvalidTargetAddress',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'signer',
+				type: 'address',
+			},
+			{
+				internalType: 'bytes32',
+				name: 'nonce',
+				type: 'bytes32',
+			},
+		],
+		name: 'NonceAlreadyUsed',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+			{
+				internalType: 'bytes4',
+				name: 'selector',
+				type: 'bytes4',
+			},
+		],
+		name: 'SelectorNotAllowed',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+			{
+				internalType: 'bytes4',
+				name: 'selector',
+				type: 'bytes4',
+			},
+			{
+				internalType: 'uint256',
+				name: 'maxValue',
+				type: 'uint256',
+			},
+		],
+		name: 'SelectorValueExceedsMaximum',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'SignatureInvalid',
+		type: 'error',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'string',
+				name: 'str',
+				type: 'string',
+			},
+		],
+		name: 'StringTooLong',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'TargetNotAllowed',
+		type: 'error',
+	},
+	{
+		inputs: [],
+		name: 'ValueExceedsMaximum',
+		type: 'error',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'actionIndex',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'bytes',
+				name: 'reason',
+				type: 'bytes',
+			},
+		],
+		name: 'ActionFailed',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'signer',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'bytes32',
+				name: 'nonce',
+				type: 'bytes32',
+			},
+		],
+		name: 'AuthorizationCanceled',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+		],
+		name: 'BatchCancelled',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'executor',
+				type: 'address',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				indexed: false,
+				internalType: 'struct Queue.Action[]',
+				name: 'actions',
+				type: 'tuple[]',
+			},
+			{
+				indexed: false,
+				internalType: 'bool[]',
+				name: 'results',
+				type: 'bool[]',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'allowFailureMap',
+				type: 'uint256',
+			},
+		],
+		name: 'BatchExecuted',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				indexed: false,
+				internalType: 'struct Queue.Action[]',
+				name: 'actions',
+				type: 'tuple[]',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'allowFailureMap',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint64',
+				name: 'eta',
+				type: 'uint64',
+			},
+			{
+				indexed: false,
+				internalType: 'uint64',
+				name: 'expiry',
+				type: 'uint64',
+			},
+		],
+		name: 'BatchQueued',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [],
+		name: 'EIP712DomainChanged',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'oldDelay',
+				type: 'uint256',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'newDelay',
+				type: 'uint256',
+			},
+		],
+		name: 'MinDelayChanged',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'signer',
+				type: 'address',
+			},
+			{
+				indexed: false,
+				internalType: 'bytes32',
+				name: 'nonce',
+				type: 'bytes32',
+			},
+		],
+		name: 'NonceUsed',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+		],
+		name: 'Paused',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'bytes32',
+				name: 'role',
+				type: 'bytes32',
+			},
+			{
+				indexed: true,
+				internalType: 'bytes32',
+				name: 'previousAdminRole',
+				type: 'bytes32',
+			},
+			{
+				indexed: true,
+				internalType: 'bytes32',
+				name: 'newAdminRole',
+				type: 'bytes32',
+			},
+		],
+		name: 'RoleAdminChanged',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'bytes32',
+				name: 'role',
+				type: 'bytes32',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'sender',
+				type: 'address',
+			},
+		],
+		name: 'RoleGranted',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'bytes32',
+				name: 'role',
+				type: 'bytes32',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'sender',
+				type: 'address',
+			},
+		],
+		name: 'RoleRevoked',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'bytes4',
+				name: 'selector',
+				type: 'bytes4',
+			},
+			{
+				indexed: false,
+				internalType: 'uint256',
+				name: 'maxValue',
+				type: 'uint256',
+			},
+		],
+		name: 'SelectorAllowed',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+			{
+				indexed: true,
+				internalType: 'bytes4',
+				name: 'selector',
+				type: 'bytes4',
+			},
+		],
+		name: 'SelectorDisallowed',
+		type: 'event',
+	},
+	{
+		anonymous: false,
+		inputs: [
+			{
+				indexed: true,
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+		],
+		name: 'Unpaused',
+		type: 'event',
+	},
+	{
+		inputs: [],
+		name: 'ACTION_TYPEHASH',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'CANCELLER_ROLE',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'DEFAULT_ADMIN_ROLE',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'EXECUTOR_ROLE',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'NO_VALUE_CAP',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'PAUSER_ROLE',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'PROPOSER_ROLE',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'SIGNED_BATCH_TYPEHASH',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'SIGNER_ROLE',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+			{
+				internalType: 'bytes4',
+				name: 'selector',
+				type: 'bytes4',
+			},
+			{
+				internalType: 'uint256',
+				name: 'maxValue',
+				type: 'uint256',
+			},
+		],
+		name: 'allowSelector',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+		],
+		name: 'allowTarget',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'batchConfig',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'maxActions',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'maxValue',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes32',
+				name: 'nonce',
+				type: 'bytes32',
+			},
+		],
+		name: 'cancelAuthorization',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+		],
+		name: 'cancelBatch',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'disableTargetRestrictions',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+			{
+				internalType: 'bytes4',
+				name: 'selector',
+				type: 'bytes4',
+			},
+		],
+		name: 'disallowSelector',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+		],
+		name: 'disallowTarget',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'eip712Domain',
+		outputs: [
+			{
+				internalType: 'bytes1',
+				name: 'fields',
+				type: 'bytes1',
+			},
+			{
+				internalType: 'string',
+				name: 'name',
+				type: 'string',
+			},
+			{
+				internalType: 'string',
+				name: 'version',
+				type: 'string',
+			},
+			{
+				internalType: 'uint256',
+				name: 'chainId',
+				type: 'uint256',
+			},
+			{
+				internalType: 'address',
+				name: 'verifyingContract',
+				type: 'address',
+			},
+			{
+				internalType: 'bytes32',
+				name: 'salt',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'uint256[]',
+				name: 'extensions',
+				type: 'uint256[]',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'emergencyWithdraw',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'amount',
+				type: 'uint256',
+			},
+		],
+		name: 'emergencyWithdrawAmount',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'enableTargetRestrictions',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Queue.Action[]',
+				name: 'actions',
+				type: 'tuple[]',
+			},
+			{
+				internalType: 'uint256',
+				name: 'allowFailureMap',
+				type: 'uint256',
+			},
+		],
+		name: 'executeBatch',
+		outputs: [
+			{
+				internalType: 'bool[]',
+				name: 'results',
+				type: 'bool[]',
+			},
+			{
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+		],
+		name: 'executeQueuedBatch',
+		outputs: [
+			{
+				internalType: 'bool[]',
+				name: 'results',
+				type: 'bool[]',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Queue.Action[]',
+				name: 'actions',
+				type: 'tuple[]',
+			},
+			{
+				internalType: 'uint256',
+				name: 'allowFailureMap',
+				type: 'uint256',
+			},
+			{
+				internalType: 'bytes32',
+				name: 'nonce',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'uint256',
+				name: 'deadline',
+				type: 'uint256',
+			},
+			{
+				internalType: 'bytes',
+				name: 'signature',
+				type: 'bytes',
+			},
+		],
+		name: 'executeSignedBatch',
+		outputs: [
+			{
+				internalType: 'bool[]',
+				name: 'results',
+				type: 'bool[]',
+			},
+			{
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		name: 'executedBatches',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+		],
+		name: 'getAllowedSelectors',
+		outputs: [
+			{
+				internalType: 'bytes4[]',
+				name: 'selectors',
+				type: 'bytes4[]',
+			},
+			{
+				internalType: 'uint256[]',
+				name: 'maxValues',
+				type: 'uint256[]',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'getAllowedTargets',
+		outputs: [
+			{
+				internalType: 'address[]',
+				name: '',
+				type: 'address[]',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'getBatchConfig',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'maxActions',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint256',
+				name: 'maxValue',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'getBatchCounter',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+		],
+		name: 'getQueuedBatch',
+		outputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Queue.Action[]',
+				name: 'actions',
+				type: 'tuple[]',
+			},
+			{
+				internalType: 'uint256',
+				name: 'allowFailureMap',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint64',
+				name: 'eta',
+				type: 'uint64',
+			},
+			{
+				internalType: 'uint64',
+				name: 'expiry',
+				type: 'uint64',
+			},
+			{
+				internalType: 'enum Queue.BatchState',
+				name: 'state',
+				type: 'uint8',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes32',
+				name: 'role',
+				type: 'bytes32',
+			},
+		],
+		name: 'getRoleAdmin',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'getSelectorTargets',
+		outputs: [
+			{
+				internalType: 'address[]',
+				name: '',
+				type: 'address[]',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes32',
+				name: 'role',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+		],
+		name: 'grantRole',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes32',
+				name: 'role',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+		],
+		name: 'hasRole',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Queue.Action[]',
+				name: 'actions',
+				type: 'tuple[]',
+			},
+			{
+				internalType: 'uint256',
+				name: 'allowFailureMap',
+				type: 'uint256',
+			},
+			{
+				internalType: 'bytes32',
+				name: 'nonce',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'uint256',
+				name: 'deadline',
+				type: 'uint256',
+			},
+		],
+		name: 'hashSignedBatch',
+		outputs: [
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+			{
+				internalType: 'bytes4',
+				name: 'selector',
+				type: 'bytes4',
+			},
+			{
+				internalType: 'uint256',
+				name: 'value',
+				type: 'uint256',
+			},
+		],
+		name: 'isCallAllowed',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: 'target',
+				type: 'address',
+			},
+		],
+		name: 'isTargetAllowed',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'minDelay',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: '',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'address',
+				name: '',
+				type: 'address',
+			},
+			{
+				internalType: 'bytes32',
+				name: '',
+				type: 'bytes32',
+			},
+		],
+		name: 'nonces',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'pause',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'paused',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Queue.Action[]',
+				name: 'actions',
+				type: 'tuple[]',
+			},
+			{
+				internalType: 'uint256',
+				name: 'allowFailureMap',
+				type: 'uint256',
+			},
+			{
+				internalType: 'uint64',
+				name: 'eta',
+				type: 'uint64',
+			},
+			{
+				internalType: 'uint64',
+				name: 'expiry',
+				type: 'uint64',
+			},
+		],
+		name: 'queueBatch',
+		outputs: [
+			{
+				internalType: 'uint256',
+				name: 'batchId',
+				type: 'uint256',
+			},
+		],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes32',
+				name: 'role',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'address',
+				name: 'callerConfirmation',
+				type: 'address',
+			},
+		],
+		name: 'renounceRole',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes32',
+				name: 'role',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'address',
+				name: 'account',
+				type: 'address',
+			},
+		],
+		name: 'revokeRole',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'maxActions',
+				type: 'uint256',
+			},
+		],
+		name: 'setMaxActions',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'maxValue',
+				type: 'uint256',
+			},
+		],
+		name: 'setMaxValue',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'uint256',
+				name: 'newDelay',
+				type: 'uint256',
+			},
+		],
+		name: 'setMinDelay',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				internalType: 'bytes4',
+				name: 'interfaceId',
+				type: 'bytes4',
+			},
+		],
+		name: 'supportsInterface',
+		outputs: [
+			{
+				internalType: 'bool',
+				name: '',
+				type: 'bool',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		inputs: [],
+		name: 'unpause',
+		outputs: [],
+		stateMutability: 'nonpayable',
+		type: 'function',
+	},
+	{
+		inputs: [
+			{
+				components: [
+					{
+						internalType: 'address',
+						name: 'target',
+						type: 'address',
+					},
+					{
+						internalType: 'uint256',
+						name: 'value',
+						type: 'uint256',
+					},
+					{
+						internalType: 'bytes',
+						name: 'data',
+						type: 'bytes',
+					},
+				],
+				internalType: 'struct Queue.Action[]',
+				name: 'actions',
+				type: 'tuple[]',
+			},
+			{
+				internalType: 'uint256',
+				name: 'allowFailureMap',
+				type: 'uint256',
+			},
+			{
+				internalType: 'bytes32',
+				name: 'nonce',
+				type: 'bytes32',
+			},
+			{
+				internalType: 'uint256',
+				name: 'deadline',
+				type: 'uint256',
+			},
+			{
+				internalType: 'bytes',
+				name: 'signature',
+				type: 'bytes',
+			},
+		],
+		name: 'verifyBatchSignature',
+		outputs: [
+			{
+				internalType: 'address',
+				name: 'signer',
+				type: 'address',
+			},
+		],
+		stateMutability: 'view',
+		type: 'function',
+	},
+	{
+		stateMutability: 'payable',
+		type: 'receive',
+	},
+] as const;
@@ -1,4 +1,5 @@
 import { arbitrum, avalanche, base, gnosis, mainnet, optimism, polygon, sonic } from 'viem/chains';
+import { zeroAddress } from 'viem';
 import { ChainAddressMap } from './address.types';
 
 export const ADDRESS: ChainAddressMap = {
@@ -10,11 +11,19 @@ export const ADDRESS: ChainAddressMap = {
 		// aragon daos
 		aragonWrytes: '0x5f238e89F3ba043CF202E1831446cA8C5cd40846',
 		aragonWrytLabs: '0x220B613fE70bf228C11F781A1d2bAEEA34f71809',
+		deployer: '0x0170F42f224b99CcbbeE673093589c5f9691dd06',
 
-		// savings vaults
+		// frankencoin
 		frankencoinSavings: '0x27d9AD987BdE08a0d083ef7e0e4043C857A17B38',
-		savingsVaultZCHF: '0x637F00cAb9665cB07d91bfB9c6f3fa8faBFEF8BC',
+
+		// savings vaults
+		savingsVaultZCHF: '0x637F00cAb9665cB07d91bfB9c6f3fa8faBFEF8BC', // deployed before permits, see SavingsVaultZCHF.sol
+		savingsVaultZCHF_2: '0xE5F130253fF137f9917C0107659A4c5262abf6b0',
 		savingsVaultZCHFMorpho: '0x2c89f7A92d4668124bC85E56a8d01D6B009e11e8',
+		savingsVaultZCHFMorpho_1: '0x37f6029310780c0e7E02032a63cFCD5e13598859',
+
+		// authorization
+		authorizationProcessor: '0x3874161854D0D5f13B4De2cB5061d9cff547466E',
 
 		// morpho related
 		morphoBlue: '0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb',
@@ -38,35 +47,119 @@ export const ADDRESS: ChainAddressMap = {
 		// identifier
 		chainId: 137,
 		chainSelector: '4051577828743386545',
+
+		// DAOs and owners
+		aragonWrytes: zeroAddress,
+		aragonWrytLabs: zeroAddress,
+		deployer: zeroAddress,
+
+		// frankencoin
+		zchf: zeroAddress,
+		frankencoinSavings: zeroAddress,
+
+		// savings vaults
+		savingsVaultZCHF_2: zeroAddress,
 	},
 	[arbitrum.id]: {
 		// identifier
 		chainId: 42161,
 		chainSelector: '4949039107694359620',
+
+		// DAOs and owners
+		aragonWrytes: zeroAddress,
+		aragonWrytLabs: zeroAddress,
+		deployer: zeroAddress,
+
+		// frankencoin
+		zchf: zeroAddress,
+		frankencoinSavings: zeroAddress,
+
+		// savings vaults
+		savingsVaultZCHF_2: zeroAddress,
 	},
 	[optimism.id]: {
 		// identifier
 		chainId: 10,
 		chainSelector: '3734403246176062136',
+
+		// DAOs and owners
+		aragonWrytes: zeroAddress,
+		aragonWrytLabs: zeroAddress,
+		deployer: zeroAddress,
+
+		// frankencoin
+		zchf: zeroAddress,
+		frankencoinSavings: zeroAddress,
+
+		// savings vaults
+		savingsVaultZCHF_2: zeroAddress,
 	},
 	[base.id]: {
 		// identifier
 		chainId: 8453,
 		chainSelector: '15971525489660198786',
+
+		// DAOs and owners
+		aragonWrytes: zeroAddress,
+		aragonWrytLabs: zeroAddress,
+		deployer: zeroAddress,
+
+		// frankencoin
+		zchf: zeroAddress,
+		frankencoinSavings: zeroAddress,
+
+		// savings vaults
+		savingsVaultZCHF_2: zeroAddress,
 	},
 	[avalanche.id]: {
 		// identifier
 		chainId: 43114,
 		chainSelector: '6433500567565415381',
+
+		// DAOs and owners
+		aragonWrytes: zeroAddress,
+		aragonWrytLabs: zeroAddress,
+		deployer: zeroAddress,
+
+		// frankencoin
+		zchf: zeroAddress,
+		frankencoinSavings: zeroAddress,
+
+		// savings vaults
+		savingsVaultZCHF_2: zeroAddress,
 	},
 	[gnosis.id]: {
 		// identifier
 		chainId: 100,
 		chainSelector: '465200170687744372',
+
+		// DAOs and owners
+		aragonWrytes: zeroAddress,
+		aragonWrytLabs: zeroAddress,
+		deployer: '0x0170F42f224b99CcbbeE673093589c5f9691dd06',
+
+		// frankencoin
+		zchf: '0xD4dD9e2F021BB459D5A5f6c24C12fE09c5D45553',
+		frankencoinSavings: '0xbF594D0feD79AE56d910Cb01b5dD4f4c57B04402',
+
+		// savings vaults
+		savingsVaultZCHF_2: '0x6165946250DD04740aB1409217E95a4f38374fE9',
 	},
 	[sonic.id]: {
 		// identifier
 		chainId: 146,
 		chainSelector: '1673871237479749969',
+
+		// DAOs and owners
+		aragonWrytes: zeroAddress,
+		aragonWrytLabs: zeroAddress,
+		deployer: zeroAddress,
+
+		// frankencoin
+		zchf: zeroAddress,
+		frankencoinSavings: zeroAddress,
+
+		// savings vaults
+		savingsVaultZCHF_2: zeroAddress,
 	},
 } as const;
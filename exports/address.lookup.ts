@@ -0,0 +1,85 @@
+import { Address, Hash, zeroAddress } from 'viem';
+import { ADDRESS } from './address.config';
+import { ChainAddressMap, ChainId } from './address.types';
+
+// named entries of a chain, without its identifiers
+export type ChainAddressKey<T extends ChainId> = Exclude<keyof ChainAddressMap[T], 'chainId' | 'chainSelector'>;
+
+// named entries of any chain
+export type ChainAddressName = { [T in ChainId]: ChainAddressKey<T> }[ChainId];
+
+export type AddressLocation = {
+	chainId: ChainId;
+	key: string;
+};
+
+export class ChainNotSupportedError extends Error {
+	constructor(public readonly chainId: number | string) {
+		super(`Chain ${chainId} is not supported by ADDRESS`);
+		this.name = 'ChainNotSupportedError';
+	}
+}
+
+export class AddressNotDeployedError extends Error {
+	constructor(public readonly chainId: number, public readonly key: string) {
+		super(`${key} is not deployed on chain ${chainId}`);
+		this.name = 'AddressNotDeployedError';
+	}
+}
+
+// ---------------------------------------------------------------------------------------
+
+export function isChainId(chainId: number): chainId is ChainId {
+	return Object.prototype.hasOwnProperty.call(ADDRESS, chainId);
+}
+
+export function getChainAddresses<T extends ChainId>(chainId: T): ChainAddressMap[T] {
+	if (!isChainId(chainId)) throw new ChainNotSupportedError(chainId);
+	return ADDRESS[chainId];
+}
+
+export function getChainIdBySelector(chainSelector: string | bigint): ChainId {
+	const selector = chainSelector.toString();
+	const chain = Object.values(ADDRESS).find((c) => c.chainSelector == selector);
+	if (chain == undefined) throw new ChainNotSupportedError(selector);
+	return chain.chainId;
+}
+
+export function getChainAddressesBySelector(chainSelector: string | bigint): ChainAddressMap[ChainId] {
+	return getChainAddresses(getChainIdBySelector(chainSelector));
+}
+
+// ---------------------------------------------------------------------------------------
+
+// returns undefined if the key is unknown or not deployed (zeroAddress) on this chain
+export function findAddress<T extends ChainId, K extends ChainAddressKey<T>>(chainId: T, key: K): ChainAddressMap[T][K] | undefined {
+	const value = (getChainAddresses(chainId) as Record<string, unknown>)[key as string];
+	if (typeof value != 'string' || value == zeroAddress) return undefined;
+	return value as ChainAddressMap[T][K];
+}
+
+export function requireAddress<T extends ChainId, K extends ChainAddressKey<T>>(chainId: T, key: K): ChainAddressMap[T][K] {
+	const value = findAddress(chainId, key);
+	if (value == undefined) throw new AddressNotDeployedError(chainId, key as string);
+	return value;
+}
+
+export function hasAddress<T extends ChainId>(chainId: T, key: ChainAddressKey<T> | string): boolean {
+	return findAddress(chainId, key as ChainAddressKey<T>) != undefined;
+}
+
+// all chains and names an address or market id is registered under
+export function lookupAddress(address: Address | Hash): AddressLocation[] {
+	const needle = address.toLowerCase();
+	const found: AddressLocation[] = [];
+
+	for (const chain of Object.values(ADDRESS)) {
+		for (const [key, value] of Object.entries(chain)) {
+			if (key == 'chainId' || key == 'chainSelector') continue;
+			if (typeof value != 'string' || value == zeroAddress) continue;
+			if (value.toLowerCase() == needle) found.push({ chainId: chain.chainId, key });
+		}
+	}
+
+	return found;
+}
@@ -22,11 +22,19 @@ export type ChainAddressMainnet = {
 	// DAOs and owners
 	aragonWrytes: Address;
 	aragonWrytLabs: Address;
+	deployer: Address;
 
-	// savings vaults
+	// frankencoin
 	frankencoinSavings: Address;
+
+	// savings vaults
 	savingsVaultZCHF: Address;
+	savingsVaultZCHF_2: Address;
 	savingsVaultZCHFMorpho: Address;
+	savingsVaultZCHFMorpho_1: Address;
+
+	// authorization
+	authorizationProcessor: Address;
 
 	// morpho related
 	morphoBlue: Address;
@@ -47,47 +55,32 @@ export type ChainAddressMainnet = {
 	zchf: Address;
 };
 
-export type ChainAddressPolygon = {
+// shared layout of all side chains, zeroAddress if not (yet) deployed
+export type ChainAddressSide<T extends ChainIdSide> = {
 	// identifier
-	chainId: typeof polygon.id;
+	chainId: T;
 	chainSelector: string;
-};
 
-export type ChainAddressArbitrum = {
-	// identifier
-	chainId: typeof arbitrum.id;
-	chainSelector: string;
-};
-
-export type ChainAddressOptimism = {
-	// identifier
-	chainId: typeof optimism.id;
-	chainSelector: string;
-};
-
-export type ChainAddressBase = {
-	// identifier
-	chainId: typeof base.id;
-	chainSelector: string;
-};
+	// DAOs and owners
+	aragonWrytes: Address;
+	aragonWrytLabs: Address;
+	deployer: Address;
 
-export type ChainAddressAvalanche = {
-	// identifier
-	chainId: typeof avalanche.id;
-	chainSelector: string;
-};
+	// frankencoin
+	zchf: Address;
+	frankencoinSavings: Address;
 
-export type ChainAddressGnosis = {
-	// identifier
-	chainId: typeof gnosis.id;
-	chainSelector: string;
+	// savings vaults
+	savingsVaultZCHF_2: Address;
 };
 
-export type ChainAddressSonic = {
-	// identifier
-	chainId: typeof sonic.id;
-	chainSelector: string;
-};
+export type ChainAddressPolygon = ChainAddressSide<typeof polygon.id>;
+export type ChainAddressArbitrum = ChainAddressSide<typeof arbitrum.id>;
+export type ChainAddressOptimism = ChainAddressSide<typeof optimism.id>;
+export type ChainAddressBase = ChainAddressSide<typeof base.id>;
+export type ChainAddressAvalanche = ChainAddressSide<typeof avalanche.id>;
+export type ChainAddressGnosis = ChainAddressSide<typeof gnosis.id>;
+export type ChainAddressSonic = ChainAddressSide<typeof sonic.id>;
 
 export type ChainAddressMap = {
 	[mainnet.id]: ChainAddressMainnet;
@@ -0,0 +1,72 @@
+import { Account, Address, Chain, Hex, LocalAccount, Transport, WalletClient, recoverTypedDataAddress } from 'viem';
+import { generatePrivateKey } from 'viem/accounts';
+import {
+	AUTHORIZATION_DOMAIN_NAME,
+	AUTHORIZATION_DOMAIN_VERSION,
+	AUTHORIZATION_TYPES,
+	Authorization,
+	AuthorizationDomain,
+	AuthorizationMessage,
+	AuthorizationParams,
+} from './authorization.types';
+
+export type AuthorizationSigner = LocalAccount | WalletClient<Transport, Chain | undefined, Account>;
+
+// local accounts sign themselves, wallet clients sign for their account
+export function isLocalAccount(signer: AuthorizationSigner): signer is LocalAccount {
+	return signer.type === 'local';
+}
+
+export function getAuthorizationDomain(chainId: number, verifyingContract: Address): AuthorizationDomain {
+	return {
+		name: AUTHORIZATION_DOMAIN_NAME,
+		version: AUTHORIZATION_DOMAIN_VERSION,
+		chainId,
+		verifyingContract,
+	};
+}
+
+// 32 random bytes, viem's key generator draws them from a secure source in browsers and node
+export function generateAuthorizationNonce(): Hex {
+	return generatePrivateKey();
+}
+
+export function getAuthorizationMessage(params: AuthorizationParams): AuthorizationMessage {
+	return {
+		kind: params.kind,
+		from: params.from,
+		to: params.to,
+		token: params.token,
+		amount: params.amount,
+		nonce: params.nonce ?? generateAuthorizationNonce(),
+		validAfter: params.validAfter ?? 0n,
+		validBefore: params.validBefore,
+	};
+}
+
+export async function signAuthorization(signer: AuthorizationSigner, params: AuthorizationParams): Promise<Authorization> {
+	const message = getAuthorizationMessage(params);
+	const typedData = {
+		domain: getAuthorizationDomain(params.chainId, params.verifyingContract),
+		types: AUTHORIZATION_TYPES,
+		primaryType: 'Authorization',
+		message,
+	} as const;
+
+	const signature = isLocalAccount(signer)
+		? await signer.signTypedData(typedData)
+		: await signer.signTypedData({ account: signer.account, ...typedData });
+
+	return { ...message, signature };
+}
+
+export async function recoverAuthorizationSigner(chainId: number, verifyingContract: Address, auth: Authorization): Promise<Address> {
+	const { signature, ...message } = auth;
+	return recoverTypedDataAddress({
+		domain: getAuthorizationDomain(chainId, verifyingContract),
+		types: AUTHORIZATION_TYPES,
+		primaryType: 'Authorization',
+		message,
+		signature,
+	});
+}
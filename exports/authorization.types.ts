@@ -0,0 +1,64 @@
+import { Address, Hex } from 'viem';
+
+// mirrors `enum OperationKind` in contracts/auth/AuthorizationProcessor.sol
+export enum OperationKind {
+	TRANSFER = 0,
+	DEPOSIT = 1,
+	PROCESS = 2,
+	CLAIM = 3,
+}
+
+// EIP-712 domain of AuthorizationProcessor, see `EIP712('AuthorizationProcessor', '1')`
+export const AUTHORIZATION_DOMAIN_NAME = 'AuthorizationProcessor';
+export const AUTHORIZATION_DOMAIN_VERSION = '1';
+
+// must match `AUTHORIZATION_TYPEHASH` in AuthorizationProcessor.sol
+export const AUTHORIZATION_TYPES = {
+	Authorization: [
+		{ name: 'kind', type: 'uint8' },
+		{ name: 'from', type: 'address' },
+		{ name: 'to', type: 'address' },
+		{ name: 'token', type: 'address' },
+		{ name: 'amount', type: 'uint256' },
+		{ name: 'nonce', type: 'bytes32' },
+		{ name: 'validAfter', type: 'uint256' },
+		{ name: 'validBefore', type: 'uint256' },
+	],
+} as const;
+
+export type AuthorizationDomain = {
+	name: typeof AUTHORIZATION_DOMAIN_NAME;
+	version: typeof AUTHORIZATION_DOMAIN_VERSION;
+	chainId: number;
+	verifyingContract: Address;
+};
+
+// signed part of the struct
+export type AuthorizationMessage = {
+	kind: OperationKind;
+	from: Address;
+	to: Address;
+	token: Address;
+	amount: bigint;
+	nonce: Hex;
+	validAfter: bigint;
+	validBefore: bigint;
+};
+
+// full `struct Authorization`, keys in solidity field order
+export type Authorization = AuthorizationMessage & {
+	signature: Hex;
+};
+
+export type AuthorizationParams = {
+	chainId: number;
+	verifyingContract: Address;
+	kind: OperationKind;
+	from: Address;
+	to: Address;
+	token: Address;
+	amount: bigint;
+	nonce?: Hex; // random bytes32 if omitted
+	validAfter?: bigint; // 0 if omitted
+	validBefore: bigint;
+};
@@ -0,0 +1,241 @@
+import { Address, Hex, PublicClient, decodeAbiParameters, encodeAbiParameters, encodeFunctionData, erc20Abi, maxUint256, size } from 'viem';
+import { FlashloanOrchestratorABI } from './abis/FlashloanOrchestrator';
+import { IMorphoABI } from './abis/IMorpho';
+import {
+	CLOSE_FLASH_BUFFER_BPS,
+	CloseParams,
+	DecreaseLeverageParams,
+	EncodedCall,
+	FlashloanAction,
+	FlashloanExecuteArgs,
+	FlashloanTransaction,
+	IncreaseLeverageParams,
+	LEVERAGE_SCALE,
+	LeveragePosition,
+	MorphoAuthorization,
+	SavingsHookContext,
+	SavingsHookLimits,
+	SavingsHookOpcode,
+	SwapHookOpcode,
+	TokenApproval,
+} from './flashloan.types';
+import { MarketParams } from './position.types';
+
+const SAVINGS_HOOK_LIMITS = {
+	type: 'tuple',
+	components: [
+		{ name: 'minAmountOut', type: 'uint256' },
+		{ name: 'maxRepay', type: 'uint256' },
+		{ name: 'deadline', type: 'uint256' },
+	],
+} as const;
+
+// bare opcode without limits, as understood by hooks deployed before the limits were added
+export function encodeSavingsHookData(opcode: SavingsHookOpcode, limits?: SavingsHookLimits): Hex {
+	if (limits == undefined) return encodeAbiParameters([{ type: 'uint8' }], [opcode]);
+
+	const { minAmountOut = 0n, maxRepay = 0n, deadline = 0n } = limits;
+	return encodeAbiParameters([{ type: 'uint8' }, SAVINGS_HOOK_LIMITS], [opcode, { minAmountOut, maxRepay, deadline }]);
+}
+
+export function decodeSavingsHookData(data: Hex): { opcode: SavingsHookOpcode; limits?: SavingsHookLimits } {
+	if (size(data) == 32) {
+		const [opcode] = decodeAbiParameters([{ type: 'uint8' }], data);
+		return { opcode };
+	}
+
+	const [opcode, limits] = decodeAbiParameters([{ type: 'uint8' }, SAVINGS_HOOK_LIMITS], data);
+	return { opcode, limits: { ...limits } };
+}
+
+// path is encoded with encodePath, input and output token are checked against the market by the hook
+export function encodeSwapHookData(opcode: SwapHookOpcode, market: MarketParams, path: Hex, amountOutMinimum: bigint = 0n): Hex {
+	return encodeAbiParameters(
+		[
+			{ type: 'uint8' },
+			{
+				type: 'tuple',
+				components: [
+					{ name: 'loanToken', type: 'address' },
+					{ name: 'collateralToken', type: 'address' },
+					{ name: 'oracle', type: 'address' },
+					{ name: 'irm', type: 'address' },
+					{ name: 'lltv', type: 'uint256' },
+				],
+			},
+			{ type: 'bytes' },
+			{ type: 'uint256' },
+		],
+		[opcode, market, path, amountOutMinimum]
+	);
+}
+
+// deadline in seconds from now, for the limits of a transaction
+export function getDeadline(seconds: number, now: bigint = BigInt(Math.floor(Date.now() / 1000))): bigint {
+	return now + BigInt(seconds);
+}
+
+// lower bound of an expected amount, e.g. minAmountOut from vault.previewDeposit
+export function applySlippage(amount: bigint, slippageBps: bigint): bigint {
+	return amount - (amount * slippageBps) / 10_000n;
+}
+
+export function getTokenApproval(token: Address, spender: Address, amount: bigint): TokenApproval {
+	return {
+		to: token,
+		data: encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [spender, amount] }),
+		value: 0n,
+		token,
+		spender,
+		amount,
+	};
+}
+
+export function getMorphoAuthorization(morpho: Address, authorized: Address): MorphoAuthorization {
+	return {
+		to: morpho,
+		data: encodeFunctionData({ abi: IMorphoABI, functionName: 'setAuthorization', args: [authorized, true] }),
+		value: 0n,
+		morpho,
+		authorized,
+	};
+}
+
+// ---------------------------------------------------------------------------------------
+
+// equity of a position in ZCHF, collateral valued with the svZCHF price
+export function getPositionEquity(position: LeveragePosition): bigint {
+	return (position.collateral * position.price) / LEVERAGE_SCALE - position.debt;
+}
+
+function buildTransaction(
+	context: SavingsHookContext,
+	opcode: SavingsHookOpcode,
+	provided: [Address, bigint][],
+	flashToken: Address,
+	flashAmount: bigint,
+	limits?: SavingsHookLimits
+): FlashloanTransaction {
+	if (flashAmount <= 0n) throw new Error('Flash amount must be greater than zero');
+
+	// only tokens actually provided by the wallet need to be listed and approved
+	const inputs = provided.filter(([, amount]) => amount > 0n);
+	const action: FlashloanAction = { target: context.hook, value: 0n, data: encodeSavingsHookData(opcode, limits) };
+	const args: FlashloanExecuteArgs = [inputs.map(([t]) => t), inputs.map(([, a]) => a), flashToken, flashAmount, [action]];
+
+	return {
+		to: context.orchestrator,
+		data: encodeFunctionData({ abi: FlashloanOrchestratorABI, functionName: 'execute', args }),
+		value: 0n,
+		opcode,
+		limits,
+		args,
+		approvals: inputs.map(([token, amount]) => getTokenApproval(token, context.orchestrator, amount)),
+		authorization: getMorphoAuthorization(context.morpho, context.hook),
+	};
+}
+
+// ---------------------------------------------------------------------------------------
+
+// flashes ZCHF, deposits wallet amount + flash into the vault and borrows the flash amount against it
+export function buildIncreaseLeverage(context: SavingsHookContext, params: IncreaseLeverageParams): FlashloanTransaction {
+	if (params.leverage <= LEVERAGE_SCALE) throw new Error('Target leverage must be greater than 1x');
+
+	const provided = params.collateral ?? 0n;
+	const position = params.position ?? { collateral: 0n, debt: 0n, price: LEVERAGE_SCALE };
+	const collateral = position.collateral + provided;
+
+	// exposure after = equity * leverage = collateral value + amount + flash
+	const equity = getPositionEquity({ ...position, collateral }) + params.amount;
+	const exposure = (collateral * position.price) / LEVERAGE_SCALE + params.amount;
+	const flashAmount = (equity * params.leverage) / LEVERAGE_SCALE - exposure;
+
+	if (flashAmount <= 0n) throw new Error('Position is already at or above the target leverage');
+
+	return buildTransaction(
+		context,
+		SavingsHookOpcode.INCREASE_LEVERAGE,
+		[
+			[context.loanToken, params.amount],
+			[context.collateralToken, provided],
+		],
+		context.loanToken,
+		flashAmount,
+		params.limits
+	);
+}
+
+// flashes svZCHF, redeems it to repay debt and withdraws the flashed collateral
+export function buildDecreaseLeverage(context: SavingsHookContext, params: DecreaseLeverageParams): FlashloanTransaction {
+	// repaying the full debt needs the close operations, the redeemed amount would not match the debt exactly
+	if (params.leverage <= LEVERAGE_SCALE) throw new Error('Target leverage must be greater than 1x, use a close operation instead');
+
+	const { position } = params;
+	const amount = params.amount ?? 0n;
+
+	// exposure after = (equity + amount) * leverage = collateral value - flash value
+	const equity = getPositionEquity(position) + amount;
+	if (equity <= 0n) throw new Error('Position has no equity left');
+
+	const reduce = (position.collateral * position.price) / LEVERAGE_SCALE - (equity * params.leverage) / LEVERAGE_SCALE;
+	const flashAmount = (reduce * LEVERAGE_SCALE) / position.price;
+
+	if (flashAmount <= 0n) throw new Error('Position is already at or below the target leverage');
+
+	return buildTransaction(
+		context,
+		SavingsHookOpcode.DECREASE_LEVERAGE,
+		[[context.loanToken, amount]],
+		context.collateralToken,
+		flashAmount,
+		params.limits
+	);
+}
+
+function closeFlashAmount(params: CloseParams): bigint {
+	const buffer = params.bufferBps ?? CLOSE_FLASH_BUFFER_BPS;
+	return params.debt + (params.debt * buffer) / 10_000n;
+}
+
+// flashes ZCHF to repay all debt, redeems all collateral and sends the equity in ZCHF
+export function buildCloseToLoan(context: SavingsHookContext, params: CloseParams): FlashloanTransaction {
+	return buildTransaction(context, SavingsHookOpcode.CLOSE_TO_LOAN, [], context.loanToken, closeFlashAmount(params), params.limits);
+}
+
+// flashes ZCHF to repay all debt, redeems only what is needed and sends the equity in svZCHF
+export function buildCloseToCollateral(context: SavingsHookContext, params: CloseParams): FlashloanTransaction {
+	return buildTransaction(context, SavingsHookOpcode.CLOSE_TO_COLLATERAL, [], context.loanToken, closeFlashAmount(params), params.limits);
+}
+
+// ---------------------------------------------------------------------------------------
+
+// approvals and authorization the wallet still has to send before the transaction, in order
+export async function getMissingPreconditions(
+	client: PublicClient,
+	account: Address,
+	tx: FlashloanTransaction,
+	approveMax: boolean = false
+): Promise<EncodedCall[]> {
+	const missing: EncodedCall[] = [];
+
+	const authorized = await client.readContract({
+		address: tx.authorization.morpho,
+		abi: IMorphoABI,
+		functionName: 'isAuthorized',
+		args: [account, tx.authorization.authorized],
+	});
+	if (!authorized) missing.push(tx.authorization);
+
+	for (const approval of tx.approvals) {
+		const allowance = await client.readContract({
+			address: approval.token,
+			abi: erc20Abi,
+			functionName: 'allowance',
+			args: [account, approval.spender],
+		});
+		if (allowance >= approval.amount) continue;
+		missing.push(approveMax ? getTokenApproval(approval.token, approval.spender, maxUint256) : approval);
+	}
+
+	return missing;
+}
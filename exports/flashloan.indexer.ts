@@ -0,0 +1,172 @@
+import { Address, PublicClient, getAbiItem, getAddress } from 'viem';
+import { FlashloanHook_SavingsVaultZCHFABI } from './abis/FlashloanHook_SavingsVaultZCHF';
+import { FlashloanOrchestratorABI } from './abis/FlashloanOrchestrator';
+import { SavingsHookOpcode } from './flashloan.types';
+import {
+	FlashloanActivity,
+	FlashloanHookExecution,
+	FlashloanIndexerConfig,
+	FlashloanIndexerState,
+	FlashloanIndexerStore,
+} from './flashloan.indexer.types';
+
+const ORCHESTRATOR_EXECUTED = getAbiItem({ abi: FlashloanOrchestratorABI, name: 'Executed' });
+const HOOK_EXECUTED = getAbiItem({ abi: FlashloanHook_SavingsVaultZCHFABI, name: 'Executed' });
+
+const DEFAULT_BATCH_SIZE = 2000n;
+
+// position of a log in the chain
+type LogPosition = {
+	address: Address;
+	blockNumber: bigint;
+	transactionHash: `0x${string}`;
+	logIndex: number;
+};
+
+export type OrchestratorExecutedLog = LogPosition & { args: { sender: Address; target: Address } };
+export type HookExecutedLog = LogPosition & { args: Omit<FlashloanHookExecution, 'operation'> };
+
+export function getSavingsHookOperation(opcode: number): string {
+	return SavingsHookOpcode[opcode] ?? `UNKNOWN_${opcode}`;
+}
+
+export function createFlashloanIndexerState(): FlashloanIndexerState {
+	return { cursors: {}, hooks: {}, histories: {} };
+}
+
+// drops the cursor and activities of an orchestrator, so the next run indexes it from the start
+function resetOrchestrator(state: FlashloanIndexerState, orchestrator: Address) {
+	delete state.cursors[orchestrator];
+	delete state.hooks[orchestrator];
+	for (const [user, history] of Object.entries(state.histories) as [Address, FlashloanActivity[]][]) {
+		const kept = history.filter((a) => a.orchestrator != orchestrator);
+		if (kept.length > 0) state.histories[user] = kept;
+		else delete state.histories[user];
+	}
+}
+
+// ---------------------------------------------------------------------------------------
+
+// a hook emits its Executed before the orchestrator emits Executed for the same action,
+// so each orchestrator log takes the earliest unmatched hook log of its target in the same transaction
+export function getFlashloanActivity(orchestratorLogs: OrchestratorExecutedLog[], hookLogs: HookExecutedLog[]): FlashloanActivity[] {
+	const byPosition = (a: LogPosition, b: LogPosition) =>
+		a.blockNumber == b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1;
+	const unmatched = [...hookLogs].sort(byPosition);
+
+	return [...orchestratorLogs].sort(byPosition).map((log) => {
+		const index = unmatched.findIndex(
+			(h) =>
+				h.transactionHash == log.transactionHash &&
+				h.logIndex < log.logIndex &&
+				getAddress(h.address) == getAddress(log.args.target)
+		);
+		const [hook] = index >= 0 ? unmatched.splice(index, 1) : [];
+
+		const activity: FlashloanActivity = {
+			user: getAddress(log.args.sender),
+			orchestrator: getAddress(log.address),
+			target: getAddress(log.args.target),
+			blockNumber: log.blockNumber,
+			transactionHash: log.transactionHash,
+			logIndex: log.logIndex,
+		};
+		if (hook) activity.hook = { ...hook.args, operation: getSavingsHookOperation(hook.args.opcode) };
+
+		return activity;
+	});
+}
+
+// pulls the logs up to the confirmed head in batches, the store is saved after each batch.
+// a changed hook set reindexes the orchestrator from config.fromBlock, so added hooks are backfilled
+export async function indexFlashloanActivity(
+	client: PublicClient,
+	config: FlashloanIndexerConfig,
+	store: FlashloanIndexerStore = createMemoryStore()
+): Promise<FlashloanIndexerState> {
+	const state = (await store.load()) ?? createFlashloanIndexerState();
+	state.hooks ??= {}; // states stored before hooks were tracked
+	const orchestrator = getAddress(config.orchestrator);
+	const hooks = [...new Set(config.hooks.map((h) => getAddress(h)))].sort();
+	const batchSize = config.batchSize ?? DEFAULT_BATCH_SIZE;
+	if (batchSize <= 0n) throw new Error('Batch size must be greater than zero');
+
+	if (state.cursors[orchestrator] !== undefined && state.hooks[orchestrator]?.join() != hooks.join()) {
+		resetOrchestrator(state, orchestrator);
+	}
+
+	const cursor = state.cursors[orchestrator];
+	const head = (await client.getBlockNumber({ cacheTime: 0 })) - (config.confirmations ?? 0n);
+	let fromBlock = cursor === undefined ? config.fromBlock : cursor + 1n;
+
+	while (fromBlock <= head) {
+		const toBlock = fromBlock + batchSize - 1n < head ? fromBlock + batchSize - 1n : head;
+
+		const orchestratorLogs = await client.getLogs({
+			address: orchestrator,
+			event: ORCHESTRATOR_EXECUTED,
+			fromBlock,
+			toBlock,
+			strict: true,
+		});
+		const hookLogs =
+			hooks.length > 0 ? await client.getLogs({ address: hooks, event: HOOK_EXECUTED, fromBlock, toBlock, strict: true }) : [];
+
+		for (const activity of getFlashloanActivity(orchestratorLogs, hookLogs)) {
+			(state.histories[activity.user] ??= []).push(activity);
+		}
+
+		state.cursors[orchestrator] = toBlock;
+		state.hooks[orchestrator] = hooks;
+		await store.save(state);
+		fromBlock = toBlock + 1n;
+	}
+
+	return state;
+}
+
+export function getUserHistory(state: FlashloanIndexerState, user: Address): FlashloanActivity[] {
+	return state.histories[getAddress(user)] ?? [];
+}
+
+// ---------------------------------------------------------------------------------------
+// stores
+
+export function createMemoryStore(initial?: FlashloanIndexerState): FlashloanIndexerStore {
+	let stored = initial ? structuredClone(initial) : undefined;
+	return {
+		load: async () => (stored ? structuredClone(stored) : undefined),
+		save: async (state) => {
+			stored = structuredClone(state);
+		},
+	};
+}
+
+// bigints are stored as decimal strings with an `n` suffix
+export function serializeIndexerState(state: FlashloanIndexerState): string {
+	return JSON.stringify(state, (_, value) => (typeof value === 'bigint' ? `${value}n` : value), '\t');
+}
+
+export function deserializeIndexerState(json: string): FlashloanIndexerState {
+	return JSON.parse(json, (_, value) => (typeof value === 'string' && /^-?\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value));
+}
+
+// node only, the file is replaced by a rename so an interrupted save keeps the previous cursor
+export function createJsonFileStore(path: string): FlashloanIndexerStore {
+	return {
+		load: async () => {
+			const { readFile } = await import('fs/promises');
+			try {
+				return deserializeIndexerState(await readFile(path, 'utf8'));
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code == 'ENOENT') return undefined;
+				throw error;
+			}
+		},
+		save: async (state) => {
+			const { rename, writeFile } = await import('fs/promises');
+			await writeFile(`${path}.tmp`, serializeIndexerState(state));
+			await rename(`${path}.tmp`, path);
+		},
+	};
+}
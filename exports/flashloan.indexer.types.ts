@@ -0,0 +1,42 @@
+import { Address, Hash } from 'viem';
+
+export type FlashloanIndexerConfig = {
+	orchestrator: Address;
+	hooks: Address[]; // FlashloanHook_SavingsVaultZCHF and FlashloanHook_ERC4626 instances, both emit the same Executed event
+	fromBlock: bigint; // deployment block of the orchestrator, where the first run starts
+	batchSize?: bigint; // blocks per getLogs request, 2000 by default
+	confirmations?: bigint; // blocks behind the head, 0 by default
+};
+
+// decoded `Executed(opcode, flash, amountIn, amountOut, provided)` of a hook
+export type FlashloanHookExecution = {
+	opcode: number;
+	operation: string; // SavingsHookOpcode name
+	flash: bigint;
+	amountIn: bigint;
+	amountOut: bigint;
+	provided: bigint;
+};
+
+// one action of an orchestrator execution
+export type FlashloanActivity = {
+	user: Address;
+	orchestrator: Address;
+	target: Address;
+	blockNumber: bigint;
+	transactionHash: Hash;
+	logIndex: number;
+	hook?: FlashloanHookExecution; // undefined for targets which are not indexed hooks
+};
+
+// per-user histories in chain order, the cursor is the last indexed block of each orchestrator
+export type FlashloanIndexerState = {
+	cursors: Record<Address, bigint>;
+	hooks: Record<Address, Address[]>; // hooks indexed up to the cursor of each orchestrator, sorted
+	histories: Record<Address, FlashloanActivity[]>;
+};
+
+export type FlashloanIndexerStore = {
+	load: () => Promise<FlashloanIndexerState | undefined>;
+	save: (state: FlashloanIndexerState) => Promise<void>;
+};
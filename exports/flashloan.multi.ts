@@ -0,0 +1,137 @@
+import { Address, encodeFunctionData, zeroAddress } from 'viem';
+import { FlashloanOrchestratorABI } from './abis/FlashloanOrchestrator';
+import {
+	EncodedCall,
+	Flashloan,
+	FlashloanAction,
+	FlashloanExecuteMultiArgs,
+	FlashloanExecuteNativeArgs,
+	FlashloanExecuteWithPermit2Args,
+	FlashloanExecuteWithPermitArgs,
+	FlashloanProvider,
+	FlashloanReference,
+	NativeOptions,
+} from './flashloan.types';
+import { NO_PERMIT } from './permit.signer';
+import { Permit, Permit2Transfer } from './permit.types';
+
+// merges duplicate tokens, Balancer additionally needs the tokens sorted ascending
+export function getFlashloan(provider: FlashloanProvider, lender: Address, loans: [Address, bigint][]): Flashloan {
+	if (loans.length == 0) throw new Error('At least one flashloan required');
+	if (provider != FlashloanProvider.MORPHO && lender == zeroAddress) throw new Error('Lender required');
+
+	const merged = new Map<string, [Address, bigint]>();
+	for (const [token, amount] of loans) {
+		if (amount <= 0n) throw new Error(`Flash amount of ${token} must be greater than zero`);
+		const prev = merged.get(token.toLowerCase());
+		merged.set(token.toLowerCase(), [token, (prev?.[1] ?? 0n) + amount]);
+	}
+
+	const sorted = [...merged.values()];
+	if (provider == FlashloanProvider.BALANCER) {
+		sorted.sort(([a], [b]) => (BigInt(a) < BigInt(b) ? -1 : 1));
+	}
+
+	return {
+		provider,
+		lender: provider == FlashloanProvider.MORPHO ? zeroAddress : lender,
+		tokens: sorted.map(([t]) => t),
+		amounts: sorted.map(([, a]) => a),
+	};
+}
+
+// fees of Balancer and ERC-3156 lenders are paid from the provided tokens, include them in provided
+export function buildExecuteMulti(
+	orchestrator: Address,
+	provided: [Address, bigint][],
+	flashloan: Flashloan,
+	actions: readonly FlashloanAction[],
+	references: readonly FlashloanReference[] = []
+): EncodedCall & { args: FlashloanExecuteMultiArgs } {
+	const args: FlashloanExecuteMultiArgs = [provided.map(([t]) => t), provided.map(([, a]) => a), flashloan, actions, references];
+
+	return {
+		to: orchestrator,
+		data: encodeFunctionData({ abi: FlashloanOrchestratorABI, functionName: 'executeMulti', args }),
+		value: 0n,
+		args,
+	};
+}
+
+// without wrap the ETH stays native for the action values, remaining ETH is refunded to the sender
+export function buildExecuteNative(
+	orchestrator: Address,
+	provided: [Address, bigint][],
+	flashloan: Flashloan,
+	actions: readonly FlashloanAction[],
+	native: NativeOptions,
+	references: readonly FlashloanReference[] = []
+): EncodedCall & { args: FlashloanExecuteNativeArgs } {
+	const args: FlashloanExecuteNativeArgs = [
+		provided.map(([t]) => t),
+		provided.map(([, a]) => a),
+		flashloan,
+		actions,
+		references,
+		native.wrap,
+		native.unwrap,
+	];
+
+	return {
+		to: orchestrator,
+		data: encodeFunctionData({ abi: FlashloanOrchestratorABI, functionName: 'executeNative', args }),
+		value: native.value,
+		args,
+	};
+}
+
+// permits by provided token, tokens without a permit have to be approved beforehand
+export function buildExecuteWithPermit(
+	orchestrator: Address,
+	provided: [Address, bigint, Permit?][],
+	flashloan: Flashloan,
+	actions: readonly FlashloanAction[],
+	references: readonly FlashloanReference[] = []
+): EncodedCall & { args: FlashloanExecuteWithPermitArgs } {
+	const args: FlashloanExecuteWithPermitArgs = [
+		provided.map(([t]) => t),
+		provided.map(([, a]) => a),
+		flashloan,
+		actions,
+		references,
+		provided.map(([, , p]) => p ?? NO_PERMIT),
+	];
+
+	return {
+		to: orchestrator,
+		data: encodeFunctionData({ abi: FlashloanOrchestratorABI, functionName: 'executeWithPermit', args }),
+		value: 0n,
+		args,
+	};
+}
+
+// the transfer has to be signed over all provided tokens in order, with the orchestrator as spender
+export function buildExecuteWithPermit2(
+	orchestrator: Address,
+	provided: [Address, bigint][],
+	flashloan: Flashloan,
+	actions: readonly FlashloanAction[],
+	transfer: Permit2Transfer,
+	references: readonly FlashloanReference[] = []
+): EncodedCall & { args: FlashloanExecuteWithPermit2Args } {
+	const args: FlashloanExecuteWithPermit2Args = [
+		provided.map(([t]) => t),
+		provided.map(([, a]) => a),
+		flashloan,
+		actions,
+		references,
+		transfer,
+	];
+
+	return {
+		to: orchestrator,
+		data: encodeFunctionData({ abi: FlashloanOrchestratorABI, functionName: 'executeWithPermit2', args }),
+		value: 0n,
+		args,
+	};
+}
@@ -0,0 +1,111 @@
+import { AbiParameter, Address, Hex, decodeAbiParameters, encodeAbiParameters, encodeFunctionData, zeroAddress, zeroHash } from 'viem';
+import { FlashloanOrchestratorABI } from './abis/FlashloanOrchestrator';
+import {
+	ActionOutput,
+	EncodedCall,
+	FlashloanAction,
+	FlashloanExecuteComposedArgs,
+	FlashloanPlan,
+	FlashloanPlanStep,
+	FlashloanReference,
+} from './flashloan.types';
+
+// types the orchestrator can copy as a single abi word
+const STATIC_WORD = /^(u?int\d*|address|bool|bytes([1-9]|[12]\d|3[0-2]))$/;
+
+// types occupying exactly one word in the abi head, either static or an offset to the tail
+const HEAD_WORD = /^(u?int\d*|address|bool|bytes\d*|string|.*\[\])$/;
+
+export function actionOutput(action: number, output: string | number): ActionOutput {
+	return { action, output };
+}
+
+function isActionOutput(arg: unknown): arg is ActionOutput {
+	return typeof arg == 'object' && arg != null && 'action' in arg && 'output' in arg;
+}
+
+function placeholder(type: string): unknown {
+	if (type == 'address') return zeroAddress;
+	if (type == 'bool') return false;
+	if (type.startsWith('bytes')) return zeroHash.slice(0, 2 + 2 * Number(type.slice(5))) as Hex;
+	return 0n;
+}
+
+// head word of the param at index, all params before have to be single word
+function wordIndex(params: readonly AbiParameter[], index: number, label: string): number {
+	if (index < 0 || index >= params.length) throw new Error(`${label}: unknown param ${index}`);
+	if (!STATIC_WORD.test(params[index].type)) throw new Error(`${label}: type ${params[index].type} can not be referenced`);
+
+	for (let i = 0; i < index; i++) {
+		if (!HEAD_WORD.test(params[i].type)) throw new Error(`${label}: type ${params[i].type} before the reference is not supported`);
+	}
+	return index;
+}
+
+function outputIndex(step: FlashloanPlanStep, output: string | number): number {
+	if (typeof output == 'number') return output;
+	return (step.outputs ?? []).findIndex((o) => o.name == output);
+}
+
+// ---------------------------------------------------------------------------------------
+
+// encodes the steps as actions, arguments referring to prior outputs become references patched onchain
+export function buildFlashloanPlan(steps: readonly FlashloanPlanStep[]): FlashloanPlan {
+	const actions: FlashloanAction[] = [];
+	const references: FlashloanReference[] = [];
+
+	steps.forEach((step, target) => {
+		if (step.args.length != step.params.length) throw new Error(`Step ${target}: expected ${step.params.length} args`);
+
+		const args = step.args.map((arg, i) => {
+			if (!isActionOutput(arg)) return arg;
+
+			const label = `Step ${target} arg ${i}`;
+			if (arg.action < 0 || arg.action >= target) throw new Error(`${label}: can only use outputs of prior steps`);
+
+			const source = steps[arg.action];
+			if (source.outputs == undefined) throw new Error(`${label}: step ${arg.action} has no outputs`);
+
+			references.push({
+				action: BigInt(arg.action),
+				word: BigInt(wordIndex(source.outputs, outputIndex(source, arg.output), label)),
+				target: BigInt(target),
+				offset: BigInt(wordIndex(step.params, i, label) * 32),
+			});
+			return placeholder(step.params[i].type);
+		});
+
+		actions.push({ target: step.target, value: step.value ?? 0n, data: encodeAbiParameters(step.params, args) });
+	});
+
+	return { steps, actions, references };
+}
+
+export function buildExecuteComposed(
+	orchestrator: Address,
+	provided: [Address, bigint][],
+	flashToken: Address,
+	flashAmount: bigint,
+	plan: FlashloanPlan
+): EncodedCall & { args: FlashloanExecuteComposedArgs } {
+	const args: FlashloanExecuteComposedArgs = [
+		provided.map(([t]) => t),
+		provided.map(([, a]) => a),
+		flashToken,
+		flashAmount,
+		plan.actions,
+		plan.references,
+	];
+
+	return {
+		to: orchestrator,
+		data: encodeFunctionData({ abi: FlashloanOrchestratorABI, functionName: 'executeComposed', args }),
+		value: 0n,
+		args,
+	};
+}
+
+// decodes the results returned by executeComposed with the outputs of each step
+export function decodePlanResults(plan: FlashloanPlan, results: readonly Hex[]): (readonly unknown[] | undefined)[] {
+	return plan.steps.map((step, i) => (step.outputs == undefined ? undefined : decodeAbiParameters(step.outputs, results[i])));
+}
@@ -0,0 +1,95 @@
+import {
+	Abi,
+	Address,
+	BaseError,
+	Hex,
+	PublicClient,
+	decodeErrorResult,
+	encodeFunctionData,
+	getAbiItem,
+	maxUint256,
+	zeroAddress,
+} from 'viem';
+import { FlashloanOrchestratorABI } from './abis/FlashloanOrchestrator';
+import {
+	FlashloanExecuteArgs,
+	FlashloanExecuteComposedArgs,
+	FlashloanExecuteMultiArgs,
+	FlashloanProvider,
+	FlashloanSimulationReport,
+	SIMULATION_OUTSIDE_ACTIONS,
+	SimulationError,
+} from './flashloan.types';
+
+const SIMULATION_RESULT = getAbiItem({ abi: FlashloanOrchestratorABI, name: 'SimulationResult' });
+
+// same execution as execute or executeComposed, as a single Morpho flashloan
+export function toExecuteMultiArgs(args: FlashloanExecuteArgs | FlashloanExecuteComposedArgs): FlashloanExecuteMultiArgs {
+	const [tokens, amounts, flashToken, flashAmount, actions, references = []] = args;
+	const flashloan = { provider: FlashloanProvider.MORPHO, lender: zeroAddress, tokens: [flashToken], amounts: [flashAmount] };
+	return [tokens, amounts, flashloan, actions, references];
+}
+
+function decodeError(data: Hex, abi: Abi): SimulationError | undefined {
+	try {
+		// Error(string) and Panic(uint256) are known to viem
+		const { errorName, args } = decodeErrorResult({ abi: [...FlashloanOrchestratorABI, ...abi], data });
+		return { name: errorName, args: args ?? [] };
+	} catch {
+		return undefined;
+	}
+}
+
+// revert data of the innermost error, as returned by eth_call
+function getRevertData(error: unknown): Hex | undefined {
+	if (!(error instanceof BaseError)) return undefined;
+	const raw = error.walk((e) => typeof (e as { data?: unknown }).data == 'string') as { data?: Hex } | null;
+	return raw?.data;
+}
+
+// decodes the revert data of simulate, other errors are thrown with their decoded name
+export function decodeSimulationReport(data: Hex, abi: Abi = []): FlashloanSimulationReport {
+	const error = decodeError(data, abi);
+	if (error?.name != 'SimulationResult') throw new Error(`Simulation did not report: ${error?.name ?? data}`);
+
+	const [report] = decodeErrorResult({ abi: [SIMULATION_RESULT], data }).args;
+
+	if (!report.success) {
+		const outside = report.failedIndex == maxUint256;
+		return {
+			success: false,
+			failedIndex: outside ? SIMULATION_OUTSIDE_ACTIONS : Number(report.failedIndex),
+			reason: report.reason,
+			error: decodeError(report.reason, abi),
+			results: report.results.slice(0, Number(report.failedIndex)),
+			deltas: [],
+		};
+	}
+
+	return {
+		success: true,
+		results: report.results,
+		deltas: report.tokens.map((token, i) => ({ token, delta: report.deltas[i] })),
+	};
+}
+
+// dry-run via eth_call from the account, abi of the hooks to decode their errors
+export async function simulateFlashloan(
+	client: PublicClient,
+	account: Address,
+	orchestrator: Address,
+	args: FlashloanExecuteMultiArgs,
+	abi: Abi = []
+): Promise<FlashloanSimulationReport> {
+	const data = encodeFunctionData({ abi: FlashloanOrchestratorABI, functionName: 'simulate', args });
+
+	try {
+		await client.call({ account, to: orchestrator, data });
+	} catch (error) {
+		const revert = getRevertData(error);
+		if (revert == undefined) throw error;
+		return decodeSimulationReport(revert, abi);
+	}
+
+	throw new Error('Simulation did not revert');
+}
@@ -0,0 +1,235 @@
+import { AbiParameter, Address, Hex } from 'viem';
+import { Permit, Permit2Transfer } from './permit.types';
+
+// opcodes of FlashloanHook_SavingsVaultZCHF, encoded as abi.encode(uint8) without limits
+export enum SavingsHookOpcode {
+	INCREASE_LEVERAGE = 0,
+	DECREASE_LEVERAGE = 1,
+	CLOSE_TO_LOAN = 2,
+	CLOSE_TO_COLLATERAL = 3,
+}
+
+// opcodes of FlashloanHook_UniswapV3, encoded as abi.encode(uint8, MarketParams, bytes path, uint256 amountOutMinimum)
+export enum SwapHookOpcode {
+	INCREASE_LEVERAGE = 0,
+	DECREASE_LEVERAGE = 1,
+	CLOSE_POSITION = 2,
+}
+
+// 1e18 = 1x, used for leverage and the svZCHF price
+export const LEVERAGE_SCALE = 10n ** 18n;
+
+// default headroom on the flash amount for closing, covers interest accrued until inclusion
+export const CLOSE_FLASH_BUFFER_BPS = 100n;
+
+// slippage limits of the savings hook, encoded as abi.encode(uint8, (uint256,uint256,uint256)), zero disables a limit
+export type SavingsHookLimits = {
+	minAmountOut?: bigint; // svZCHF deposited (increase), ZCHF redeemed (decrease), equity sent to the wallet (close)
+	maxRepay?: bigint; // ZCHF debt repaid (decrease and close)
+	deadline?: bigint; // latest block timestamp in seconds
+};
+
+// ---------------------------------------------------------------------------------------
+
+export type FlashloanAction = {
+	target: Address;
+	value: bigint;
+	data: Hex;
+};
+
+// solidity argument order of FlashloanOrchestrator.execute
+export type FlashloanExecuteArgs = readonly [
+	tokens: readonly Address[],
+	amounts: readonly bigint[],
+	flashToken: Address,
+	flashAmount: bigint,
+	actions: readonly FlashloanAction[]
+];
+
+// solidity Reference struct, copies a word of a prior action result into the data of a later action
+export type FlashloanReference = {
+	action: bigint;
+	word: bigint;
+	target: bigint;
+	offset: bigint;
+};
+
+// solidity argument order of FlashloanOrchestrator.executeComposed
+export type FlashloanExecuteComposedArgs = readonly [
+	tokens: readonly Address[],
+	amounts: readonly bigint[],
+	flashToken: Address,
+	flashAmount: bigint,
+	actions: readonly FlashloanAction[],
+	references: readonly FlashloanReference[]
+];
+
+// lender kinds of FlashloanOrchestrator.executeMulti
+export enum FlashloanProvider {
+	MORPHO = 0,
+	BALANCER = 1,
+	ERC3156 = 2,
+}
+
+// solidity Flashloan struct, the lender is ignored for Morpho
+export type Flashloan = {
+	provider: FlashloanProvider;
+	lender: Address;
+	tokens: readonly Address[];
+	amounts: readonly bigint[];
+};
+
+// solidity argument order of FlashloanOrchestrator.executeMulti
+export type FlashloanExecuteMultiArgs = readonly [
+	tokens: readonly Address[],
+	amounts: readonly bigint[],
+	flashloan: Flashloan,
+	actions: readonly FlashloanAction[],
+	references: readonly FlashloanReference[]
+];
+
+// ETH sent with executeNative, wrapped into WETH before and unwrapped after the flashloans if set
+export type NativeOptions = {
+	value: bigint;
+	wrap: boolean;
+	unwrap: boolean;
+};
+
+// solidity argument order of FlashloanOrchestrator.executeNative
+export type FlashloanExecuteNativeArgs = readonly [
+	tokens: readonly Address[],
+	amounts: readonly bigint[],
+	flashloan: Flashloan,
+	actions: readonly FlashloanAction[],
+	references: readonly FlashloanReference[],
+	wrap: boolean,
+	unwrap: boolean
+];
+
+// solidity argument order of FlashloanOrchestrator.executeWithPermit, one permit per provided token
+export type FlashloanExecuteWithPermitArgs = readonly [
+	tokens: readonly Address[],
+	amounts: readonly bigint[],
+	flashloan: Flashloan,
+	actions: readonly FlashloanAction[],
+	references: readonly FlashloanReference[],
+	permits: readonly Permit[]
+];
+
+// solidity argument order of FlashloanOrchestrator.executeWithPermit2
+export type FlashloanExecuteWithPermit2Args = readonly [
+	tokens: readonly Address[],
+	amounts: readonly bigint[],
+	flashloan: Flashloan,
+	actions: readonly FlashloanAction[],
+	references: readonly FlashloanReference[],
+	transfer: Permit2Transfer
+];
+
+// failed index of a simulation failing outside of the actions, e.g. pulling the provided tokens, the lender or the repayment
+export const SIMULATION_OUTSIDE_ACTIONS = -1;
+
+// revert data of a failed action, decoded with the orchestrator and any given hook abi
+export type SimulationError = {
+	name: string;
+	args: readonly unknown[];
+};
+
+// decoded SimulationResult of FlashloanOrchestrator.simulate
+export type FlashloanSimulationReport = {
+	success: boolean;
+	failedIndex?: number; // set on failure, SIMULATION_OUTSIDE_ACTIONS for a failure outside of the actions
+	reason?: Hex; // raw revert data of the failed action or execution
+	error?: SimulationError; // undefined if the revert data is unknown
+	results: readonly Hex[]; // results of the executed actions, empty for the failed and later ones
+	deltas: { token: Address; delta: bigint }[]; // sender balance changes, empty on failure
+};
+
+export type EncodedCall = {
+	to: Address;
+	data: Hex;
+	value: bigint;
+};
+
+// precondition: ERC20 approve(spender, amount) sent by the wallet
+export type TokenApproval = EncodedCall & {
+	token: Address;
+	spender: Address;
+	amount: bigint;
+};
+
+// precondition: Morpho setAuthorization(authorized, true) sent by the wallet
+export type MorphoAuthorization = EncodedCall & {
+	morpho: Address;
+	authorized: Address;
+};
+
+export type FlashloanTransaction = EncodedCall & {
+	opcode: SavingsHookOpcode;
+	limits?: SavingsHookLimits;
+	args: FlashloanExecuteArgs;
+	approvals: TokenApproval[];
+	authorization: MorphoAuthorization;
+};
+
+// ---------------------------------------------------------------------------------------
+
+// deployed contracts of one savings hook setup, loan token is ZCHF and collateral the svZCHF vault
+export type SavingsHookContext = {
+	orchestrator: Address;
+	hook: Address;
+	morpho: Address;
+	loanToken: Address;
+	collateralToken: Address;
+};
+
+// existing Morpho position of the wallet, price is svZCHF in ZCHF scaled by 1e18 (vault.price())
+export type LeveragePosition = {
+	collateral: bigint;
+	debt: bigint;
+	price: bigint;
+};
+
+export type IncreaseLeverageParams = {
+	amount: bigint; // ZCHF provided by the wallet
+	leverage: bigint; // target leverage on the equity, scaled by 1e18
+	collateral?: bigint; // svZCHF provided by the wallet, supplied as is
+	position?: LeveragePosition; // target leverage applies to the whole position if provided
+	limits?: SavingsHookLimits;
+};
+
+export type DecreaseLeverageParams = {
+	leverage: bigint; // target leverage on the equity, scaled by 1e18
+	position: LeveragePosition;
+	amount?: bigint; // ZCHF provided by the wallet, used to repay on top
+	limits?: SavingsHookLimits;
+};
+
+export type CloseParams = {
+	debt: bigint; // current debt in ZCHF, e.g. toAssetsUp of the borrow shares
+	bufferBps?: bigint; // defaults to CLOSE_FLASH_BUFFER_BPS
+	limits?: SavingsHookLimits;
+};
+
+// ---------------------------------------------------------------------------------------
+
+// output of a prior step used as an argument, by output name or index
+export type ActionOutput = {
+	action: number;
+	output: string | number;
+};
+
+// one hook call of a composed execution, args may contain ActionOutput for static 32 byte params
+export type FlashloanPlanStep = {
+	target: Address;
+	value?: bigint;
+	params: readonly AbiParameter[]; // hook data, abi.decode(data, params) in the hook
+	args: readonly unknown[];
+	outputs?: readonly AbiParameter[]; // hook result, needed if later steps use it
+};
+
+export type FlashloanPlan = {
+	steps: readonly FlashloanPlanStep[];
+	actions: FlashloanAction[];
+	references: FlashloanReference[];
+};
@@ -0,0 +1,57 @@
+import { Account, Address, Chain, Hash, PublicClient, Transport, WalletClient, encodeFunctionData } from 'viem';
+import { FlashloanHookRegistryABI } from './abis/FlashloanHookRegistry';
+import { EncodedCall } from './flashloan.types';
+import { HookRegistryState, HookStatus } from './hook.registry.types';
+
+export type HookRegistryAdmin = WalletClient<Transport, Chain | undefined, Account>;
+
+export async function readHookStatus(client: PublicClient, registry: Address, hook: Address): Promise<HookStatus> {
+	const [registered, paused] = await Promise.all([
+		client.readContract({ address: registry, abi: FlashloanHookRegistryABI, functionName: 'isRegistered', args: [hook] }),
+		client.readContract({ address: registry, abi: FlashloanHookRegistryABI, functionName: 'isPaused', args: [hook] }),
+	]);
+
+	return { hook, registered, paused, allowed: registered && !paused };
+}
+
+export async function readHookRegistry(client: PublicClient, registry: Address): Promise<HookRegistryState> {
+	const [owner, pendingOwner, hooks] = await Promise.all([
+		client.readContract({ address: registry, abi: FlashloanHookRegistryABI, functionName: 'owner' }),
+		client.readContract({ address: registry, abi: FlashloanHookRegistryABI, functionName: 'pendingOwner' }),
+		client.readContract({ address: registry, abi: FlashloanHookRegistryABI, functionName: 'getHooks' }),
+	]);
+
+	return {
+		registry,
+		owner,
+		pendingOwner,
+		hooks: await Promise.all(hooks.map((hook) => readHookStatus(client, registry, hook))),
+	};
+}
+
+// ---------------------------------------------------------------------------------------
+// owner calls, usable as DAO proposal actions or sent directly with sendHookRegistryCall
+
+export function getAddHookCall(registry: Address, hook: Address): EncodedCall {
+	return { to: registry, data: encodeFunctionData({ abi: FlashloanHookRegistryABI, functionName: 'addHook', args: [hook] }), value: 0n };
+}
+
+export function getRemoveHookCall(registry: Address, hook: Address): EncodedCall {
+	return {
+		to: registry,
+		data: encodeFunctionData({ abi: FlashloanHookRegistryABI, functionName: 'removeHook', args: [hook] }),
+		value: 0n,
+	};
+}
+
+export function getSetHookPausedCall(registry: Address, hook: Address, paused: boolean): EncodedCall {
+	return {
+		to: registry,
+		data: encodeFunctionData({ abi: FlashloanHookRegistryABI, functionName: 'setPaused', args: [hook, paused] }),
+		value: 0n,
+	};
+}
+
+export async function sendHookRegistryCall(admin: HookRegistryAdmin, call: EncodedCall): Promise<Hash> {
+	return admin.sendTransaction({ account: admin.account, chain: admin.chain, to: call.to, data: call.data, value: call.value });
+}
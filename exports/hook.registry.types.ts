@@ -0,0 +1,15 @@
+import { Address } from 'viem';
+
+export type HookStatus = {
+	hook: Address;
+	registered: boolean;
+	paused: boolean;
+	allowed: boolean; // registered and not paused, what the orchestrator checks
+};
+
+export type HookRegistryState = {
+	registry: Address;
+	owner: Address;
+	pendingOwner: Address; // zeroAddress without a pending ownership transfer
+	hooks: HookStatus[];
+};
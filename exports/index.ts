@@ -4,12 +4,72 @@ export * from '../helper/wallet';
 // address config and types
 export * from './address.config';
 export * from './address.types';
+export * from './address.lookup';
+
+// authorization signing
+export * from './authorization.signer';
+export * from './authorization.types';
+
+// flashloan transaction builder
+export * from './flashloan.builder';
+export * from './flashloan.multi';
+export * from './flashloan.plan';
+export * from './flashloan.simulate';
+export * from './flashloan.types';
+export * from './uniswap.path';
+
+// flashloan event indexer
+export * from './flashloan.indexer';
+export * from './flashloan.indexer.types';
+
+// permit and permit2 signing
+export * from './permit.signer';
+export * from './permit.types';
+
+// queue client, call allowlist, signed batches and revert decoding
+export * from './queue.client';
+export * from './queue.errors';
+export * from './queue.selectors';
+export * from './queue.signer';
+export * from './queue.types';
+
+// flashloan hook registry admin
+export * from './hook.registry';
+export * from './hook.registry.types';
+
+// morpho position analytics
+export * from './morpho.math';
+export * from './position.analytics';
+export * from './position.types';
 
 // abi exports
 export * from './abis/AccessControl';
 export * from './abis/IAccessControl';
 export * from './abis/Ownable';
 
+export * from './abis/AuthorizationProcessor';
+export * from './abis/FlashloanHook_ERC4626';
+export * from './abis/FlashloanHook_SavingsVaultZCHF';
+export * from './abis/FlashloanHook_UniswapV3';
+export * from './abis/FlashloanHookFactory_ERC4626';
+export * from './abis/FlashloanHookRegistry';
+export * from './abis/FlashloanOrchestrator';
+export * from './abis/IIrm';
+export * from './abis/IMetaMorphoV1_1';
+export * from './abis/IMorpho';
+export * from './abis/IOracle';
+export * from './abis/ISavingsZCHF';
+export * from './abis/LeverageMorpho';
+export * from './abis/LeverageMorphoFactory';
+export * from './abis/Queue';
+export * from './abis/SavingsVaultZCHF';
+export * from './abis/SavingsVaultZCHF_2';
+export * from './abis/SavingsVaultZCHFMorpho';
+
 // deployment params
-export * as MembershipParams from '../ignition/params/Membership';
-export * as MembershipFactoryParams from '../ignition/params/MembershipFactory';
+export * as AuthorizationProcessorParams from '../ignition/params/AuthorizationProcessor';
+export * as FlashloanOrchestratorParams from '../ignition/params/FlashloanOrchestrator';
+export * as SavingsVaultZCHFParams from '../ignition/params/SavingsVaultZCHF';
+export * as SavingsVaultZCHFMorphoParams from '../ignition/params/SavingsVaultZCHFMorpho';
+export * as SavingsVaultZCHF_2_mainnetParams from '../ignition/params/SavingsVaultZCHF_2_mainnet';
+export * as SavingsVaultZCHF_2_gnosisParams from '../ignition/params/SavingsVaultZCHF_2_gnosis';
@@ -0,0 +1,58 @@
+// bigint mirror of /contracts/morpho MathLib and SharesMathLib, rounding matches solidity exactly
+
+export const WAD = 10n ** 18n;
+export const ORACLE_PRICE_SCALE = 10n ** 36n;
+
+export const VIRTUAL_SHARES = 10n ** 6n;
+export const VIRTUAL_ASSETS = 1n;
+
+// ---------------------------------------------------------------------------------------
+// MathLib
+
+export function mulDivDown(x: bigint, y: bigint, d: bigint): bigint {
+	return (x * y) / d;
+}
+
+export function mulDivUp(x: bigint, y: bigint, d: bigint): bigint {
+	return (x * y + (d - 1n)) / d;
+}
+
+export function wMulDown(x: bigint, y: bigint): bigint {
+	return mulDivDown(x, y, WAD);
+}
+
+export function wDivDown(x: bigint, y: bigint): bigint {
+	return mulDivDown(x, WAD, y);
+}
+
+export function wDivUp(x: bigint, y: bigint): bigint {
+	return mulDivUp(x, WAD, y);
+}
+
+// e^(x * n) - 1, third order taylor expansion used to compound interest
+export function wTaylorCompounded(x: bigint, n: bigint): bigint {
+	const firstTerm = x * n;
+	const secondTerm = mulDivDown(firstTerm, firstTerm, 2n * WAD);
+	const thirdTerm = mulDivDown(secondTerm, firstTerm, 3n * WAD);
+
+	return firstTerm + secondTerm + thirdTerm;
+}
+
+// ---------------------------------------------------------------------------------------
+// SharesMathLib
+
+export function toSharesDown(assets: bigint, totalAssets: bigint, totalShares: bigint): bigint {
+	return mulDivDown(assets, totalShares + VIRTUAL_SHARES, totalAssets + VIRTUAL_ASSETS);
+}
+
+export function toAssetsDown(shares: bigint, totalAssets: bigint, totalShares: bigint): bigint {
+	return mulDivDown(shares, totalAssets + VIRTUAL_ASSETS, totalShares + VIRTUAL_SHARES);
+}
+
+export function toSharesUp(assets: bigint, totalAssets: bigint, totalShares: bigint): bigint {
+	return mulDivUp(assets, totalShares + VIRTUAL_SHARES, totalAssets + VIRTUAL_ASSETS);
+}
+
+export function toAssetsUp(shares: bigint, totalAssets: bigint, totalShares: bigint): bigint {
+	return mulDivUp(shares, totalAssets + VIRTUAL_ASSETS, totalShares + VIRTUAL_SHARES);
+}
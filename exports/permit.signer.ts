@@ -0,0 +1,130 @@
+import {
+	Account,
+	Address,
+	Chain,
+	Hex,
+	LocalAccount,
+	PublicClient,
+	Transport,
+	WalletClient,
+	erc20Abi,
+	hexToBigInt,
+	parseAbi,
+	parseSignature,
+	zeroHash,
+} from 'viem';
+import { generatePrivateKey } from 'viem/accounts';
+import {
+	PERMIT2_ADDRESS,
+	PERMIT2_BATCH_TRANSFER_TYPES,
+	PERMIT2_DOMAIN_NAME,
+	PERMIT2_TRANSFER_TYPES,
+	PERMIT_TYPES,
+	Permit,
+	Permit2Transfer,
+	Permit2TransferParams,
+	PermitDomain,
+	PermitParams,
+	USDC_DOMAIN_NAME,
+	USDC_DOMAIN_VERSION,
+} from './permit.types';
+import { isLocalAccount } from './authorization.signer';
+
+export type PermitSigner = LocalAccount | WalletClient<Transport, Chain | undefined, Account>;
+
+const PERMIT_READ_ABI = parseAbi([
+	'function nonces(address owner) view returns (uint256)',
+	'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+]);
+
+// skips the permit of a token already approved
+export const NO_PERMIT: Permit = { value: 0n, deadline: 0n, v: 0, r: zeroHash, s: zeroHash };
+
+async function signTypedData(signer: PermitSigner, typedData: Parameters<LocalAccount['signTypedData']>[0]): Promise<Hex> {
+	return isLocalAccount(signer)
+		? await signer.signTypedData(typedData)
+		: await signer.signTypedData({ account: signer.account, ...typedData });
+}
+
+// ---------------------------------------------------------------------------------------
+// EIP-2612
+
+// Frankencoin ERC20PermitLight, the domain only has the chain id and the verifying contract
+export function getZCHFPermitDomain(chainId: number, zchf: Address): PermitDomain {
+	return { chainId, verifyingContract: zchf };
+}
+
+export function getUSDCPermitDomain(chainId: number, usdc: Address, name: string = USDC_DOMAIN_NAME): PermitDomain {
+	return { name, version: USDC_DOMAIN_VERSION, chainId, verifyingContract: usdc };
+}
+
+// ERC-5267 domain of tokens built on OpenZeppelin ERC20Permit, e.g. the SavingsVaultZCHF shares.
+// only new SavingsVaultZCHF deployments support permits, the vault at ADDRESS savingsVaultZCHF reverts
+export async function readPermitDomain(client: PublicClient, token: Address): Promise<PermitDomain> {
+	const [, name, version, chainId, verifyingContract] = await client.readContract({
+		address: token,
+		abi: PERMIT_READ_ABI,
+		functionName: 'eip712Domain',
+	});
+	return { name, version, chainId: Number(chainId), verifyingContract };
+}
+
+export async function readPermitNonce(client: PublicClient, token: Address, owner: Address): Promise<bigint> {
+	return await client.readContract({ address: token, abi: PERMIT_READ_ABI, functionName: 'nonces', args: [owner] });
+}
+
+export async function signPermit(signer: PermitSigner, params: PermitParams): Promise<Permit> {
+	const signature = await signTypedData(signer, {
+		domain: params.domain,
+		types: PERMIT_TYPES,
+		primaryType: 'Permit',
+		message: {
+			owner: params.owner,
+			spender: params.spender,
+			value: params.value,
+			nonce: params.nonce,
+			deadline: params.deadline,
+		},
+	});
+
+	const { r, s, v, yParity } = parseSignature(signature);
+	return { value: params.value, deadline: params.deadline, v: Number(v ?? BigInt(yParity + 27)), r, s };
+}
+
+// ---------------------------------------------------------------------------------------
+// Permit2 signature transfers, the owner has to approve Permit2 once per token
+
+export function getPermit2Domain(chainId: number, permit2: Address = PERMIT2_ADDRESS) {
+	return { name: PERMIT2_DOMAIN_NAME, chainId, verifyingContract: permit2 };
+}
+
+// random unordered nonce, drawn like the authorization nonces
+export function generatePermit2Nonce(): bigint {
+	return hexToBigInt(generatePrivateKey());
+}
+
+export async function readPermit2Allowance(client: PublicClient, token: Address, owner: Address, permit2: Address = PERMIT2_ADDRESS) {
+	return await client.readContract({ address: token, abi: erc20Abi, functionName: 'allowance', args: [owner, permit2] });
+}
+
+export async function signPermit2Transfer(signer: PermitSigner, params: Permit2TransferParams): Promise<Permit2Transfer> {
+	const nonce = params.nonce ?? generatePermit2Nonce();
+	const domain = getPermit2Domain(params.chainId, params.permit2);
+	const message = { spender: params.spender, nonce, deadline: params.deadline };
+
+	const signature = Array.isArray(params.permitted)
+		? await signTypedData(signer, {
+				domain,
+				types: PERMIT2_BATCH_TRANSFER_TYPES,
+				primaryType: 'PermitBatchTransferFrom',
+				message: { ...message, permitted: params.permitted },
+		  })
+		: await signTypedData(signer, {
+				domain,
+				types: PERMIT2_TRANSFER_TYPES,
+				primaryType: 'PermitTransferFrom',
+				message: { ...message, permitted: params.permitted },
+		  });
+
+	return { nonce, deadline: params.deadline, signature };
+}
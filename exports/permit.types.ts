@@ -0,0 +1,95 @@
+import { Address, Hex } from 'viem';
+
+// canonical Uniswap Permit2 deployment, same address on all chains, see `PermitLib.PERMIT2`
+export const PERMIT2_ADDRESS: Address = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+export const PERMIT2_DOMAIN_NAME = 'Permit2';
+
+// name of the native USDC EIP-712 domain on mainnet, bridged or other deployments may differ
+export const USDC_DOMAIN_NAME = 'USD Coin';
+export const USDC_DOMAIN_VERSION = '2';
+
+// EIP-2612
+export const PERMIT_TYPES = {
+	Permit: [
+		{ name: 'owner', type: 'address' },
+		{ name: 'spender', type: 'address' },
+		{ name: 'value', type: 'uint256' },
+		{ name: 'nonce', type: 'uint256' },
+		{ name: 'deadline', type: 'uint256' },
+	],
+} as const;
+
+// Permit2 ISignatureTransfer, the spender is the contract calling Permit2
+export const PERMIT2_TRANSFER_TYPES = {
+	PermitTransferFrom: [
+		{ name: 'permitted', type: 'TokenPermissions' },
+		{ name: 'spender', type: 'address' },
+		{ name: 'nonce', type: 'uint256' },
+		{ name: 'deadline', type: 'uint256' },
+	],
+	TokenPermissions: [
+		{ name: 'token', type: 'address' },
+		{ name: 'amount', type: 'uint256' },
+	],
+} as const;
+
+export const PERMIT2_BATCH_TRANSFER_TYPES = {
+	PermitBatchTransferFrom: [
+		{ name: 'permitted', type: 'TokenPermissions[]' },
+		{ name: 'spender', type: 'address' },
+		{ name: 'nonce', type: 'uint256' },
+		{ name: 'deadline', type: 'uint256' },
+	],
+	TokenPermissions: [
+		{ name: 'token', type: 'address' },
+		{ name: 'amount', type: 'uint256' },
+	],
+} as const;
+
+// ZCHF (ERC20PermitLight) signs without name and version, vault shares (new SavingsVaultZCHF deployments only) and USDC with both
+export type PermitDomain = {
+	name?: string;
+	version?: string;
+	chainId: number;
+	verifyingContract: Address;
+};
+
+export type PermitParams = {
+	domain: PermitDomain;
+	owner: Address;
+	spender: Address;
+	value: bigint;
+	nonce: bigint;
+	deadline: bigint;
+};
+
+// mirrors `struct Permit` in contracts/permit/PermitLib.sol, a zero deadline skips the permit
+export type Permit = {
+	value: bigint;
+	deadline: bigint;
+	v: number;
+	r: Hex;
+	s: Hex;
+};
+
+export type TokenPermissions = {
+	token: Address;
+	amount: bigint;
+};
+
+// single token for `permit2TransferFrom`, all provided tokens in order for `permit2BatchTransferFrom`
+export type Permit2TransferParams = {
+	chainId: number;
+	spender: Address;
+	permitted: TokenPermissions | TokenPermissions[];
+	nonce?: bigint; // random if not set, Permit2 nonces are unordered
+	deadline: bigint;
+	permit2?: Address;
+};
+
+// mirrors `struct Permit2Transfer` in contracts/permit/PermitLib.sol
+export type Permit2Transfer = {
+	nonce: bigint;
+	deadline: bigint;
+	signature: Hex;
+};
@@ -0,0 +1,143 @@
+import { Address, Hash, PublicClient, maxUint256, zeroAddress } from 'viem';
+import { IIrmABI } from './abis/IIrm';
+import { IMorphoABI } from './abis/IMorpho';
+import { IOracleABI } from './abis/IOracle';
+import {
+	ORACLE_PRICE_SCALE,
+	mulDivDown,
+	mulDivUp,
+	toAssetsUp,
+	toSharesDown,
+	wDivDown,
+	wDivUp,
+	wMulDown,
+	wTaylorCompounded,
+} from './morpho.math';
+import { MarketState, PositionReport, PositionSnapshot } from './position.types';
+
+// mirrors MorphoBalancesLib.expectedMarketBalances, the state accrueInterest would write at timestamp
+export function getExpectedMarketState(market: MarketState, borrowRate: bigint, timestamp: bigint): MarketState {
+	const elapsed = timestamp - market.lastUpdate;
+	if (elapsed <= 0n || market.totalBorrowAssets == 0n || borrowRate == 0n) return market;
+
+	const interest = wMulDown(market.totalBorrowAssets, wTaylorCompounded(borrowRate, elapsed));
+	const expected: MarketState = {
+		...market,
+		totalBorrowAssets: market.totalBorrowAssets + interest,
+		totalSupplyAssets: market.totalSupplyAssets + interest,
+		lastUpdate: timestamp,
+	};
+
+	if (market.fee != 0n) {
+		const feeAmount = wMulDown(interest, market.fee);
+		expected.totalSupplyShares += toSharesDown(feeAmount, expected.totalSupplyAssets - feeAmount, market.totalSupplyShares);
+	}
+
+	return expected;
+}
+
+// lowest oracle price at which the position is still healthy, 0 without debt
+export function getLiquidationPrice(collateral: bigint, debt: bigint, lltv: bigint): bigint {
+	if (debt == 0n) return 0n;
+	if (collateral == 0n || lltv == 0n) return maxUint256;
+
+	// inverse of the health check, collateral value needed for the debt and the price for that value
+	return mulDivUp(wDivUp(debt, lltv), ORACLE_PRICE_SCALE, collateral);
+}
+
+// ---------------------------------------------------------------------------------------
+
+export function getPositionReport(snapshot: PositionSnapshot): PositionReport {
+	const { marketParams, position, price } = snapshot;
+	const lltv = marketParams.lltv;
+
+	const market = getExpectedMarketState(snapshot.market, snapshot.borrowRate, snapshot.timestamp);
+	const debt = toAssetsUp(position.borrowShares, market.totalBorrowAssets, market.totalBorrowShares);
+	const debtBefore = toAssetsUp(position.borrowShares, snapshot.market.totalBorrowAssets, snapshot.market.totalBorrowShares);
+
+	// same rounding as the health check in Morpho Blue
+	const collateralValue = mulDivDown(position.collateral, price, ORACLE_PRICE_SCALE);
+	const maxBorrow = wMulDown(collateralValue, lltv);
+	const equity = collateralValue - debt;
+
+	const liquidationPrice = getLiquidationPrice(position.collateral, debt, lltv);
+
+	return {
+		marketId: snapshot.marketId,
+		user: snapshot.user,
+		timestamp: snapshot.timestamp,
+		marketParams,
+		market,
+
+		collateral: position.collateral,
+		collateralValue,
+		borrowShares: position.borrowShares,
+		debt,
+		accruedInterest: debt - debtBefore,
+		equity,
+
+		price,
+		lltv,
+		ltv: debt == 0n ? 0n : collateralValue == 0n ? maxUint256 : wDivUp(debt, collateralValue),
+		maxBorrow,
+		healthFactor: debt == 0n ? maxUint256 : wDivDown(maxBorrow, debt),
+		isHealthy: maxBorrow >= debt,
+		leverage: collateralValue == 0n ? 0n : equity <= 0n ? maxUint256 : wDivDown(collateralValue, equity),
+
+		liquidationPrice,
+		distanceToLiquidation: price > liquidationPrice ? wDivDown(price - liquidationPrice, price) : 0n,
+	};
+}
+
+// ---------------------------------------------------------------------------------------
+
+// reads market, position, oracle price and borrow rate at the latest block
+export async function readPositionSnapshot(
+	client: PublicClient,
+	morpho: Address,
+	marketId: Hash,
+	user: Address
+): Promise<PositionSnapshot> {
+	const block = await client.getBlock();
+	const blockNumber = block.number;
+
+	const [marketParams, market, position] = await Promise.all([
+		client.readContract({ address: morpho, abi: IMorphoABI, functionName: 'idToMarketParams', args: [marketId], blockNumber }),
+		client.readContract({ address: morpho, abi: IMorphoABI, functionName: 'market', args: [marketId], blockNumber }),
+		client.readContract({ address: morpho, abi: IMorphoABI, functionName: 'position', args: [marketId, user], blockNumber }),
+	]);
+
+	if (market.lastUpdate == 0n) throw new Error(`Market ${marketId} is not created`);
+
+	const price =
+		marketParams.oracle == zeroAddress
+			? 0n
+			: await client.readContract({ address: marketParams.oracle, abi: IOracleABI, functionName: 'price', blockNumber });
+
+	// the rate model is only queried if interest is pending, as accrueInterest does
+	let borrowRate = 0n;
+	if (marketParams.irm != zeroAddress && market.totalBorrowAssets > 0n && block.timestamp > market.lastUpdate) {
+		borrowRate = await client.readContract({
+			address: marketParams.irm,
+			abi: IIrmABI,
+			functionName: 'borrowRateView',
+			args: [marketParams, market],
+			blockNumber,
+		});
+	}
+
+	return {
+		marketId,
+		user,
+		timestamp: block.timestamp,
+		marketParams,
+		market,
+		position,
+		price,
+		borrowRate,
+	};
+}
+
+export async function readPositionReport(client: PublicClient, morpho: Address, marketId: Hash, user: Address): Promise<PositionReport> {
+	return getPositionReport(await readPositionSnapshot(client, morpho, marketId, user));
+}
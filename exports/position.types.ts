@@ -0,0 +1,63 @@
+import { Address, Hash } from 'viem';
+
+export type MarketParams = {
+	loanToken: Address;
+	collateralToken: Address;
+	oracle: Address;
+	irm: Address;
+	lltv: bigint;
+};
+
+export type MarketState = {
+	totalSupplyAssets: bigint;
+	totalSupplyShares: bigint;
+	totalBorrowAssets: bigint;
+	totalBorrowShares: bigint;
+	lastUpdate: bigint;
+	fee: bigint;
+};
+
+export type PositionState = {
+	supplyShares: bigint;
+	borrowShares: bigint;
+	collateral: bigint;
+};
+
+// raw onchain state needed for a report, borrowRate is the IRM rate per second (WAD)
+export type PositionSnapshot = {
+	marketId: Hash;
+	user: Address;
+	timestamp: bigint;
+	marketParams: MarketParams;
+	market: MarketState;
+	position: PositionState;
+	price: bigint;
+	borrowRate: bigint;
+};
+
+// amounts in loan token units, ratios scaled by 1e18 and prices by 1e36 like the morpho oracle
+export type PositionReport = {
+	marketId: Hash;
+	user: Address;
+	timestamp: bigint;
+	marketParams: MarketParams;
+	market: MarketState; // including interest accrued until timestamp
+
+	collateral: bigint; // collateral token units
+	collateralValue: bigint;
+	borrowShares: bigint;
+	debt: bigint;
+	accruedInterest: bigint; // debt accrued since the last market update
+	equity: bigint; // negative for bad debt
+
+	price: bigint;
+	lltv: bigint;
+	ltv: bigint;
+	maxBorrow: bigint;
+	healthFactor: bigint; // maxUint256 without debt
+	isHealthy: boolean;
+	leverage: bigint; // collateral value over equity, maxUint256 without equity
+
+	liquidationPrice: bigint; // 0 without debt
+	distanceToLiquidation: bigint; // relative oracle price drop until liquidation
+};
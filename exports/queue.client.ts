@@ -0,0 +1,155 @@
+import {
+	Account,
+	Address,
+	Chain,
+	Hash,
+	Log,
+	PublicClient,
+	Transport,
+	WalletClient,
+	encodeFunctionData,
+	getAbiItem,
+	parseEventLogs,
+} from 'viem';
+import { QueueABI } from './abis/Queue';
+import { EncodedCall } from './flashloan.types';
+import { QUEUE_ROLES, QueueAccountRoles, QueueAction, QueueBatchState, QueueBatchStatus, QueueRole, QueuedBatch } from './queue.types';
+
+// account holding the roles needed for the sent calls
+export type QueueAdmin = WalletClient<Transport, Chain | undefined, Account>;
+
+const QUEUE_EVENTS = [
+	getAbiItem({ abi: QueueABI, name: 'BatchQueued' }),
+	getAbiItem({ abi: QueueABI, name: 'BatchCancelled' }),
+	getAbiItem({ abi: QueueABI, name: 'BatchExecuted' }),
+];
+
+export async function readMinDelay(client: PublicClient, queue: Address): Promise<bigint> {
+	return await client.readContract({ address: queue, abi: QueueABI, functionName: 'minDelay' });
+}
+
+export async function readQueuedBatchState(client: PublicClient, queue: Address, batchId: bigint): Promise<QueueBatchState> {
+	const [, , , , state] = await client.readContract({ address: queue, abi: QueueABI, functionName: 'getQueuedBatch', args: [batchId] });
+	return state;
+}
+
+export async function readPaused(client: PublicClient, queue: Address): Promise<boolean> {
+	return await client.readContract({ address: queue, abi: QueueABI, functionName: 'paused' });
+}
+
+export async function readQueueRoles(client: PublicClient, queue: Address, account: Address): Promise<QueueAccountRoles> {
+	const roles = Object.keys(QUEUE_ROLES) as QueueRole[];
+	const granted = await Promise.all(
+		roles.map((role) =>
+			client.readContract({ address: queue, abi: QueueABI, functionName: 'hasRole', args: [QUEUE_ROLES[role], account] })
+		)
+	);
+	return Object.fromEntries(roles.map((role, i) => [role, granted[i]])) as QueueAccountRoles;
+}
+
+// status of a queued batch at the given timestamp, the window is [eta, expiry]
+export function getBatchStatus(batch: Pick<QueuedBatch, 'eta' | 'expiry'>, timestamp: bigint): QueueBatchStatus {
+	if (timestamp < batch.eta) return 'waiting';
+	if (batch.expiry != 0n && timestamp > batch.expiry) return 'expired';
+	return 'ready';
+}
+
+// ---------------------------------------------------------------------------------------
+// batches from events
+
+// id of the batch queued in a transaction, from its receipt logs
+export function getQueuedBatchId(logs: Log[]): bigint | undefined {
+	return parseEventLogs({ abi: QueueABI, logs, eventName: 'BatchQueued' })[0]?.args.batchId;
+}
+
+// all batches queued since fromBlock, with their status at the latest block
+export async function getQueuedBatches(client: PublicClient, queue: Address, fromBlock: bigint = 0n): Promise<QueuedBatch[]> {
+	const block = await client.getBlock({ blockTag: 'latest' });
+	const logs = await client.getLogs({ address: queue, events: QUEUE_EVENTS, fromBlock, toBlock: block.number, strict: true });
+	const batches = new Map<bigint, QueuedBatch>();
+
+	for (const log of logs) {
+		if (log.eventName == 'BatchQueued') {
+			batches.set(log.args.batchId, {
+				batchId: log.args.batchId,
+				actions: log.args.actions.map((a) => ({ ...a })),
+				allowFailureMap: log.args.allowFailureMap,
+				eta: log.args.eta,
+				expiry: log.args.expiry,
+				status: getBatchStatus(log.args, block.timestamp),
+				blockNumber: log.blockNumber,
+				transactionHash: log.transactionHash,
+			});
+		} else {
+			// immediate executions have no queued batch
+			const batch = batches.get(log.args.batchId);
+			if (batch) batch.status = log.eventName == 'BatchCancelled' ? 'cancelled' : 'executed';
+		}
+	}
+
+	return [...batches.values()];
+}
+
+// queued batches which are neither executed, cancelled nor expired
+export async function getPendingBatches(client: PublicClient, queue: Address, fromBlock: bigint = 0n): Promise<QueuedBatch[]> {
+	const batches = await getQueuedBatches(client, queue, fromBlock);
+	return batches.filter((b) => b.status == 'waiting' || b.status == 'ready');
+}
+
+// ---------------------------------------------------------------------------------------
+// role restricted calls, sent directly with sendQueueCall
+
+export function getQueueBatchCall(
+	queue: Address,
+	actions: QueueAction[],
+	allowFailureMap: bigint,
+	eta: bigint,
+	expiry: bigint = 0n
+): EncodedCall {
+	return {
+		to: queue,
+		data: encodeFunctionData({ abi: QueueABI, functionName: 'queueBatch', args: [actions, allowFailureMap, eta, expiry] }),
+		value: 0n,
+	};
+}
+
+export function getCancelBatchCall(queue: Address, batchId: bigint): EncodedCall {
+	return { to: queue, data: encodeFunctionData({ abi: QueueABI, functionName: 'cancelBatch', args: [batchId] }), value: 0n };
+}
+
+export function getExecuteQueuedBatchCall(queue: Address, batchId: bigint): EncodedCall {
+	return { to: queue, data: encodeFunctionData({ abi: QueueABI, functionName: 'executeQueuedBatch', args: [batchId] }), value: 0n };
+}
+
+// raising the delay can be sent directly, lowering it has to be queued as an action targeting the queue
+export function getSetMinDelayCall(queue: Address, delay: bigint): EncodedCall {
+	return { to: queue, data: encodeFunctionData({ abi: QueueABI, functionName: 'setMinDelay', args: [delay] }), value: 0n };
+}
+
+export function getGrantRoleCall(queue: Address, role: QueueRole, account: Address): EncodedCall {
+	return {
+		to: queue,
+		data: encodeFunctionData({ abi: QueueABI, functionName: 'grantRole', args: [QUEUE_ROLES[role], account] }),
+		value: 0n,
+	};
+}
+
+export function getRevokeRoleCall(queue: Address, role: QueueRole, account: Address): EncodedCall {
+	return {
+		to: queue,
+		data: encodeFunctionData({ abi: QueueABI, functionName: 'revokeRole', args: [QUEUE_ROLES[role], account] }),
+		value: 0n,
+	};
+}
+
+export function getPauseCall(queue: Address): EncodedCall {
+	return { to: queue, data: encodeFunctionData({ abi: QueueABI, functionName: 'pause' }), value: 0n };
+}
+
+export function getUnpauseCall(queue: Address): EncodedCall {
+	return { to: queue, data: encodeFunctionData({ abi: QueueABI, functionName: 'unpause' }), value: 0n };
+}
+
+export async function sendQueueCall(admin: QueueAdmin, call: EncodedCall): Promise<Hash> {
+	return admin.sendTransaction({ account: admin.account, chain: admin.chain, to: call.to, data: call.data, value: call.value });
+}
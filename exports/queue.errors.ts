@@ -0,0 +1,110 @@
+import { Abi, Address, Hash, Hex, Log, PublicClient, decodeErrorResult, getAddress, parseEventLogs, size, slice } from 'viem';
+import { AuthorizationProcessorABI } from './abis/AuthorizationProcessor';
+import { FlashloanHookFactory_ERC4626ABI } from './abis/FlashloanHookFactory_ERC4626';
+import { FlashloanHookRegistryABI } from './abis/FlashloanHookRegistry';
+import { FlashloanHook_ERC4626ABI } from './abis/FlashloanHook_ERC4626';
+import { FlashloanHook_SavingsVaultZCHFABI } from './abis/FlashloanHook_SavingsVaultZCHF';
+import { FlashloanHook_UniswapV3ABI } from './abis/FlashloanHook_UniswapV3';
+import { FlashloanOrchestratorABI } from './abis/FlashloanOrchestrator';
+import { LeverageMorphoABI } from './abis/LeverageMorpho';
+import { LeverageMorphoFactoryABI } from './abis/LeverageMorphoFactory';
+import { QueueABI } from './abis/Queue';
+import { SavingsVaultZCHFABI } from './abis/SavingsVaultZCHF';
+import { SavingsVaultZCHF_2ABI } from './abis/SavingsVaultZCHF_2';
+import { SavingsVaultZCHFMorphoABI } from './abis/SavingsVaultZCHFMorpho';
+import { QueueActionFailure, QueueTargetAbis, RevertReason } from './queue.types';
+
+type AbiError = Extract<Abi[number], { type: 'error' }>;
+
+// custom errors of the exported contracts, tried after the abi of the target
+export const KNOWN_ERRORS: AbiError[] = [
+	AuthorizationProcessorABI,
+	FlashloanHookFactory_ERC4626ABI,
+	FlashloanHookRegistryABI,
+	FlashloanHook_ERC4626ABI,
+	FlashloanHook_SavingsVaultZCHFABI,
+	FlashloanHook_UniswapV3ABI,
+	FlashloanOrchestratorABI,
+	LeverageMorphoABI,
+	LeverageMorphoFactoryABI,
+	QueueABI,
+	SavingsVaultZCHFABI,
+	SavingsVaultZCHF_2ABI,
+	SavingsVaultZCHFMorphoABI,
+].flatMap((abi) => (abi as Abi).filter((item): item is AbiError => item.type == 'error'));
+
+// solidity panic codes, see https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+export const PANIC_REASONS: Record<number, string> = {
+	0x00: 'generic compiler panic',
+	0x01: 'assertion failed',
+	0x11: 'arithmetic overflow or underflow',
+	0x12: 'division or modulo by zero',
+	0x21: 'invalid enum value',
+	0x22: 'invalid storage byte array encoding',
+	0x31: 'pop on empty array',
+	0x32: 'array index out of bounds',
+	0x41: 'out of memory',
+	0x51: 'call to a zero-initialized internal function',
+};
+
+function formatArg(arg: unknown): string {
+	if (typeof arg == 'string' || typeof arg == 'bigint') return arg.toString();
+	return JSON.stringify(arg, (_, value) => (typeof value == 'bigint' ? value.toString() : value));
+}
+
+// Error(string) and Panic(uint256) are known to viem, custom errors are looked up in the abi and then in KNOWN_ERRORS
+export function decodeRevertReason(data: Hex, abi: Abi = []): RevertReason {
+	if (size(data) == 0) return { kind: 'empty', args: [], reason: 'reverted without reason', data };
+
+	try {
+		const { errorName, args = [] } = decodeErrorResult({ abi: [...abi, ...KNOWN_ERRORS], data });
+
+		if (errorName == 'Error') {
+			return { kind: 'error', name: errorName, args, reason: args[0] as string, data };
+		} else if (errorName == 'Panic') {
+			const code = Number(args[0]);
+			const reason = PANIC_REASONS[code] ?? 'unknown panic';
+			return { kind: 'panic', name: errorName, args, reason: `${reason} (0x${code.toString(16).padStart(2, '0')})`, data };
+		}
+
+		return { kind: 'custom', name: errorName, args, reason: `${errorName}(${args.map(formatArg).join(', ')})`, data };
+	} catch {
+		const selector = size(data) >= 4 ? slice(data, 0, 4) : data;
+		return { kind: 'unknown', args: [], reason: `unknown error ${selector}`, data };
+	}
+}
+
+// ---------------------------------------------------------------------------------------
+
+// pairs each ActionFailed log with the target from BatchExecuted of the same batch
+export function decodeQueueFailures(logs: Log[], abis: QueueTargetAbis = {}): QueueActionFailure[] {
+	const parsed = parseEventLogs({ abi: QueueABI, logs, eventName: ['ActionFailed', 'BatchExecuted'] });
+	const targetAbis = new Map(Object.entries(abis).map(([target, abi]) => [getAddress(target), abi]));
+
+	const batches = new Map<bigint, readonly { target: Address }[]>();
+	for (const log of parsed) {
+		if (log.eventName == 'BatchExecuted') batches.set(log.args.batchId, log.args.actions);
+	}
+
+	return parsed.flatMap((log) => {
+		if (log.eventName != 'ActionFailed') return [];
+
+		const actionIndex = Number(log.args.actionIndex);
+		const action = batches.get(log.args.batchId)?.[actionIndex];
+		const target = action ? getAddress(action.target) : undefined;
+
+		return [
+			{
+				batchId: log.args.batchId,
+				actionIndex,
+				target,
+				revert: decodeRevertReason(log.args.reason, target ? targetAbis.get(target) : undefined),
+			},
+		];
+	});
+}
+
+export async function getQueueFailures(client: PublicClient, hash: Hash, abis: QueueTargetAbis = {}): Promise<QueueActionFailure[]> {
+	const receipt = await client.getTransactionReceipt({ hash });
+	return decodeQueueFailures(receipt.logs, abis);
+}
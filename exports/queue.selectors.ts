@@ -0,0 +1,104 @@
+import {
+	Abi,
+	AbiFunction,
+	Address,
+	Hex,
+	PublicClient,
+	encodeFunctionData,
+	maxUint256,
+	toFunctionSelector,
+	toFunctionSignature,
+	zeroAddress,
+} from 'viem';
+import { QueueABI } from './abis/Queue';
+import { EncodedCall } from './flashloan.types';
+import { QueueCallPolicy, QueueSelectorRule, QueueTargetAbis } from './queue.types';
+
+// same as `Queue.NO_VALUE_CAP`
+export const NO_VALUE_CAP = maxUint256;
+
+export type FunctionSelector = {
+	name: string;
+	signature: string;
+	selector: Hex;
+};
+
+// selectors of the abi functions, all overloads of the given names or all non-view functions if no names are given
+export function getFunctionSelectors(abi: Abi, names?: string[]): FunctionSelector[] {
+	const functions = abi.filter(
+		(item): item is AbiFunction =>
+			item.type == 'function' &&
+			(names ? names.includes(item.name) : item.stateMutability != 'view' && item.stateMutability != 'pure')
+	);
+
+	const missing = names?.filter((name) => !functions.some((f) => f.name == name)) ?? [];
+	if (missing.length > 0) throw new Error(`Functions not found in abi: ${missing.join(', ')}`);
+
+	return functions.map((f) => ({ name: f.name, signature: toFunctionSignature(f), selector: toFunctionSelector(f) }));
+}
+
+// signature of a selector in the abi, undefined if unknown
+export function getSelectorSignature(abi: Abi, selector: Hex): string | undefined {
+	const functions = abi.filter((item): item is AbiFunction => item.type == 'function');
+	const match = functions.find((f) => toFunctionSelector(f) == selector.toLowerCase());
+	return match ? toFunctionSignature(match) : undefined;
+}
+
+export async function readQueueCallPolicy(client: PublicClient, queue: Address, abis: QueueTargetAbis = {}): Promise<QueueCallPolicy> {
+	const [unrestricted, targets, selectorTargets] = await Promise.all([
+		client.readContract({ address: queue, abi: QueueABI, functionName: 'isTargetAllowed', args: [zeroAddress] }),
+		client.readContract({ address: queue, abi: QueueABI, functionName: 'getAllowedTargets' }),
+		client.readContract({ address: queue, abi: QueueABI, functionName: 'getSelectorTargets' }),
+	]);
+
+	const rules = await Promise.all(
+		selectorTargets.map(async (target): Promise<QueueSelectorRule[]> => {
+			const [selectors, maxValues] = await client.readContract({
+				address: queue,
+				abi: QueueABI,
+				functionName: 'getAllowedSelectors',
+				args: [target],
+			});
+			const abi = Object.entries(abis).find(([address]) => address.toLowerCase() == target.toLowerCase())?.[1];
+
+			return selectors.map((selector, i) => ({
+				target,
+				selector,
+				maxValue: maxValues[i],
+				signature: abi ? getSelectorSignature(abi, selector) : undefined,
+			}));
+		})
+	);
+
+	return { restricted: !unrestricted, targets: [...targets], selectors: rules.flat() };
+}
+
+// ---------------------------------------------------------------------------------------
+// admin calls, sent directly with sendQueueCall
+
+// one allowSelector call per function of the abi with the given names, see getFunctionSelectors
+export function getAllowSelectorCalls(
+	queue: Address,
+	target: Address,
+	abi: Abi,
+	names: string[],
+	maxValue: bigint = NO_VALUE_CAP
+): EncodedCall[] {
+	return getFunctionSelectors(abi, names).map(({ selector }) => getAllowSelectorCall(queue, target, selector, maxValue));
+}
+
+export function getAllowSelectorCall(queue: Address, target: Address, selector: Hex, maxValue: bigint = NO_VALUE_CAP): EncodedCall {
+	return {
+		to: queue,
+		data: encodeFunctionData({ abi: QueueABI, functionName: 'allowSelector', args: [target, selector, maxValue] }),
+		value: 0n,
+	};
+}
+
+export function getDisallowSelectorCall(queue: Address, target: Address, selector: Hex): EncodedCall {
+	return {
+		to: queue,
+		data: encodeFunctionData({ abi: QueueABI, functionName: 'disallowSelector', args: [target, selector] }),
+		value: 0n,
+	};
+}
@@ -0,0 +1,82 @@
+import { Address, Hex, PublicClient, encodeFunctionData, recoverTypedDataAddress } from 'viem';
+import { QueueABI } from './abis/Queue';
+import { AuthorizationSigner, generateAuthorizationNonce, isLocalAccount } from './authorization.signer';
+import { EncodedCall } from './flashloan.types';
+import {
+	QUEUE_DOMAIN_NAME,
+	QUEUE_DOMAIN_VERSION,
+	QUEUE_SIGNED_BATCH_TYPES,
+	QueueDomain,
+	SignedBatch,
+	SignedBatchMessage,
+	SignedBatchParams,
+} from './queue.types';
+
+export function getQueueDomain(chainId: number, verifyingContract: Address): QueueDomain {
+	return {
+		name: QUEUE_DOMAIN_NAME,
+		version: QUEUE_DOMAIN_VERSION,
+		chainId,
+		verifyingContract,
+	};
+}
+
+export function getSignedBatchMessage(params: SignedBatchParams): SignedBatchMessage {
+	return {
+		actions: params.actions,
+		allowFailureMap: params.allowFailureMap ?? 0n,
+		nonce: params.nonce ?? generateAuthorizationNonce(),
+		deadline: params.deadline,
+	};
+}
+
+// the signer needs the SIGNER role of the queue, any account can relay the result
+export async function signQueueBatch(signer: AuthorizationSigner, params: SignedBatchParams): Promise<SignedBatch> {
+	const message = getSignedBatchMessage(params);
+	const typedData = {
+		domain: getQueueDomain(params.chainId, params.verifyingContract),
+		types: QUEUE_SIGNED_BATCH_TYPES,
+		primaryType: 'SignedBatch',
+		message,
+	} as const;
+
+	const signature = isLocalAccount(signer)
+		? await signer.signTypedData(typedData)
+		: await signer.signTypedData({ account: signer.account, ...typedData });
+
+	return { ...message, signature };
+}
+
+export async function recoverQueueBatchSigner(chainId: number, verifyingContract: Address, batch: SignedBatch): Promise<Address> {
+	const { signature, ...message } = batch;
+	return recoverTypedDataAddress({
+		domain: getQueueDomain(chainId, verifyingContract),
+		types: QUEUE_SIGNED_BATCH_TYPES,
+		primaryType: 'SignedBatch',
+		message,
+		signature,
+	});
+}
+
+// true once the nonce is used by an executed batch or cancelled
+export async function readQueueNonceUsed(client: PublicClient, queue: Address, signer: Address, nonce: Hex): Promise<boolean> {
+	return await client.readContract({ address: queue, abi: QueueABI, functionName: 'nonces', args: [signer, nonce] });
+}
+
+// relayed by any account, e.g. with sendQueueCall
+export function getExecuteSignedBatchCall(queue: Address, batch: SignedBatch): EncodedCall {
+	return {
+		to: queue,
+		data: encodeFunctionData({
+			abi: QueueABI,
+			functionName: 'executeSignedBatch',
+			args: [batch.actions, batch.allowFailureMap, batch.nonce, batch.deadline, batch.signature],
+		}),
+		value: 0n,
+	};
+}
+
+// sent by the signer to invalidate a batch it signed
+export function getCancelAuthorizationCall(queue: Address, nonce: Hex): EncodedCall {
+	return { to: queue, data: encodeFunctionData({ abi: QueueABI, functionName: 'cancelAuthorization', args: [nonce] }), value: 0n };
+}
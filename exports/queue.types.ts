@@ -0,0 +1,138 @@
+import { Abi, Address, Hash, Hex, keccak256, toHex, zeroHash } from 'viem';
+
+// role ids of contracts/queue/Queue.sol
+export const QUEUE_ROLES = {
+	ADMIN: zeroHash, // configuration, roles, unpause and emergency withdrawals
+	PROPOSER: keccak256(toHex('PROPOSER_ROLE')), // queueBatch
+	EXECUTOR: keccak256(toHex('EXECUTOR_ROLE')), // executeBatch and executeQueuedBatch
+	CANCELLER: keccak256(toHex('CANCELLER_ROLE')), // cancelBatch
+	PAUSER: keccak256(toHex('PAUSER_ROLE')), // pause
+	SIGNER: keccak256(toHex('SIGNER_ROLE')), // signs batches for executeSignedBatch
+} as const;
+
+export type QueueRole = keyof typeof QUEUE_ROLES;
+
+// mirrors `struct Action` in contracts/queue/Queue.sol
+export type QueueAction = {
+	target: Address;
+	value: bigint;
+	data: Hex;
+};
+
+// abi per target, used before the exported contract abis to resolve custom errors
+export type QueueTargetAbis = Record<Address, Abi>;
+
+export type RevertReasonKind =
+	| 'error' // Error(string) of require and revert with a message
+	| 'panic' // Panic(uint256) of assert, overflows, division by zero, ...
+	| 'custom' // custom error found in the given or exported abis
+	| 'empty' // revert without data, e.g. a bare `revert()` or a call to a contract without fallback
+	| 'unknown'; // selector not found in any abi
+
+export type RevertReason = {
+	kind: RevertReasonKind;
+	name?: string; // error name, undefined for empty and unknown reverts
+	args: readonly unknown[];
+	reason: string; // human readable
+	data: Hex; // raw revert data
+};
+
+// decoded `ActionFailed(batchId, actionIndex, reason)` of a Queue batch
+export type QueueActionFailure = {
+	batchId: bigint;
+	actionIndex: number;
+	target?: Address; // undefined if the BatchExecuted log of the batch is missing
+	revert: RevertReason;
+};
+
+// mirrors `enum BatchState` in contracts/queue/Queue.sol
+export enum QueueBatchState {
+	NONE = 0,
+	QUEUED = 1,
+	EXECUTED = 2,
+	CANCELLED = 3,
+}
+
+export type QueueBatchStatus =
+	| 'waiting' // queued, before the eta
+	| 'ready' // queued, within the execution window
+	| 'expired' // queued, after the expiry
+	| 'executed'
+	| 'cancelled';
+
+// a batch queued with `queueBatch`, rebuilt from the BatchQueued, BatchCancelled and BatchExecuted events
+export type QueuedBatch = {
+	batchId: bigint;
+	actions: QueueAction[];
+	allowFailureMap: bigint;
+	eta: bigint;
+	expiry: bigint; // zero if the batch does not expire
+	status: QueueBatchStatus;
+	blockNumber: bigint; // block of the BatchQueued event
+	transactionHash: Hash;
+};
+
+export type QueueAccountRoles = Record<QueueRole, boolean>;
+
+// function of a target allowed with `Queue.allowSelector`
+export type QueueSelectorRule = {
+	target: Address;
+	selector: Hex;
+	maxValue: bigint; // NO_VALUE_CAP if uncapped
+	signature?: string; // resolved from the given abi of the target
+};
+
+// allowlists of a Queue, as enumerated by its view functions
+export type QueueCallPolicy = {
+	restricted: boolean; // false after `disableTargetRestrictions`
+	targets: Address[]; // allowed as a whole
+	selectors: QueueSelectorRule[];
+};
+
+// EIP-712 domain of Queue, see `EIP712('Queue', '1')`
+export const QUEUE_DOMAIN_NAME = 'Queue';
+export const QUEUE_DOMAIN_VERSION = '1';
+
+// must match `SIGNED_BATCH_TYPEHASH` and `ACTION_TYPEHASH` in Queue.sol
+export const QUEUE_SIGNED_BATCH_TYPES = {
+	SignedBatch: [
+		{ name: 'actions', type: 'Action[]' },
+		{ name: 'allowFailureMap', type: 'uint256' },
+		{ name: 'nonce', type: 'bytes32' },
+		{ name: 'deadline', type: 'uint256' },
+	],
+	Action: [
+		{ name: 'target', type: 'address' },
+		{ name: 'value', type: 'uint256' },
+		{ name: 'data', type: 'bytes' },
+	],
+} as const;
+
+export type QueueDomain = {
+	name: typeof QUEUE_DOMAIN_NAME;
+	version: typeof QUEUE_DOMAIN_VERSION;
+	chainId: number;
+	verifyingContract: Address;
+};
+
+// signed part of an `executeSignedBatch` call
+export type SignedBatchMessage = {
+	actions: QueueAction[];
+	allowFailureMap: bigint;
+	nonce: Hex;
+	deadline: bigint;
+};
+
+// arguments of `executeSignedBatch`, keys in solidity parameter order
+export type SignedBatch = SignedBatchMessage & {
+	signature: Hex;
+};
+
+export type SignedBatchParams = {
+	chainId: number;
+	verifyingContract: Address;
+	actions: QueueAction[];
+	allowFailureMap?: bigint; // 0 if omitted
+	nonce?: Hex; // random bytes32 if omitted
+	deadline: bigint;
+};
@@ -0,0 +1,42 @@
+import { Address, Hex, concat, getAddress, hexToNumber, numberToHex, size, slice } from 'viem';
+
+// uniswap v3 path, token (20 bytes) followed by fee (3 bytes) and the next token for every hop
+const ADDR_SIZE = 20;
+const FEE_SIZE = 3;
+const HOP_SIZE = ADDR_SIZE + FEE_SIZE;
+
+// off-chain equivalent of LeverageMorpho.encodePath, fees in hundredths of a bip (500 = 0.05%)
+export function encodePath(tokens: readonly Address[], fees: readonly number[]): Hex {
+	if (tokens.length < 2 || tokens.length - 1 != fees.length) throw new Error('Path needs one fee between every two tokens');
+
+	const parts: Hex[] = [];
+	for (let i = 0; i < fees.length; i++) {
+		if (!Number.isInteger(fees[i]) || fees[i] < 0 || fees[i] >= 2 ** 24) throw new Error(`Invalid fee: ${fees[i]}`);
+		parts.push(tokens[i], numberToHex(fees[i], { size: FEE_SIZE }));
+	}
+	parts.push(tokens[tokens.length - 1]);
+
+	// lowercase like the bytes returned onchain, addresses are checksummed
+	return concat(parts).toLowerCase() as Hex;
+}
+
+export function decodePath(path: Hex): { tokens: Address[]; fees: number[] } {
+	const length = size(path);
+	if (length < HOP_SIZE + ADDR_SIZE || (length - ADDR_SIZE) % HOP_SIZE != 0) throw new Error(`Invalid path length: ${length}`);
+
+	const tokens: Address[] = [];
+	const fees: number[] = [];
+	for (let i = 0; i < length - ADDR_SIZE; i += HOP_SIZE) {
+		tokens.push(getAddress(slice(path, i, i + ADDR_SIZE)));
+		fees.push(hexToNumber(slice(path, i + ADDR_SIZE, i + HOP_SIZE)));
+	}
+	tokens.push(getAddress(slice(path, length - ADDR_SIZE)));
+
+	return { tokens, fees };
+}
+
+// path of the opposite swap direction, e.g. collateral --> loan from loan --> collateral
+export function reversePath(path: Hex): Hex {
+	const { tokens, fees } = decodePath(path);
+	return encodePath([...tokens].reverse(), [...fees].reverse());
+}
@@ -31,6 +31,9 @@ console.log(wallet.address, `index: `, wallet.index);
 const alchemy = process.env.ALCHEMY_RPC_KEY;
 if (alchemy?.length == 0 || !alchemy) console.log('WARN: No Alchemy Key found in .env');
 
+// tests run against local mocks, set FORK_MAINNET=true to fork mainnet instead
+const forkMainnet = process.env.FORK_MAINNET == 'true';
+
 const etherscan = process.env.ETHERSCAN_API;
 if (etherscan?.length == 0 || !etherscan) console.log('WARN: No Etherscan Key found in .env');
 
@@ -63,6 +66,7 @@ const config: HardhatUserConfig = {
 		},
 		hardhat: {
 			forking: {
+				enabled: forkMainnet,
 				url: `https://eth-mainnet.g.alchemy.com/v2/${alchemy}`,
 				blockNumber: 23887624,
 			},
@@ -71,7 +75,7 @@ const config: HardhatUserConfig = {
 			gasMultiplier: 2,
 		},
 		tenderly: {
-			url: process.env.TENDERLY_RPC_URL,
+			url: process.env.TENDERLY_RPC_URL ?? '',
 			chainId: 42069,
 			gas: 'auto',
 			gasPrice: 'auto',
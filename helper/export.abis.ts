@@ -0,0 +1,70 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+// contracts to export as `as const` ABIs, relative to /contracts
+// <-- add new contracts here and run `yarn run abis`
+export const CONTRACTS: string[] = [
+	'auth/AuthorizationProcessor.sol:AuthorizationProcessor',
+	'queue/Queue.sol:Queue',
+	'flashloan/FlashloanOrchestrator.sol:FlashloanOrchestrator',
+	'flashloan/FlashloanHook_SavingsVaultZCHF.sol:FlashloanHook_SavingsVaultZCHF',
+	'flashloan/FlashloanHook_ERC4626.sol:FlashloanHook_ERC4626',
+	'flashloan/FlashloanHookFactory_ERC4626.sol:FlashloanHookFactory_ERC4626',
+	'flashloan/FlashloanHook_UniswapV3.sol:FlashloanHook_UniswapV3',
+	'flashloan/FlashloanHookRegistry.sol:FlashloanHookRegistry',
+	'vault/SavingsVaultZCHF.sol:SavingsVaultZCHF',
+	'vault/SavingsVaultZCHF_2.sol:SavingsVaultZCHF_2',
+	'vault/SavingsVaultZCHFMorpho.sol:SavingsVaultZCHFMorpho',
+	'vault/helpers/ISavingsZCHF.sol:ISavingsZCHF',
+	'leverage/LeverageMorpho.sol:LeverageMorpho',
+	'leverage/LeverageMorphoFactory.sol:LeverageMorphoFactory',
+	'morpho/IMorpho.sol:IMorpho',
+	'morpho/IIrm.sol:IIrm',
+	'morpho/IOracle.sol:IOracle',
+	'morpho/IMetaMorphoV1_1.sol:IMetaMorphoV1_1',
+];
+
+const root: string = join(__dirname, '..');
+const artifacts: string = join(root, 'artifacts', 'contracts');
+const target: string = join(root, 'exports', 'abis');
+
+// serializes like prettier would format the hand written files in /exports/abis
+function serialize(value: unknown, depth: number): string {
+	const indent = '\t'.repeat(depth + 1);
+	const closing = '\t'.repeat(depth);
+
+	if (Array.isArray(value)) {
+		if (value.length == 0) return '[]';
+		return `[\n${value.map((v: unknown) => indent + serialize(v, depth + 1) + ',').join('\n')}\n${closing}]`;
+	} else if (value !== null && typeof value === 'object') {
+		const entries: [string, unknown][] = Object.entries(value);
+		if (entries.length == 0) return '{}';
+		const lines = entries.map(([k, v]) => {
+			const key = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(k) ? k : `'${k}'`;
+			return `${indent}${key}: ${serialize(v, depth + 1)},`;
+		});
+		return `{\n${lines.join('\n')}\n${closing}}`;
+	} else if (typeof value === 'string') {
+		return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+	} else {
+		return String(value);
+	}
+}
+
+export function exportAbi(contract: string): string {
+	const [source, name] = contract.split(':');
+	const artifact = join(artifacts, source, `${name}.json`);
+	if (!existsSync(artifact)) throw new Error(`Missing artifact for ${contract}, run "yarn run compile" first`);
+
+	const { abi } = JSON.parse(readFileSync(artifact, 'utf-8'));
+	const file = join(target, `${name}.ts`);
+	writeFileSync(file, `export const ${name}ABI = ${serialize(abi, 0)} as const;\n`);
+
+	return file;
+}
+
+if (require.main === module) {
+	for (const contract of CONTRACTS) {
+		console.log('Exported:', exportAbi(contract));
+	}
+}
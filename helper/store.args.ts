@@ -1,4 +1,4 @@
-import { writeFileSync } from 'fs';
+import { readFileSync, writeFileSync } from 'fs';
 
 export function storeConstructorArgs(deployment: string, args: any[], timestamp: boolean = false) {
 	const d: string[] = new Date().toLocaleString().split(', ');
@@ -15,3 +15,45 @@ export function storeConstructorArgs(deployment: string, args: any[], timestamp:
 		)};`
 	);
 }
+
+// the journal encodes bigints as { _kind: 'bigint', value }, they are stored as decimal strings
+function decodeJournalArg(arg: unknown): unknown {
+	if (Array.isArray(arg)) return arg.map(decodeJournalArg);
+	if (arg !== null && typeof arg === 'object') {
+		const value = arg as Record<string, unknown>;
+		if (value._kind === 'bigint') return value.value;
+		return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, decodeJournalArg(v)]));
+	}
+	return arg;
+}
+
+// resolved constructor args per contract name of an ignition deployment, incl. addresses of contracts deployed by the same module
+export function readDeploymentConstructorArgs(deployment: string): Record<string, unknown[]> {
+	const dir: string = __dirname.split('/').slice(0, -1).join('/') + '/ignition/deployments/';
+	const journal = readFileSync(`${dir}${deployment}/journal.jsonl`, 'utf-8');
+	const args: Record<string, unknown[]> = {};
+
+	for (const line of journal.split('\n')) {
+		if (line.trim().length == 0) continue;
+		const entry = JSON.parse(line);
+		if (entry.type != 'DEPLOYMENT_EXECUTION_STATE_INITIALIZE') continue;
+		args[entry.contractName] = entry.constructorArgs.map(decodeJournalArg);
+	}
+
+	return args;
+}
+
+// stores the args of contracts which depend on others of the same module, known only after the deployment
+export function storeDeploymentConstructorArgs(deployment: string): string[] {
+	const args = readDeploymentConstructorArgs(deployment);
+	for (const [contractName, contractArgs] of Object.entries(args)) storeConstructorArgs(contractName, contractArgs);
+	return Object.keys(args);
+}
+
+if (require.main === module) {
+	const deployment = process.argv[2];
+	if (deployment == undefined) throw new Error('Usage: yarn run args [deployment]');
+	for (const contractName of storeDeploymentConstructorArgs(deployment)) {
+		console.log('Stored:', `ignition/constructor-args/${contractName}.js`);
+	}
+}
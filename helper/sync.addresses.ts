@@ -0,0 +1,133 @@
+import { readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Address, getAddress } from 'viem';
+import { ADDRESS } from '../exports/address.config';
+import { ChainAddressName, isChainId } from '../exports/address.lookup';
+
+// maps deployment id (folder in /ignition/deployments) and future id to the named key in ADDRESS
+// <-- add every new deployment here
+export const DEPLOYMENTS: Record<string, Record<string, ChainAddressName>> = {
+	AuthorizationProcessor_1: {
+		'AuthorizationProcessorModule#AuthorizationProcessor': 'authorizationProcessor',
+	},
+	SavingsVaultZCHF_0: {
+		'SavingsVaultZCHFModule#SavingsVaultZCHF': 'savingsVaultZCHF',
+	},
+	SavingsVaultZCHFMorpho_0: {
+		'SavingsVaultZCHFMorphoModule#SavingsVaultZCHFMorpho': 'savingsVaultZCHFMorpho',
+	},
+	SavingsVaultZCHFMorpho_1: {
+		'SavingsVaultZCHFMorphoModule#SavingsVaultZCHFMorpho': 'savingsVaultZCHFMorpho_1',
+	},
+	SavingsVaultZCHF_2_mainnet: {
+		'SavingsVaultZCHF_2Module#SavingsVaultZCHF_2': 'savingsVaultZCHF_2',
+	},
+	SavingsVaultZCHF_2_gnosis: {
+		'SavingsVaultZCHF_2Module#SavingsVaultZCHF_2': 'savingsVaultZCHF_2',
+	},
+};
+
+export type DeployedAddress = {
+	deployment: string;
+	futureId: string;
+	chainId: number;
+	key: ChainAddressName;
+	address: Address;
+};
+
+export type AddressMismatch = DeployedAddress & {
+	configured: Address | undefined;
+};
+
+const root: string = join(__dirname, '..');
+const deploymentsDir: string = join(root, 'ignition', 'deployments');
+const configFile: string = join(root, 'exports', 'address.config.ts');
+
+export function readChainId(deployment: string): number {
+	const journal = readFileSync(join(deploymentsDir, deployment, 'journal.jsonl'), 'utf-8');
+	for (const line of journal.split('\n')) {
+		if (line.trim().length == 0) continue;
+		const entry = JSON.parse(line);
+		if (entry.type == 'DEPLOYMENT_INITIALIZE') return entry.chainId;
+	}
+	throw new Error(`No DEPLOYMENT_INITIALIZE entry found in journal of ${deployment}`);
+}
+
+export function readDeployments(): DeployedAddress[] {
+	const deployed: DeployedAddress[] = [];
+
+	for (const deployment of readdirSync(deploymentsDir)) {
+		const keys = DEPLOYMENTS[deployment];
+		if (keys == undefined) throw new Error(`Deployment ${deployment} has no entry in DEPLOYMENTS`);
+
+		const chainId = readChainId(deployment);
+		const addresses: Record<string, string> = JSON.parse(
+			readFileSync(join(deploymentsDir, deployment, 'deployed_addresses.json'), 'utf-8')
+		);
+
+		for (const [futureId, address] of Object.entries(addresses)) {
+			const key = keys[futureId];
+			if (key == undefined) throw new Error(`Contract ${futureId} of ${deployment} has no entry in DEPLOYMENTS`);
+			deployed.push({ deployment, futureId, chainId, key, address: getAddress(address) });
+		}
+	}
+
+	return deployed;
+}
+
+export function findMismatches(deployed: DeployedAddress[] = readDeployments()): AddressMismatch[] {
+	const mismatches: AddressMismatch[] = [];
+
+	for (const d of deployed) {
+		if (!isChainId(d.chainId)) throw new Error(`Chain ${d.chainId} of ${d.deployment} is not part of ADDRESS`);
+
+		// the key may only exist on other chains, e.g. mainnet only contracts
+		const chain: Partial<Record<ChainAddressName, Address>> = ADDRESS[d.chainId];
+		const configured = chain[d.key];
+		if (configured == undefined || getAddress(configured) != d.address) {
+			mismatches.push({ ...d, configured });
+		}
+	}
+
+	return mismatches;
+}
+
+// rewrites the value of existing keys within the chain block of address.config.ts
+export function writeMismatches(mismatches: AddressMismatch[]) {
+	let config = readFileSync(configFile, 'utf-8');
+
+	for (const m of mismatches) {
+		if (m.configured == undefined) {
+			throw new Error(`Key ${m.key} is missing for chain ${m.chainId}, extend address.types.ts and address.config.ts first`);
+		}
+
+		const start = config.indexOf(`\t\tchainId: ${m.chainId},\n`);
+		const end = config.indexOf('\n\t},', start);
+		if (start < 0 || end < 0) throw new Error(`Chain ${m.chainId} not found in address.config.ts`);
+
+		const block = config.slice(start, end).replace(new RegExp(`(\\n\\t\\t${m.key}: )[^,]+,`), `$1'${m.address}',`);
+		config = config.slice(0, start) + block + config.slice(end);
+	}
+
+	writeFileSync(configFile, config);
+}
+
+if (require.main === module) {
+	const write = process.argv.includes('--write');
+	const mismatches = findMismatches();
+
+	for (const m of mismatches) {
+		console.log(`Mismatch: [${m.chainId}] ${m.key} (${m.deployment})`);
+		console.log(`  configured: ${m.configured ?? 'missing'}`);
+		console.log(`  deployed:   ${m.address}`);
+	}
+
+	if (mismatches.length == 0) {
+		console.log('Address config is in sync with ignition deployments');
+	} else if (write) {
+		writeMismatches(mismatches);
+		console.log(`Updated ${mismatches.length} address(es) in address.config.ts`);
+	} else {
+		process.exit(1);
+	}
+}
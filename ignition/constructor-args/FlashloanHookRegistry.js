@@ -0,0 +1 @@
+module.exports = ["0x0170F42f224b99CcbbeE673093589c5f9691dd06"];
\ No newline at end of file
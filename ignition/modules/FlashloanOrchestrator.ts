@@ -0,0 +1,37 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { storeConstructorArgs } from '../../helper/store.args';
+import { args, params } from '../params/FlashloanOrchestrator';
+
+// config and select
+export const NAME: string = 'FlashloanOrchestrator'; // <-- select smart contract
+export const FILE: string = 'FlashloanHookRegistry'; // <-- name exported file
+export const MOD: string = NAME + 'Module';
+console.log(NAME);
+
+console.log('Imported Params:');
+console.log(params);
+
+// export args, the orchestrator and hook take addresses of this module and are
+// stored after the deployment with `yarn run args [deployment]`, see helper/store.args.ts
+storeConstructorArgs(FILE, args);
+console.log('Constructor Args');
+console.log(args);
+
+// fail safe
+// process.exit();
+
+export default buildModule(MOD, (m) => {
+	const registry = m.contract('FlashloanHookRegistry', args);
+	const orchestrator = m.contract(NAME, [params.morpho, registry, params.weth]);
+	const hook = m.contract('FlashloanHook_SavingsVaultZCHF', [orchestrator, params.morpho, params.savingsVault, params.market]);
+
+	// register the hook, then hand the registry over (accepted by the owner, Ownable2Step)
+	const added = m.call(registry, 'addHook', [hook]);
+	m.call(registry, 'transferOwnership', [params.owner], { after: [added] });
+
+	return {
+		FlashloanHookRegistry: registry,
+		[NAME]: orchestrator,
+		FlashloanHook_SavingsVaultZCHF: hook,
+	};
+});
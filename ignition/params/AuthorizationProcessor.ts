@@ -0,0 +1,8 @@
+// params
+export type DeploymentParams = {};
+
+export const params: DeploymentParams = {};
+
+export type ConstructorArgs = [];
+
+export const args: ConstructorArgs = [];
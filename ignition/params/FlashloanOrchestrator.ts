@@ -0,0 +1,28 @@
+import { Address, Hash } from 'viem';
+import { mainnet } from 'viem/chains';
+import { ADDRESS } from '../../exports/address.config';
+
+// params
+export type DeploymentParams = {
+	deployer: Address;
+	owner: Address;
+	morpho: Address;
+	weth: Address;
+	savingsVault: Address;
+	market: Hash;
+};
+
+const addr = ADDRESS[mainnet.id];
+export const params: DeploymentParams = {
+	deployer: addr.deployer,
+	owner: addr.aragonWrytes,
+	morpho: addr.morphoBlue,
+	weth: addr.WETH,
+	savingsVault: addr.savingsVaultZCHF,
+	market: addr.marketZCHFSVZCHF,
+};
+
+// registry, owned by the deployer until the hook is registered
+export type ConstructorArgs = [Address];
+
+export const args: ConstructorArgs = [params.deployer];
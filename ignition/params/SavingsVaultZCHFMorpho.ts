@@ -0,0 +1,29 @@
+import { Address } from 'viem';
+import { mainnet } from 'viem/chains';
+import { ADDRESS } from '../../exports/address.config';
+
+// params
+export type DeploymentParams = {
+	morpho: Address;
+	loan: Address;
+	collateral: Address;
+	oracle: Address;
+	irm: Address;
+	lltv: bigint;
+	owner: Address;
+};
+
+const addr = ADDRESS[mainnet.id];
+export const params: DeploymentParams = {
+	morpho: addr.morphoBlue,
+	loan: addr.zchf,
+	collateral: addr.savingsVaultZCHF,
+	oracle: addr.marketZCHFSVZCHFOracle,
+	irm: addr.morphoIrm,
+	lltv: BigInt(965000000000000000),
+	owner: addr.aragonWrytes,
+};
+
+export type ConstructorArgs = [Address, Address, Address, Address, Address, bigint, Address];
+
+export const args: ConstructorArgs = [params.morpho, params.loan, params.collateral, params.oracle, params.irm, params.lltv, params.owner];
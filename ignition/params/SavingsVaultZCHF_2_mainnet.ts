@@ -0,0 +1,25 @@
+import { Address } from 'viem';
+import { mainnet } from 'viem/chains';
+import { ADDRESS } from '../../exports/address.config';
+
+// params
+export type DeploymentParams = {
+	owner: Address;
+	coin: Address;
+	savings: Address;
+	name: string;
+	symbol: string;
+};
+
+const addr = ADDRESS[mainnet.id];
+export const params: DeploymentParams = {
+	owner: addr.deployer,
+	coin: addr.zchf,
+	savings: addr.frankencoinSavings,
+	name: 'SavingsVault ZCHF',
+	symbol: 'svZCHF',
+};
+
+export type ConstructorArgs = [Address, Address, Address, string, string];
+
+export const args: ConstructorArgs = [params.owner, params.coin, params.savings, params.name, params.symbol];
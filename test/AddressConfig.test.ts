@@ -0,0 +1,13 @@
+import { expect } from 'chai';
+import { findMismatches, readDeployments } from '../helper/sync.addresses';
+
+describe('Address config', function () {
+	it('should map every ignition deployment to a named address', async function () {
+		const deployed = readDeployments();
+		expect(deployed.length).to.be.greaterThan(0);
+	});
+
+	it('should be in sync with the ignition deployments', async function () {
+		expect(findMismatches()).to.deep.equal([]);
+	});
+});
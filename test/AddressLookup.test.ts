@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { Address } from 'viem';
+import { gnosis, mainnet, polygon } from 'viem/chains';
+import { ADDRESS } from '../exports/address.config';
+import { ChainId } from '../exports/address.types';
+import {
+	AddressNotDeployedError,
+	ChainNotSupportedError,
+	findAddress,
+	getChainAddresses,
+	getChainAddressesBySelector,
+	getChainIdBySelector,
+	hasAddress,
+	isChainId,
+	lookupAddress,
+	requireAddress,
+} from '../exports/address.lookup';
+
+describe('Address lookup', function () {
+	it('should return the addresses of a chain', async function () {
+		expect(getChainAddresses(mainnet.id)).to.equal(ADDRESS[mainnet.id]);
+		expect(isChainId(100)).to.be.true;
+		expect(isChainId(31337)).to.be.false;
+		expect(() => getChainAddresses(31337 as ChainId)).to.throw(ChainNotSupportedError);
+	});
+
+	it('should resolve chains by ccip chain selector', async function () {
+		expect(getChainIdBySelector('5009297550715157269')).to.equal(mainnet.id);
+		expect(getChainIdBySelector(465200170687744372n)).to.equal(gnosis.id);
+		expect(getChainAddressesBySelector('4051577828743386545').chainId).to.equal(polygon.id);
+		expect(() => getChainIdBySelector('1')).to.throw(ChainNotSupportedError);
+	});
+
+	it('should find and require deployed addresses', async function () {
+		expect(requireAddress(mainnet.id, 'morphoBlue')).to.equal(ADDRESS[mainnet.id].morphoBlue);
+		expect(requireAddress(gnosis.id, 'savingsVaultZCHF_2')).to.equal(ADDRESS[gnosis.id].savingsVaultZCHF_2);
+		expect(findAddress(polygon.id, 'savingsVaultZCHF_2')).to.be.undefined;
+		expect(hasAddress(gnosis.id, 'zchf')).to.be.true;
+		expect(hasAddress(gnosis.id, 'morphoBlue')).to.be.false;
+
+		// @ts-expect-error morphoBlue is not part of side chains
+		expect(() => requireAddress(gnosis.id, 'morphoBlue')).to.throw(AddressNotDeployedError);
+		expect(() => requireAddress(polygon.id, 'savingsVaultZCHF_2')).to.throw(AddressNotDeployedError);
+	});
+
+	it('should reverse lookup an address', async function () {
+		expect(lookupAddress(ADDRESS[mainnet.id].morphoBlue.toLowerCase() as Address)).to.deep.equal([
+			{ chainId: mainnet.id, key: 'morphoBlue' },
+		]);
+		expect(lookupAddress(ADDRESS[gnosis.id].deployer)).to.deep.include({ chainId: gnosis.id, key: 'deployer' });
+		expect(lookupAddress(ADDRESS[gnosis.id].deployer)).to.deep.include({ chainId: mainnet.id, key: 'deployer' });
+		expect(lookupAddress('0x000000000000000000000000000000000000dEaD')).to.deep.equal([]);
+	});
+});
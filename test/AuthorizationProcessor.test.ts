@@ -2,15 +2,13 @@ import { expect } from 'chai';
 import { ethers, network } from 'hardhat';
 import { Contract, ContractFactory, Signer, Wallet } from 'ethers';
 import { AuthorizationProcessor } from '../typechain/contracts/x402/AuthorizationProcessor';
-import { IERC20 } from '../typechain/@openzeppelin/contracts/token/ERC20/IERC20';
-
-// USDC on Ethereum mainnet
-const USDC_ADDRESS = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
-const USDC_WHALE = '0x37305B1cD40574E4C5Ce33f8e8306Be057fD7341'; // Binance 14
+import { MockERC20 } from '../typechain';
+import { deployMockERC20 } from './helper/fixtures';
 
 describe('AuthorizationProcessor', function () {
 	let authProcessor: AuthorizationProcessor;
-	let usdc: IERC20;
+	let usdc: MockERC20; // mintable stand-in for USDC
+	let USDC_ADDRESS: string;
 	let owner: Signer;
 	let user1: Signer;
 	let signer: Signer;
@@ -35,45 +33,13 @@ describe('AuthorizationProcessor', function () {
 		const AuthProcessor = await ethers.getContractFactory('AuthorizationProcessor');
 		authProcessor = (await AuthProcessor.deploy()) as AuthorizationProcessor;
 
-		// Get USDC contract
-		usdc = (await ethers.getContractAt('IERC20', USDC_ADDRESS)) as IERC20;
-
-		// Fund test accounts with USDC from whale
-		await network.provider.request({
-			method: 'hardhat_impersonateAccount',
-			params: [USDC_WHALE],
-		});
-
-		const whale = await ethers.getSigner(USDC_WHALE);
-
-		// Fund whale with ETH for gas fees
-		await owner.sendTransaction({
-			to: USDC_WHALE,
-			value: ethers.parseEther('1.0'),
-		});
+		// Deploy USDC stand-in and fund test accounts
+		usdc = await deployMockERC20('USD Coin', 'USDC', 6);
+		USDC_ADDRESS = await usdc.getAddress();
 
-		// Check whale balance
-		const whaleBalance = await usdc.balanceOf(USDC_WHALE);
-		const requiredAmount = DEPOSIT_AMOUNT * 30n; // 10x for each of 3 accounts
-
-		if (whaleBalance < requiredAmount) {
-			throw new Error(
-				`Whale account doesn't have enough USDC. Has: ${ethers.formatUnits(whaleBalance, 6)}, Needs: ${ethers.formatUnits(
-					requiredAmount,
-					6
-				)}`
-			);
-		}
-
-		// Transfer USDC to test accounts
-		await usdc.connect(whale).transfer(ownerAddress, DEPOSIT_AMOUNT * 10n);
-		await usdc.connect(whale).transfer(user1Address, DEPOSIT_AMOUNT * 10n);
-		await usdc.connect(whale).transfer(signerAddress, DEPOSIT_AMOUNT * 10n);
-
-		await network.provider.request({
-			method: 'hardhat_stopImpersonatingAccount',
-			params: [USDC_WHALE],
-		});
+		await usdc.mint(ownerAddress, DEPOSIT_AMOUNT * 10n);
+		await usdc.mint(user1Address, DEPOSIT_AMOUNT * 10n);
+		await usdc.mint(signerAddress, DEPOSIT_AMOUNT * 10n);
 	});
 
 	describe('Authorization Management', function () {
@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { Address, getAddress, isHex, parseUnits, zeroAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { AuthorizationProcessor } from '../typechain';
+import {
+	generateAuthorizationNonce,
+	getAuthorizationDomain,
+	recoverAuthorizationSigner,
+	signAuthorization,
+} from '../exports/authorization.signer';
+import { OperationKind } from '../exports/authorization.types';
+
+// hardhat default account #0 (test test ... junk)
+const SIGNER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const USDC_ADDRESS = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+describe('AuthorizationProcessor signing sdk', function () {
+	const account = privateKeyToAccount(SIGNER_KEY);
+
+	let authProcessor: AuthorizationProcessor;
+	let verifyingContract: Address;
+	let chainId: number;
+
+	before(async function () {
+		const AuthProcessor = await ethers.getContractFactory('AuthorizationProcessor');
+		authProcessor = await AuthProcessor.deploy();
+		verifyingContract = getAddress(await authProcessor.getAddress());
+		chainId = Number(await network.provider.send('eth_chainId'));
+	});
+
+	it('should build the typed-data domain', async function () {
+		expect(getAuthorizationDomain(chainId, verifyingContract)).to.deep.equal({
+			name: 'AuthorizationProcessor',
+			version: '1',
+			chainId,
+			verifyingContract,
+		});
+	});
+
+	it('should generate random bytes32 nonces', async function () {
+		const a = generateAuthorizationNonce();
+		const b = generateAuthorizationNonce();
+
+		expect(isHex(a)).to.be.true;
+		expect(a.length).to.equal(66);
+		expect(a).to.not.equal(b);
+	});
+
+	it('should return the struct in solidity field order', async function () {
+		const auth = await signAuthorization(account, {
+			chainId,
+			verifyingContract,
+			kind: OperationKind.DEPOSIT,
+			from: account.address,
+			to: zeroAddress,
+			token: USDC_ADDRESS,
+			amount: parseUnits('1000', 6),
+			validBefore: 1n,
+		});
+
+		expect(Object.keys(auth)).to.deep.equal([
+			'kind',
+			'from',
+			'to',
+			'token',
+			'amount',
+			'nonce',
+			'validAfter',
+			'validBefore',
+			'signature',
+		]);
+		expect(auth.validAfter).to.equal(0n);
+	});
+
+	for (const kind of [OperationKind.TRANSFER, OperationKind.DEPOSIT, OperationKind.PROCESS, OperationKind.CLAIM]) {
+		it(`should produce a signature accepted by verifySignature (${OperationKind[kind]})`, async function () {
+			const validAfter = BigInt((await ethers.provider.getBlock('latest'))!.timestamp);
+			const auth = await signAuthorization(account, {
+				chainId,
+				verifyingContract,
+				kind,
+				from: account.address,
+				to: USDC_ADDRESS,
+				token: USDC_ADDRESS,
+				amount: parseUnits('500', 6),
+				validAfter,
+				validBefore: validAfter + 3600n,
+			});
+
+			expect(await authProcessor.verifySignature(auth)).to.equal(account.address);
+			expect(await recoverAuthorizationSigner(chainId, verifyingContract, auth)).to.equal(account.address);
+		});
+	}
+
+	it('should not verify against another verifying contract', async function () {
+		const auth = await signAuthorization(account, {
+			chainId,
+			verifyingContract: USDC_ADDRESS,
+			kind: OperationKind.TRANSFER,
+			from: account.address,
+			to: zeroAddress,
+			token: USDC_ADDRESS,
+			amount: 1n,
+			validBefore: 1n,
+		});
+
+		expect(await authProcessor.verifySignature(auth)).to.not.equal(account.address);
+	});
+});
@@ -0,0 +1,9 @@
+import { expect } from 'chai';
+import { readDeploymentConstructorArgs } from '../helper/store.args';
+
+describe('Constructor args', function () {
+	it('should read the resolved args of a deployment from its journal', async function () {
+		const args = readDeploymentConstructorArgs('SavingsVaultZCHF_2_mainnet');
+		expect(args).to.deep.equal({ SavingsVaultZCHF_2: require('../ignition/constructor-args/SavingsVaultZCHF_2_mainnet.js') });
+	});
+});
@@ -0,0 +1,159 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { parseEther } from 'ethers';
+import { Address, createPublicClient, custom, encodeAbiParameters, getAddress } from 'viem';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+	FlashloanHookRegistry,
+	FlashloanHook_SavingsVaultZCHF,
+	FlashloanOrchestrator,
+	IMorpho,
+	MockERC20,
+	SavingsVaultZCHF,
+} from '../typechain';
+import {
+	buildCloseToLoan,
+	buildDecreaseLeverage,
+	buildIncreaseLeverage,
+	encodeSavingsHookData,
+	getMissingPreconditions,
+} from '../exports/flashloan.builder';
+import { EncodedCall, LeveragePosition, SavingsHookContext, SavingsHookOpcode } from '../exports/flashloan.types';
+import { evm_increaseTime } from './helper';
+import { MarketParamsStruct, deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('FlashloanHook_SavingsVaultZCHF transaction builder', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+
+	let orchestrator: FlashloanOrchestrator;
+	let registry: FlashloanHookRegistry;
+	let hook: FlashloanHook_SavingsVaultZCHF;
+	let morpho: IMorpho;
+	let vault: SavingsVaultZCHF;
+	let zchf: MockERC20;
+	let marketId: string;
+	let marketParams: MarketParamsStruct;
+
+	let user: SignerWithAddress;
+	let context: SavingsHookContext;
+
+	const send = async (call: EncodedCall) => {
+		await (await user.sendTransaction({ to: call.to, data: call.data, value: call.value })).wait();
+	};
+
+	const getPosition = async (): Promise<LeveragePosition> => {
+		const p = await morpho.position(marketId, user);
+		const m = await morpho.market(marketId);
+		// SharesMathLib.toAssetsUp, interest since the last update is covered by the close buffer
+		const debt =
+			(p.borrowShares * (m.totalBorrowAssets + 1n) + m.totalBorrowShares + 1_000_000n - 1n) / (m.totalBorrowShares + 1_000_000n);
+		return { collateral: p.collateral, debt, price: await vault.price() };
+	};
+
+	const leverageOf = (p: LeveragePosition) => {
+		const value = (p.collateral * p.price) / parseEther('1');
+		return (value * parseEther('1')) / (value - p.debt);
+	};
+
+	before(async function () {
+		[, user] = await ethers.getSigners();
+		({ morpho, vault, zchf, marketId, marketParams } = await deployMorphoFixture());
+
+		({ orchestrator, registry } = await deployOrchestrator(morpho));
+		hook = await (await ethers.getContractFactory('FlashloanHook_SavingsVaultZCHF')).deploy(orchestrator, morpho, vault, marketId);
+		await registry.addHook(hook);
+
+		context = {
+			orchestrator: getAddress(await orchestrator.getAddress()),
+			hook: getAddress(await hook.getAddress()),
+			morpho: getAddress(await morpho.getAddress()),
+			loanToken: getAddress(await zchf.getAddress()),
+			collateralToken: getAddress(await vault.getAddress()),
+		};
+
+		await zchf.mint(user, parseEther('10000'));
+	});
+
+	it('should encode the hook data as abi.encode(uint8)', async function () {
+		for (const opcode of [0, 1, 2, 3]) {
+			expect(encodeSavingsHookData(opcode)).to.equal(encodeAbiParameters([{ type: 'uint8' }], [opcode]));
+		}
+		expect(await hook.INCREASE_LEVERAGE()).to.equal(SavingsHookOpcode.INCREASE_LEVERAGE);
+		expect(await hook.DECREASE_LEVERAGE()).to.equal(SavingsHookOpcode.DECREASE_LEVERAGE);
+		expect(await hook.CLOSE_TO_LOAN()).to.equal(SavingsHookOpcode.CLOSE_TO_LOAN);
+		expect(await hook.CLOSE_TO_COLLATERAL()).to.equal(SavingsHookOpcode.CLOSE_TO_COLLATERAL);
+	});
+
+	it('should reject invalid target leverage', async function () {
+		expect(() => buildIncreaseLeverage(context, { amount: parseEther('1000'), leverage: parseEther('1') })).to.throw();
+		expect(() =>
+			buildDecreaseLeverage(context, {
+				leverage: parseEther('1'),
+				position: { collateral: parseEther('3000'), debt: parseEther('2000'), price: parseEther('1') },
+			})
+		).to.throw();
+	});
+
+	it('should compute the flash amount and approvals for increasing leverage', async function () {
+		const tx = buildIncreaseLeverage(context, { amount: parseEther('1000'), leverage: parseEther('3') });
+
+		expect(tx.to).to.equal(context.orchestrator);
+		expect(tx.args[2]).to.equal(context.loanToken);
+		expect(tx.args[3]).to.equal(parseEther('2000'));
+		expect(tx.args[0]).to.deep.equal([context.loanToken]);
+		expect(tx.args[1]).to.deep.equal([parseEther('1000')]);
+		expect(tx.approvals.map((a) => [a.token, a.spender, a.amount])).to.deep.equal([
+			[context.loanToken, context.orchestrator, parseEther('1000')],
+		]);
+		expect(tx.authorization.authorized).to.equal(context.hook);
+	});
+
+	it('should list missing preconditions until they are sent', async function () {
+		const tx = buildIncreaseLeverage(context, { amount: parseEther('1000'), leverage: parseEther('3') });
+		const account = user.address as Address;
+
+		const missing = await getMissingPreconditions(client, account, tx);
+		expect(missing).to.deep.equal([tx.authorization, tx.approvals[0]]);
+
+		for (const call of missing) await send(call);
+		expect(await getMissingPreconditions(client, account, tx)).to.deep.equal([]);
+	});
+
+	it('should open a position at the target leverage', async function () {
+		await send(buildIncreaseLeverage(context, { amount: parseEther('1000'), leverage: parseEther('3') }));
+
+		const position = await getPosition();
+		expect(position.collateral).to.equal(parseEther('3000'));
+		expect(position.debt).to.be.approximately(parseEther('2000'), parseEther('0.001'));
+		expect(leverageOf(position)).to.be.approximately(parseEther('3'), parseEther('0.001'));
+	});
+
+	it('should increase an existing position to the target leverage', async function () {
+		const tx = buildIncreaseLeverage(context, { amount: parseEther('500'), leverage: parseEther('4'), position: await getPosition() });
+		for (const call of await getMissingPreconditions(client, user.address as Address, tx)) await send(call);
+		await send(tx);
+
+		expect(leverageOf(await getPosition())).to.be.approximately(parseEther('4'), parseEther('0.001'));
+	});
+
+	it('should decrease a position to the target leverage', async function () {
+		// wait for the vault to unlock
+		await evm_increaseTime(7 * 24 * 3600);
+		await morpho.accrueInterest(marketParams);
+
+		// the flashed collateral is withdrawn again, so morpho has to hold at least twice the flash amount
+		await send(buildDecreaseLeverage(context, { leverage: parseEther('3'), position: await getPosition() }));
+
+		expect(leverageOf(await getPosition())).to.be.approximately(parseEther('3'), parseEther('0.001'));
+	});
+
+	it('should close a position to the loan token', async function () {
+		const before = await zchf.balanceOf(user);
+		await send(buildCloseToLoan(context, { debt: (await getPosition()).debt }));
+
+		const position = await morpho.position(marketId, user);
+		expect(position.collateral).to.equal(0n);
+		expect(position.borrowShares).to.equal(0n);
+		expect(await zchf.balanceOf(user)).to.be.greaterThan(before);
+	});
+});
@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { MaxUint256, parseEther } from 'ethers';
+import { Address, Hex, decodeAbiParameters, encodeAbiParameters, getAddress, parseAbiParameters } from 'viem';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { FlashloanOrchestrator, MockContextHook, MockERC20, MockHook, MockStorageOrchestrator } from '../typechain';
+import { FlashloanAction } from '../exports/flashloan.types';
+import { deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('FlashloanOrchestrator gas', function () {
+	let orchestrator: FlashloanOrchestrator;
+	let storage: MockStorageOrchestrator;
+	let hook: MockHook;
+	let storageHook: MockHook;
+	let contextHook: MockContextHook;
+	let zchf: MockERC20;
+
+	let user: SignerWithAddress;
+	let addr: { hook: Address; storageHook: Address; contextHook: Address; zchf: Address };
+
+	// converts 1 zchf at par, padding extends the action data
+	const convert = (target: Address, amountIn: bigint, padding: number = 0): FlashloanAction => ({
+		target,
+		value: 0n,
+		data: (encodeAbiParameters(parseAbiParameters('address, address, uint256, uint256'), [
+			addr.zchf,
+			addr.zchf,
+			amountIn,
+			parseEther('1'),
+		]) + '00'.repeat(padding)) as Hex,
+	});
+
+	const gasUsed = async (target: FlashloanOrchestrator | MockStorageOrchestrator, actions: FlashloanAction[]) => {
+		const tx = await target.connect(user).execute([addr.zchf], [parseEther('1')], addr.zchf, parseEther('1000'), actions);
+		return (await tx.wait())!.gasUsed;
+	};
+
+	before(async function () {
+		[, user] = await ethers.getSigners();
+		const fixture = await deployMorphoFixture();
+		zchf = fixture.zchf;
+
+		// the previous storage-backed orchestrator shares the registry
+		let registry, weth;
+		({ orchestrator, registry, weth } = await deployOrchestrator(fixture.morpho));
+		storage = await (await ethers.getContractFactory('MockStorageOrchestrator')).deploy(fixture.morpho, registry, weth);
+
+		hook = await (await ethers.getContractFactory('MockHook')).deploy(orchestrator);
+		storageHook = await (await ethers.getContractFactory('MockHook')).deploy(storage);
+		contextHook = await (await ethers.getContractFactory('MockContextHook')).deploy(orchestrator);
+		await registry.addHook(hook);
+		await registry.addHook(storageHook);
+		await registry.addHook(contextHook);
+
+		await zchf.mint(user, parseEther('1000'));
+		await zchf.connect(user).approve(orchestrator, MaxUint256);
+		await zchf.connect(user).approve(storage, MaxUint256);
+
+		addr = {
+			hook: getAddress(await hook.getAddress()),
+			storageHook: getAddress(await storageHook.getAddress()),
+			contextHook: getAddress(await contextHook.getAddress()),
+			zchf: getAddress(await zchf.getAddress()),
+		};
+	});
+
+	for (const [actions, padding] of [
+		[1, 0],
+		[5, 0],
+		[20, 0],
+		[1, 512],
+	]) {
+		it(`should use less gas than the storage-backed context with ${actions} actions and ${padding} bytes padding`, async function () {
+			const used = await gasUsed(
+				orchestrator,
+				Array.from({ length: actions }, () => convert(addr.hook, 1n, padding))
+			);
+			const baseline = await gasUsed(
+				storage,
+				Array.from({ length: actions }, () => convert(addr.storageHook, 1n, padding))
+			);
+			expect(used).to.be.lessThan(baseline);
+		});
+	}
+
+	it('should expose the current action to hooks', async function () {
+		const action = { target: addr.contextHook, value: 0n, data: '0x01' as Hex };
+		const results = await orchestrator
+			.connect(user)
+			.execute.staticCall([addr.zchf], [parseEther('1')], addr.zchf, parseEther('1000'), [convert(addr.hook, 1n), action]);
+
+		const [index, target, data, amount] = decodeAbiParameters(
+			parseAbiParameters('uint256, address, bytes, uint256'),
+			results[1] as Hex
+		);
+		expect([index, target, data, amount]).to.deep.equal([1n, addr.contextHook, '0x01', parseEther('1')]);
+	});
+
+	it('should execute more than 255 actions', async function () {
+		const actions = Array.from({ length: 256 }, () => ({ target: addr.contextHook, value: 0n, data: '0x' as Hex }));
+		actions.push(convert(addr.hook, 1n));
+
+		await expect(orchestrator.connect(user).execute([addr.zchf], [parseEther('1')], addr.zchf, parseEther('1000'), actions))
+			.to.emit(hook, 'Converted')
+			.withArgs(addr.zchf, addr.zchf, 1n, 1n);
+	});
+
+	it('should expose the current action to hooks beyond 255 actions', async function () {
+		const actions = Array.from({ length: 256 }, () => ({ target: addr.contextHook, value: 0n, data: '0x' as Hex }));
+		actions.push({ target: addr.contextHook, value: 0n, data: '0x01' });
+
+		const results = await orchestrator
+			.connect(user)
+			.execute.staticCall([addr.zchf], [parseEther('1')], addr.zchf, parseEther('1000'), actions);
+
+		const [index, target, data, amount] = decodeAbiParameters(
+			parseAbiParameters('uint256, address, bytes, uint256'),
+			results[256] as Hex
+		);
+		expect([index, target, data, amount]).to.deep.equal([256n, addr.contextHook, '0x01', parseEther('1')]);
+	});
+
+	it('should execute with more than 255 provided tokens', async function () {
+		const tokens = Array.from({ length: 256 }, () => addr.zchf);
+		const amounts = tokens.map((_, i) => (i == 255 ? parseEther('1') : 0n));
+
+		await expect(orchestrator.connect(user).execute(tokens, amounts, addr.zchf, parseEther('1000'), [convert(addr.hook, 1n)]))
+			.to.emit(hook, 'Converted')
+			.withArgs(addr.zchf, addr.zchf, 1n, 1n);
+	});
+});
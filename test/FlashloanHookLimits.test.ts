@@ -0,0 +1,173 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { parseEther } from 'ethers';
+import { getAddress } from 'viem';
+import * as helper from '@nomicfoundation/hardhat-network-helpers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+	FlashloanHookRegistry,
+	FlashloanHook_SavingsVaultZCHF,
+	FlashloanOrchestrator,
+	IMorpho,
+	MockERC20,
+	SavingsVaultZCHF,
+} from '../typechain';
+import {
+	applySlippage,
+	buildCloseToLoan,
+	buildDecreaseLeverage,
+	buildIncreaseLeverage,
+	decodeSavingsHookData,
+	encodeSavingsHookData,
+	getDeadline,
+} from '../exports/flashloan.builder';
+import { EncodedCall, LeveragePosition, SavingsHookContext, SavingsHookOpcode } from '../exports/flashloan.types';
+import { evm_increaseTime } from './helper';
+import { MarketParamsStruct, deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('FlashloanHook_SavingsVaultZCHF slippage limits', function () {
+	let orchestrator: FlashloanOrchestrator;
+	let registry: FlashloanHookRegistry;
+	let hook: FlashloanHook_SavingsVaultZCHF;
+	let morpho: IMorpho;
+	let vault: SavingsVaultZCHF;
+	let zchf: MockERC20;
+	let marketId: string;
+	let marketParams: MarketParamsStruct;
+
+	let user: SignerWithAddress;
+	let context: SavingsHookContext;
+
+	const send = async (call: EncodedCall) => {
+		return user.sendTransaction({ to: call.to, data: call.data, value: call.value });
+	};
+
+	const getPosition = async (): Promise<LeveragePosition> => {
+		await morpho.accrueInterest(marketParams);
+		const p = await morpho.position(marketId, user);
+		const m = await morpho.market(marketId);
+		const debt =
+			(p.borrowShares * (m.totalBorrowAssets + 1n) + m.totalBorrowShares + 1_000_000n - 1n) / (m.totalBorrowShares + 1_000_000n);
+		return { collateral: p.collateral, debt, price: await vault.price() };
+	};
+
+	before(async function () {
+		[, user] = await ethers.getSigners();
+		({ morpho, vault, zchf, marketId, marketParams } = await deployMorphoFixture());
+
+		({ orchestrator, registry } = await deployOrchestrator(morpho));
+		hook = await (await ethers.getContractFactory('FlashloanHook_SavingsVaultZCHF')).deploy(orchestrator, morpho, vault, marketId);
+		await registry.addHook(hook);
+
+		context = {
+			orchestrator: getAddress(await orchestrator.getAddress()),
+			hook: getAddress(await hook.getAddress()),
+			morpho: getAddress(await morpho.getAddress()),
+			loanToken: getAddress(await zchf.getAddress()),
+			collateralToken: getAddress(await vault.getAddress()),
+		};
+
+		await zchf.mint(user, parseEther('10000'));
+		await zchf.connect(user).approve(orchestrator, parseEther('10000'));
+		await morpho.connect(user).setAuthorization(hook, true);
+	});
+
+	it('should keep the bare opcode encoding without limits', async function () {
+		const data = encodeSavingsHookData(SavingsHookOpcode.DECREASE_LEVERAGE);
+		expect(data.length).to.equal(2 + 64);
+		expect(decodeSavingsHookData(data)).to.deep.equal({ opcode: SavingsHookOpcode.DECREASE_LEVERAGE });
+
+		const [opcode, limits] = await hook.decodeData(data);
+		expect(opcode).to.equal(SavingsHookOpcode.DECREASE_LEVERAGE);
+		expect([limits.minAmountOut, limits.maxRepay, limits.deadline]).to.deep.equal([0n, 0n, 0n]);
+	});
+
+	it('should encode limits the way the hook decodes them', async function () {
+		const limits = { minAmountOut: 1n, maxRepay: 2n, deadline: 3n };
+		const data = encodeSavingsHookData(SavingsHookOpcode.CLOSE_TO_LOAN, limits);
+		expect(decodeSavingsHookData(data)).to.deep.equal({ opcode: SavingsHookOpcode.CLOSE_TO_LOAN, limits });
+
+		const [opcode, decoded] = await hook.decodeData(data);
+		expect(opcode).to.equal(SavingsHookOpcode.CLOSE_TO_LOAN);
+		expect([decoded.minAmountOut, decoded.maxRepay, decoded.deadline]).to.deep.equal([1n, 2n, 3n]);
+
+		// unset limits are encoded as zero
+		expect(decodeSavingsHookData(encodeSavingsHookData(SavingsHookOpcode.CLOSE_TO_LOAN, { deadline: 3n })).limits).to.deep.equal({
+			minAmountOut: 0n,
+			maxRepay: 0n,
+			deadline: 3n,
+		});
+	});
+
+	it('should reject action data of unknown length', async function () {
+		await expect(hook.decodeData('0x' + '00'.repeat(64)))
+			.to.be.revertedWithCustomError(hook, 'InvalidDataLength')
+			.withArgs(64);
+	});
+
+	it('should revert after the deadline', async function () {
+		const now = BigInt(await helper.time.latest());
+		const tx = buildIncreaseLeverage(context, { amount: parseEther('1000'), leverage: parseEther('3'), limits: { deadline: now } });
+
+		await helper.time.setNextBlockTimestamp(now + 10n);
+		await expect(send(tx))
+			.to.be.revertedWithCustomError(hook, 'DeadlineExpired')
+			.withArgs(now, now + 10n);
+	});
+
+	it('should revert an increase below the minimum svZCHF out', async function () {
+		const expected = await vault.previewDeposit(parseEther('3000'));
+		const tx = buildIncreaseLeverage(context, {
+			amount: parseEther('1000'),
+			leverage: parseEther('3'),
+			limits: { minAmountOut: expected + 1n },
+		});
+
+		await expect(send(tx))
+			.to.be.revertedWithCustomError(hook, 'InsufficientAmountOut')
+			.withArgs(expected, expected + 1n);
+	});
+
+	it('should open a position within the limits', async function () {
+		const expected = await vault.previewDeposit(parseEther('3000'));
+		const tx = buildIncreaseLeverage(context, {
+			amount: parseEther('1000'),
+			leverage: parseEther('3'),
+			limits: { minAmountOut: applySlippage(expected, 50n), deadline: getDeadline(600, BigInt(await helper.time.latest())) },
+		});
+
+		await expect(send(tx)).to.emit(hook, 'Executed');
+		expect((await morpho.position(marketId, user)).collateral).to.equal(expected);
+	});
+
+	it('should revert a decrease repaying more than the maximum', async function () {
+		// wait for the vault to unlock
+		await evm_increaseTime(7 * 24 * 3600);
+
+		const position = await getPosition();
+		const tx = buildDecreaseLeverage(context, { leverage: parseEther('2'), position, limits: { maxRepay: 1n } });
+
+		await expect(send(tx)).to.be.revertedWithCustomError(hook, 'ExcessiveRepay');
+	});
+
+	it('should revert a close below the minimum equity out', async function () {
+		const position = await getPosition();
+		const tx = buildCloseToLoan(context, { debt: position.debt, limits: { minAmountOut: parseEther('10000') } });
+
+		await expect(send(tx)).to.be.revertedWithCustomError(hook, 'InsufficientAmountOut');
+	});
+
+	it('should close a position within the limits', async function () {
+		const position = await getPosition();
+		const equity = (position.collateral * position.price) / parseEther('1') - position.debt;
+		const tx = buildCloseToLoan(context, {
+			debt: position.debt,
+			limits: { minAmountOut: applySlippage(equity, 50n), maxRepay: applySlippage(position.debt, -50n) },
+		});
+
+		const before = await zchf.balanceOf(user);
+		await send(tx);
+		expect(await zchf.balanceOf(user)).to.be.greaterThanOrEqual(before + applySlippage(equity, 50n));
+		expect((await morpho.position(marketId, user)).borrowShares).to.equal(0n);
+	});
+});
@@ -0,0 +1,131 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { Address, createPublicClient, createWalletClient, custom, getAddress, zeroAddress } from 'viem';
+import { hardhat } from 'viem/chains';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { FlashloanHookRegistry, FlashloanOrchestrator, MockERC20, MockHook } from '../typechain';
+import {
+	getAddHookCall,
+	getRemoveHookCall,
+	getSetHookPausedCall,
+	readHookRegistry,
+	readHookStatus,
+	sendHookRegistryCall,
+} from '../exports/hook.registry';
+import { deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('FlashloanHookRegistry', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+
+	let registry: FlashloanHookRegistry;
+	let orchestrator: FlashloanOrchestrator;
+	let hook: MockHook;
+	let zchf: MockERC20;
+
+	let owner: SignerWithAddress;
+	let user: SignerWithAddress;
+	let registryAddress: Address;
+	let hookAddress: Address;
+
+	// no-op conversion, enough to reach the hook
+	const execute = async () => {
+		const data = ethers.AbiCoder.defaultAbiCoder().encode(
+			['address', 'address', 'uint256', 'uint256'],
+			[zchf.target, zchf.target, 0n, 0n]
+		);
+		return orchestrator.connect(user).execute([], [], zchf, 1n, [{ target: hook, value: 0n, data }]);
+	};
+
+	before(async function () {
+		[owner, user] = await ethers.getSigners();
+		const fixture = await deployMorphoFixture();
+		zchf = fixture.zchf;
+
+		({ orchestrator, registry } = await deployOrchestrator(fixture.morpho));
+		hook = await (await ethers.getContractFactory('MockHook')).deploy(orchestrator);
+
+		registryAddress = getAddress(await registry.getAddress());
+		hookAddress = getAddress(await hook.getAddress());
+	});
+
+	describe('Governance', function () {
+		it('should restrict changes to the owner', async function () {
+			await expect(registry.connect(user).addHook(hook)).to.be.revertedWithCustomError(registry, 'OwnableUnauthorizedAccount');
+			await expect(registry.connect(user).setPaused(hook, true)).to.be.revertedWithCustomError(
+				registry,
+				'OwnableUnauthorizedAccount'
+			);
+			await expect(registry.connect(user).removeHook(hook)).to.be.revertedWithCustomError(registry, 'OwnableUnauthorizedAccount');
+		});
+
+		it('should add, pause and remove hooks with events', async function () {
+			await expect(registry.addHook(hook)).to.emit(registry, 'HookAdded').withArgs(hook);
+			await expect(registry.addHook(hook)).to.be.revertedWithCustomError(registry, 'HookAlreadyRegistered').withArgs(hook);
+			expect(await registry.isAllowed(hook)).to.be.true;
+
+			await expect(registry.setPaused(hook, true)).to.emit(registry, 'HookPaused').withArgs(hook, true);
+			expect(await registry.isRegistered(hook)).to.be.true;
+			expect(await registry.isAllowed(hook)).to.be.false;
+
+			await expect(registry.removeHook(hook)).to.emit(registry, 'HookRemoved').withArgs(hook);
+			await expect(registry.removeHook(hook)).to.be.revertedWithCustomError(registry, 'HookNotRegistered').withArgs(hook);
+			await expect(registry.setPaused(hook, false)).to.be.revertedWithCustomError(registry, 'HookNotRegistered').withArgs(hook);
+
+			// removing clears the pause, a re-added hook is allowed right away
+			expect(await registry.isPaused(hook)).to.be.false;
+			expect(await registry.getHooks()).to.deep.equal([]);
+		});
+	});
+
+	describe('Orchestrator', function () {
+		it('should reject unregistered hooks', async function () {
+			await expect(execute()).to.be.revertedWithCustomError(orchestrator, 'HookNotAllowed').withArgs(hook);
+		});
+
+		it('should call registered hooks', async function () {
+			await registry.addHook(hook);
+			await expect(execute()).to.emit(hook, 'Converted');
+		});
+
+		it('should reject paused hooks until they are resumed', async function () {
+			await registry.setPaused(hook, true);
+			await expect(execute()).to.be.revertedWithCustomError(orchestrator, 'HookNotAllowed').withArgs(hook);
+
+			await registry.setPaused(hook, false);
+			await expect(execute()).to.emit(hook, 'Converted');
+		});
+
+		it('should require a registry', async function () {
+			const Factory = await ethers.getContractFactory('FlashloanOrchestrator');
+			await expect(Factory.deploy(zchf, zeroAddress, zchf)).to.be.revertedWithCustomError(orchestrator, 'InvalidAddress');
+		});
+	});
+
+	describe('Admin client', function () {
+		it('should read the registry state', async function () {
+			const state = await readHookRegistry(client, registryAddress);
+
+			expect(state.owner).to.equal(owner.address);
+			expect(state.pendingOwner).to.equal(zeroAddress);
+			expect(state.hooks).to.deep.equal([{ hook: hookAddress, registered: true, paused: false, allowed: true }]);
+		});
+
+		it('should send owner calls', async function () {
+			const admin = createWalletClient({ account: owner.address as Address, chain: hardhat, transport: custom(network.provider) });
+
+			await sendHookRegistryCall(admin, getSetHookPausedCall(registryAddress, hookAddress, true));
+			expect(await readHookStatus(client, registryAddress, hookAddress)).to.deep.equal({
+				hook: hookAddress,
+				registered: true,
+				paused: true,
+				allowed: false,
+			});
+
+			await sendHookRegistryCall(admin, getRemoveHookCall(registryAddress, hookAddress));
+			expect((await readHookRegistry(client, registryAddress)).hooks).to.deep.equal([]);
+
+			await sendHookRegistryCall(admin, getAddHookCall(registryAddress, hookAddress));
+			expect((await readHookStatus(client, registryAddress, hookAddress)).allowed).to.be.true;
+		});
+	});
+});
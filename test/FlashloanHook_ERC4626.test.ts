@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { MaxUint256, parseEther } from 'ethers';
+import { getAddress } from 'viem';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+	FlashloanHookFactory_ERC4626,
+	FlashloanHookRegistry,
+	FlashloanHook_ERC4626,
+	FlashloanOrchestrator,
+	MockERC20,
+	SavingsVaultZCHF,
+	SavingsVaultZCHF_2,
+} from '../typechain';
+import { buildCloseToCollateral, buildDecreaseLeverage, buildIncreaseLeverage } from '../exports/flashloan.builder';
+import { EncodedCall, LeveragePosition, SavingsHookContext } from '../exports/flashloan.types';
+import { evm_increaseTime } from './helper';
+import {
+	MarketParamsStruct,
+	MorphoFixture,
+	createMarket,
+	deployMockERC20,
+	deployMorphoFixture,
+	deployOrchestrator,
+} from './helper/fixtures';
+
+describe('FlashloanHook_ERC4626', function () {
+	let fixture: MorphoFixture;
+	let orchestrator: FlashloanOrchestrator;
+	let registry: FlashloanHookRegistry;
+	let factory: FlashloanHookFactory_ERC4626;
+	let zchf: MockERC20;
+
+	let owner: SignerWithAddress;
+	let user: SignerWithAddress;
+
+	before(async function () {
+		[owner, user] = await ethers.getSigners();
+		fixture = await deployMorphoFixture();
+		zchf = fixture.zchf;
+
+		({ orchestrator, registry } = await deployOrchestrator(fixture.morpho));
+		factory = await (await ethers.getContractFactory('FlashloanHookFactory_ERC4626')).deploy(orchestrator, fixture.morpho);
+
+		await zchf.mint(user, parseEther('10000'));
+		await zchf.connect(user).approve(orchestrator, MaxUint256);
+	});
+
+	describe('Factory', function () {
+		it('should deploy one hook per market and emit the registry event', async function () {
+			const hook = await factory.create.staticCall(fixture.marketId);
+			await expect(factory.create(fixture.marketId)).to.emit(factory, 'Created').withArgs(hook, fixture.marketId, fixture.vault);
+
+			expect(await factory.hooks(fixture.marketId)).to.equal(hook);
+			await expect(factory.create(fixture.marketId))
+				.to.be.revertedWithCustomError(factory, 'HookExists')
+				.withArgs(fixture.marketId, hook);
+		});
+
+		it('should reject unknown markets', async function () {
+			const hook = await ethers.getContractAt('FlashloanHook_ERC4626', await factory.hooks(fixture.marketId));
+			await expect(factory.create(ethers.ZeroHash)).to.be.revertedWithCustomError(hook, 'InvalidMarket').withArgs(ethers.ZeroHash);
+		});
+
+		it('should reject vaults not wrapping the loan token', async function () {
+			const other = await deployMockERC20('Other', 'OTH');
+			const { marketId } = await createMarket(fixture.mockMorpho, other, fixture.vault, fixture.oracle, fixture.irm);
+
+			const hook = await ethers.getContractAt('FlashloanHook_ERC4626', await factory.hooks(fixture.marketId));
+			await expect(factory.create(marketId)).to.be.revertedWithCustomError(hook, 'InvalidVault').withArgs(fixture.vault);
+		});
+	});
+
+	// same lifecycle for the locking and the non-locking savings vault
+	for (const variant of ['SavingsVaultZCHF', 'SavingsVaultZCHF_2'] as const) {
+		describe(variant, function () {
+			let vault: SavingsVaultZCHF | SavingsVaultZCHF_2;
+			let hook: FlashloanHook_ERC4626;
+			let marketId: string;
+			let marketParams: MarketParamsStruct;
+			let context: SavingsHookContext;
+
+			const send = async (call: EncodedCall) => {
+				await (await user.sendTransaction({ to: call.to, data: call.data, value: call.value })).wait();
+			};
+
+			const getPosition = async (): Promise<LeveragePosition> => {
+				const p = await fixture.morpho.position(marketId, user);
+				const m = await fixture.morpho.market(marketId);
+				const debt =
+					(p.borrowShares * (m.totalBorrowAssets + 1n) + m.totalBorrowShares + 1_000_000n - 1n) /
+					(m.totalBorrowShares + 1_000_000n);
+				return { collateral: p.collateral, debt, price: await vault.price() };
+			};
+
+			const leverageOf = (p: LeveragePosition) => {
+				const value = (p.collateral * p.price) / parseEther('1');
+				return (value * parseEther('1')) / (value - p.debt);
+			};
+
+			before(async function () {
+				if (variant == 'SavingsVaultZCHF') {
+					vault = fixture.vault;
+					({ marketId, marketParams } = fixture);
+				} else {
+					const VaultFactory = await ethers.getContractFactory('SavingsVaultZCHF_2');
+					vault = await VaultFactory.deploy(owner, zchf, fixture.savings, 'SavingsVaultZCHF_2', 'svZCHF');
+					({ marketId, marketParams } = await createMarket(fixture.mockMorpho, zchf, vault, fixture.oracle, fixture.irm));
+					await factory.create(marketId);
+				}
+
+				hook = await ethers.getContractAt('FlashloanHook_ERC4626', await factory.hooks(marketId));
+				await registry.addHook(hook);
+				await fixture.morpho.connect(user).setAuthorization(hook, true);
+
+				context = {
+					orchestrator: getAddress(await orchestrator.getAddress()),
+					hook: getAddress(await hook.getAddress()),
+					morpho: getAddress(await fixture.morpho.getAddress()),
+					loanToken: getAddress(await zchf.getAddress()),
+					collateralToken: getAddress(await vault.getAddress()),
+				};
+			});
+
+			it('should wrap the market collateral', async function () {
+				expect(await hook.vault()).to.equal(context.collateralToken);
+				expect((await hook.market()).collateralToken).to.equal(context.collateralToken);
+			});
+
+			it('should increase leverage', async function () {
+				await send(buildIncreaseLeverage(context, { amount: parseEther('1000'), leverage: parseEther('3') }));
+				expect(leverageOf(await getPosition())).to.be.approximately(parseEther('3'), parseEther('0.001'));
+			});
+
+			it('should decrease leverage', async function () {
+				// wait for the locking vault to unlock
+				await evm_increaseTime(7 * 24 * 3600);
+				await fixture.morpho.accrueInterest(marketParams);
+
+				await send(buildDecreaseLeverage(context, { leverage: parseEther('2'), position: await getPosition() }));
+				expect(leverageOf(await getPosition())).to.be.approximately(parseEther('2'), parseEther('0.001'));
+			});
+
+			it('should close to the collateral token', async function () {
+				const collateral = await ethers.getContractAt('IERC20', context.collateralToken);
+				const before = await collateral.balanceOf(user);
+
+				await send(buildCloseToCollateral(context, { debt: (await getPosition()).debt }));
+
+				const position = await fixture.morpho.position(marketId, user);
+				expect(position.collateral).to.equal(0n);
+				expect(position.borrowShares).to.equal(0n);
+				expect(await collateral.balanceOf(user)).to.be.greaterThan(before);
+			});
+		});
+	}
+});
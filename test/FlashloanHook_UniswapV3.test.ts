@@ -0,0 +1,166 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { MaxUint256, parseEther } from 'ethers';
+import { Hex, getAddress } from 'viem';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { FlashloanHookRegistry, FlashloanHook_UniswapV3, FlashloanOrchestrator, IMorpho, MockERC20, MockSwapRouter } from '../typechain';
+import { encodeSwapHookData } from '../exports/flashloan.builder';
+import { SwapHookOpcode } from '../exports/flashloan.types';
+import { MarketParams } from '../exports/position.types';
+import { decodePath, encodePath, reversePath } from '../exports/uniswap.path';
+import { ORACLE_PRICE, createMarket, deployMockERC20, deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('FlashloanHook_UniswapV3', function () {
+	let orchestrator: FlashloanOrchestrator;
+	let registry: FlashloanHookRegistry;
+	let hook: FlashloanHook_UniswapV3;
+	let router: MockSwapRouter;
+	let morpho: IMorpho;
+	let zchf: MockERC20;
+	let usdc: MockERC20;
+	let weth: MockERC20;
+
+	let user: SignerWithAddress;
+	let market: MarketParams;
+	let marketId: string;
+
+	// zchf --> usdc --> weth and back, 1 weth = 2000 zchf
+	let buyPath: Hex;
+	let sellPath: Hex;
+
+	const execute = (providedLoan: bigint, flashToken: MockERC20, flashAmount: bigint, data: Hex) => {
+		const tokens = providedLoan > 0n ? [zchf] : [];
+		const amounts = providedLoan > 0n ? [providedLoan] : [];
+		return orchestrator.connect(user).execute(tokens, amounts, flashToken, flashAmount, [{ target: hook, value: 0n, data }]);
+	};
+
+	before(async function () {
+		[, user] = await ethers.getSigners();
+		const fixture = await deployMorphoFixture();
+		({ morpho, zchf } = fixture);
+
+		usdc = await deployMockERC20('USD Coin', 'USDC');
+		weth = await deployMockERC20('Wrapped Ether', 'WETH');
+
+		const oracle = await (await ethers.getContractFactory('MockOracle')).deploy(ORACLE_PRICE * 2000n);
+		const created = await createMarket(fixture.mockMorpho, zchf, weth, oracle, fixture.irm);
+		marketId = created.marketId;
+		market = {
+			loanToken: getAddress(created.marketParams.loanToken),
+			collateralToken: getAddress(created.marketParams.collateralToken),
+			oracle: getAddress(created.marketParams.oracle),
+			irm: getAddress(created.marketParams.irm),
+			lltv: created.marketParams.lltv,
+		};
+
+		router = await (await ethers.getContractFactory('MockSwapRouter')).deploy();
+		await router.setRate(zchf, usdc, parseEther('1'));
+		await router.setRate(usdc, weth, parseEther('1') / 2000n);
+		await router.setRate(weth, usdc, parseEther('2000'));
+		await router.setRate(usdc, zchf, parseEther('1'));
+
+		({ orchestrator, registry } = await deployOrchestrator(morpho));
+		hook = await (await ethers.getContractFactory('FlashloanHook_UniswapV3')).deploy(orchestrator, morpho, router);
+		await registry.addHook(hook);
+
+		const usdcAddress = getAddress(await usdc.getAddress());
+		buyPath = encodePath([market.loanToken, usdcAddress, market.collateralToken], [100, 500]);
+		sellPath = reversePath(buyPath);
+
+		await zchf.mint(user, parseEther('10000'));
+		await zchf.connect(user).approve(orchestrator, MaxUint256);
+		await morpho.connect(user).setAuthorization(hook, true);
+	});
+
+	describe('Path encoding', function () {
+		it('should match LeverageMorpho.encodePath', async function () {
+			const [owner] = await ethers.getSigners();
+			const leverage = await (
+				await ethers.getContractFactory('LeverageMorpho')
+			).deploy(morpho, zchf, weth, market.oracle, market.irm, market.lltv, router, owner);
+
+			const { tokens, fees } = decodePath(buyPath);
+			expect(await leverage.encodePath(tokens, fees)).to.equal(buyPath);
+			expect(await leverage.encodePath([tokens[0], tokens[2]], [3000])).to.equal(encodePath([tokens[0], tokens[2]], [3000]));
+		});
+
+		it('should decode and reverse a path', async function () {
+			const { tokens, fees } = decodePath(sellPath);
+			expect(tokens).to.deep.equal([market.collateralToken, getAddress(await usdc.getAddress()), market.loanToken]);
+			expect(fees).to.deep.equal([500, 100]);
+			expect(reversePath(sellPath)).to.equal(buyPath);
+		});
+
+		it('should reject invalid inputs', async function () {
+			const { tokens } = decodePath(buyPath);
+			expect(() => encodePath([tokens[0]], [])).to.throw();
+			expect(() => encodePath(tokens, [100])).to.throw();
+			expect(() => encodePath(tokens, [100, 2 ** 24])).to.throw();
+			expect(() => decodePath(tokens[0])).to.throw();
+		});
+
+		it('should check the path against the market tokens', async function () {
+			await expect(hook.checkPath(buyPath, market.collateralToken, market.loanToken))
+				.to.be.revertedWithCustomError(hook, 'WrongInputToken')
+				.withArgs(market.loanToken, market.collateralToken);
+			await expect(hook.checkPath(buyPath, market.loanToken, market.loanToken))
+				.to.be.revertedWithCustomError(hook, 'WrongOutputToken')
+				.withArgs(market.collateralToken, market.loanToken);
+			await expect(hook.checkPath(market.loanToken, market.loanToken, market.collateralToken))
+				.to.be.revertedWithCustomError(hook, 'InvalidPath')
+				.withArgs(20);
+			await hook.checkPath(buyPath, market.loanToken, market.collateralToken);
+		});
+	});
+
+	describe('Leverage', function () {
+		it('should revert an increase with the wrong swap direction', async function () {
+			const data = encodeSwapHookData(SwapHookOpcode.INCREASE_LEVERAGE, market, sellPath);
+			await expect(execute(parseEther('1000'), zchf, parseEther('2000'), data)).to.be.revertedWithCustomError(
+				hook,
+				'WrongInputToken'
+			);
+		});
+
+		it('should revert an increase below the minimum swap output', async function () {
+			const data = encodeSwapHookData(SwapHookOpcode.INCREASE_LEVERAGE, market, buyPath, parseEther('1.5') + 1n);
+			await expect(execute(parseEther('1000'), zchf, parseEther('2000'), data)).to.be.revertedWith('Too little received');
+		});
+
+		it('should increase leverage on behalf of the sender', async function () {
+			const data = encodeSwapHookData(SwapHookOpcode.INCREASE_LEVERAGE, market, buyPath, parseEther('1.5'));
+			await expect(execute(parseEther('1000'), zchf, parseEther('2000'), data))
+				.to.emit(hook, 'Executed')
+				.withArgs(SwapHookOpcode.INCREASE_LEVERAGE, marketId, parseEther('2000'), parseEther('3000'), parseEther('1.5'), 0n);
+
+			const position = await morpho.position(marketId, user);
+			expect(position.collateral).to.equal(parseEther('1.5'));
+			expect(position.borrowShares).to.be.greaterThan(0n);
+			expect(await zchf.balanceOf(user)).to.equal(parseEther('9000'));
+		});
+
+		it('should decrease leverage with flashed collateral', async function () {
+			const data = encodeSwapHookData(SwapHookOpcode.DECREASE_LEVERAGE, market, sellPath, parseEther('1000'));
+			await execute(0n, weth, parseEther('0.5'), data);
+
+			const position = await morpho.position(marketId, user);
+			const m = await morpho.market(marketId);
+			expect(position.collateral).to.equal(parseEther('1'));
+			expect(m.totalBorrowAssets).to.be.approximately(parseEther('1000'), parseEther('0.01'));
+		});
+
+		it('should close the position and send the equity', async function () {
+			const m = await morpho.market(marketId);
+			const flashAmount = m.totalBorrowAssets + parseEther('10');
+
+			const before = await zchf.balanceOf(user);
+			const data = encodeSwapHookData(SwapHookOpcode.CLOSE_POSITION, market, sellPath, parseEther('2000'));
+			await execute(0n, zchf, flashAmount, data);
+
+			const position = await morpho.position(marketId, user);
+			expect(position.collateral).to.equal(0n);
+			expect(position.borrowShares).to.equal(0n);
+			expect((await zchf.balanceOf(user)) - before).to.be.approximately(parseEther('1000'), parseEther('0.01'));
+		});
+	});
+});
@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { parseEther } from 'ethers';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Address, createPublicClient, custom, getAddress } from 'viem';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { FlashloanHook_SavingsVaultZCHF, FlashloanOrchestrator, IMorpho, MockERC20, SavingsVaultZCHF } from '../typechain';
+import { buildCloseToLoan, buildDecreaseLeverage, buildIncreaseLeverage, getMissingPreconditions } from '../exports/flashloan.builder';
+import {
+	createJsonFileStore,
+	createMemoryStore,
+	deserializeIndexerState,
+	getSavingsHookOperation,
+	getUserHistory,
+	indexFlashloanActivity,
+	serializeIndexerState,
+} from '../exports/flashloan.indexer';
+import { FlashloanIndexerConfig } from '../exports/flashloan.indexer.types';
+import { EncodedCall, LeveragePosition, SavingsHookContext } from '../exports/flashloan.types';
+import { evm_increaseTime } from './helper';
+import { MarketParamsStruct, deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('Flashloan event indexer', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+
+	let orchestrator: FlashloanOrchestrator;
+	let hook: FlashloanHook_SavingsVaultZCHF;
+	let morpho: IMorpho;
+	let vault: SavingsVaultZCHF;
+	let zchf: MockERC20;
+	let marketId: string;
+	let marketParams: MarketParamsStruct;
+
+	let user: SignerWithAddress;
+	let context: SavingsHookContext;
+	let config: FlashloanIndexerConfig;
+
+	const send = async (call: EncodedCall) => {
+		await (await user.sendTransaction({ to: call.to, data: call.data, value: call.value })).wait();
+	};
+
+	const getPosition = async (): Promise<LeveragePosition> => {
+		const p = await morpho.position(marketId, user);
+		const m = await morpho.market(marketId);
+		const debt =
+			(p.borrowShares * (m.totalBorrowAssets + 1n) + m.totalBorrowShares + 1_000_000n - 1n) / (m.totalBorrowShares + 1_000_000n);
+		return { collateral: p.collateral, debt, price: await vault.price() };
+	};
+
+	before(async function () {
+		[, user] = await ethers.getSigners();
+		({ morpho, vault, zchf, marketId, marketParams } = await deployMorphoFixture());
+
+		const deployed = await deployOrchestrator(morpho);
+		orchestrator = deployed.orchestrator;
+		hook = await (await ethers.getContractFactory('FlashloanHook_SavingsVaultZCHF')).deploy(orchestrator, morpho, vault, marketId);
+		await deployed.registry.addHook(hook);
+
+		context = {
+			orchestrator: getAddress(await orchestrator.getAddress()),
+			hook: getAddress(await hook.getAddress()),
+			morpho: getAddress(await morpho.getAddress()),
+			loanToken: getAddress(await zchf.getAddress()),
+			collateralToken: getAddress(await vault.getAddress()),
+		};
+		config = {
+			orchestrator: context.orchestrator,
+			hooks: [context.hook],
+			fromBlock: await client.getBlockNumber({ cacheTime: 0 }),
+			batchSize: 3n,
+		};
+
+		await zchf.mint(user, parseEther('10000'));
+
+		const open = buildIncreaseLeverage(context, { amount: parseEther('1000'), leverage: parseEther('3') });
+		for (const call of await getMissingPreconditions(client, user.address as Address, open)) await send(call);
+		await send(open);
+	});
+
+	it('should translate opcodes to operation names', async function () {
+		expect(getSavingsHookOperation(0)).to.equal('INCREASE_LEVERAGE');
+		expect(getSavingsHookOperation(1)).to.equal('DECREASE_LEVERAGE');
+		expect(getSavingsHookOperation(2)).to.equal('CLOSE_TO_LOAN');
+		expect(getSavingsHookOperation(3)).to.equal('CLOSE_TO_COLLATERAL');
+		expect(getSavingsHookOperation(9)).to.equal('UNKNOWN_9');
+	});
+
+	it('should index an opened position with the decoded hook execution', async function () {
+		const state = await indexFlashloanActivity(client, config);
+		const history = getUserHistory(state, user.address as Address);
+
+		expect(history.length).to.equal(1);
+		expect(history[0].user).to.equal(getAddress(user.address));
+		expect(history[0].orchestrator).to.equal(context.orchestrator);
+		expect(history[0].target).to.equal(context.hook);
+		expect(history[0].hook?.operation).to.equal('INCREASE_LEVERAGE');
+		expect(history[0].hook?.flash).to.equal(parseEther('2000'));
+		expect(history[0].hook?.amountIn).to.equal(parseEther('3000'));
+		expect(history[0].hook?.provided).to.equal(0n);
+		expect(state.cursors[context.orchestrator]).to.equal(await client.getBlockNumber({ cacheTime: 0 }));
+	});
+
+	it('should leave unconfirmed blocks for the next run', async function () {
+		const head = await client.getBlockNumber({ cacheTime: 0 });
+		const state = await indexFlashloanActivity(client, { ...config, confirmations: head - config.fromBlock + 1n });
+
+		expect(state.cursors).to.deep.equal({});
+		expect(state.histories).to.deep.equal({});
+	});
+
+	it('should resume from the stored cursor without duplicates', async function () {
+		const store = createMemoryStore();
+		await indexFlashloanActivity(client, config, store);
+
+		await evm_increaseTime(7 * 24 * 3600);
+		await morpho.accrueInterest(marketParams);
+		await send(buildDecreaseLeverage(context, { leverage: parseEther('2'), position: await getPosition() }));
+		await send(buildCloseToLoan(context, { debt: (await getPosition()).debt }));
+
+		const state = await indexFlashloanActivity(client, config, store);
+		const history = getUserHistory(state, user.address as Address);
+
+		expect(history.map((a) => a.hook?.operation)).to.deep.equal(['INCREASE_LEVERAGE', 'DECREASE_LEVERAGE', 'CLOSE_TO_LOAN']);
+		expect(state).to.deep.equal(await indexFlashloanActivity(client, config, store));
+		expect(await store.load()).to.deep.equal(state);
+	});
+
+	it('should reindex an orchestrator when hooks are added', async function () {
+		const store = createMemoryStore();
+		const before = await indexFlashloanActivity(client, { ...config, hooks: [] }, store);
+		expect(getUserHistory(before, user.address as Address).map((a) => a.hook)).to.deep.equal([undefined, undefined, undefined]);
+
+		const state = await indexFlashloanActivity(client, config, store);
+		const history = getUserHistory(state, user.address as Address);
+
+		expect(history.map((a) => a.hook?.operation)).to.deep.equal(['INCREASE_LEVERAGE', 'DECREASE_LEVERAGE', 'CLOSE_TO_LOAN']);
+		expect(state.hooks[context.orchestrator]).to.deep.equal([context.hook]);
+		expect(state.cursors[context.orchestrator]).to.equal(before.cursors[context.orchestrator]);
+	});
+
+	it('should persist the state to a json file', async function () {
+		const dir = await mkdtemp(join(tmpdir(), 'indexer-'));
+		const path = join(dir, 'state.json');
+		try {
+			const store = createJsonFileStore(path);
+			expect(await store.load()).to.equal(undefined);
+
+			const state = await indexFlashloanActivity(client, config, store);
+			expect(deserializeIndexerState(await readFile(path, 'utf8'))).to.deep.equal(state);
+			expect(await createJsonFileStore(path).load()).to.deep.equal(state);
+			expect(deserializeIndexerState(serializeIndexerState(state)).cursors[context.orchestrator]).to.be.a('bigint');
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,231 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { MaxUint256, parseEther } from 'ethers';
+import { Address, Hex, encodeAbiParameters, getAddress, parseAbiParameters, zeroAddress } from 'viem';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { FlashloanOrchestrator, MockBalancerVault, MockERC20, MockFlashLender, MockHook, MockMorpho } from '../typechain';
+import { buildExecuteMulti, getFlashloan } from '../exports/flashloan.multi';
+import { FlashloanAction, FlashloanProvider } from '../exports/flashloan.types';
+import { deployMockERC20, deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('FlashloanOrchestrator multi-token flashloans', function () {
+	let orchestrator: FlashloanOrchestrator;
+	let hook: MockHook;
+	let mockMorpho: MockMorpho;
+	let vault: MockBalancerVault;
+	let lender: MockFlashLender;
+	let zchf: MockERC20;
+	let usdc: MockERC20;
+
+	let user: SignerWithAddress;
+	let addr: { orchestrator: Address; hook: Address; vault: Address; lender: Address; zchf: Address; usdc: Address };
+
+	const zchfAmount = parseEther('1000');
+	const usdcAmount = parseEther('500');
+
+	// spends the whole flashloan of a token, proving it was loaned and approved to the hook
+	const spend = (token: Address, amount: bigint): FlashloanAction => ({
+		target: addr.hook,
+		value: 0n,
+		data: encodeAbiParameters(parseAbiParameters('address, address, uint256, uint256'), [token, token, amount, parseEther('1')]),
+	});
+
+	const send = async (call: { to: Address; data: Hex }) => user.sendTransaction({ to: call.to, data: call.data });
+
+	before(async function () {
+		[, user] = await ethers.getSigners();
+		const fixture = await deployMorphoFixture();
+		({ mockMorpho, zchf } = fixture);
+
+		usdc = await deployMockERC20('USD Coin', 'USDC');
+		vault = await (await ethers.getContractFactory('MockBalancerVault')).deploy();
+		lender = await (await ethers.getContractFactory('MockFlashLender')).deploy();
+
+		let registry;
+		({ orchestrator, registry } = await deployOrchestrator(fixture.morpho));
+		hook = await (await ethers.getContractFactory('MockHook')).deploy(orchestrator);
+		await registry.addHook(hook);
+
+		// lender liquidity
+		for (const to of [mockMorpho, vault, lender]) {
+			await zchf.mint(to, zchfAmount * 10n);
+			await usdc.mint(to, usdcAmount * 10n);
+		}
+
+		await zchf.mint(user, parseEther('100'));
+		await usdc.mint(user, parseEther('100'));
+		await zchf.connect(user).approve(orchestrator, MaxUint256);
+		await usdc.connect(user).approve(orchestrator, MaxUint256);
+
+		addr = {
+			orchestrator: getAddress(await orchestrator.getAddress()),
+			hook: getAddress(await hook.getAddress()),
+			vault: getAddress(await vault.getAddress()),
+			lender: getAddress(await lender.getAddress()),
+			zchf: getAddress(await zchf.getAddress()),
+			usdc: getAddress(await usdc.getAddress()),
+		};
+	});
+
+	describe('Flashloan encoding', function () {
+		it('should merge duplicate tokens and sort for Balancer', async function () {
+			const [low, high] = BigInt(addr.zchf) < BigInt(addr.usdc) ? [addr.zchf, addr.usdc] : [addr.usdc, addr.zchf];
+			const flashloan = getFlashloan(FlashloanProvider.BALANCER, addr.vault, [
+				[high, 1n],
+				[low, 2n],
+				[high, 3n],
+			]);
+
+			expect(flashloan.tokens).to.deep.equal([low, high]);
+			expect(flashloan.amounts).to.deep.equal([2n, 4n]);
+		});
+
+		it('should reject invalid flashloans', async function () {
+			expect(() => getFlashloan(FlashloanProvider.MORPHO, zeroAddress, [])).to.throw();
+			expect(() => getFlashloan(FlashloanProvider.ERC3156, zeroAddress, [[addr.zchf, 1n]])).to.throw();
+			expect(() => getFlashloan(FlashloanProvider.MORPHO, zeroAddress, [[addr.zchf, 0n]])).to.throw();
+		});
+	});
+
+	describe('Morpho', function () {
+		it('should nest one flashloan per token', async function () {
+			const flashloan = getFlashloan(FlashloanProvider.MORPHO, zeroAddress, [
+				[addr.zchf, zchfAmount],
+				[addr.usdc, usdcAmount],
+			]);
+			const call = buildExecuteMulti(addr.orchestrator, [], flashloan, [spend(addr.zchf, zchfAmount), spend(addr.usdc, usdcAmount)]);
+			const before = await zchf.balanceOf(mockMorpho);
+
+			await expect(send(call))
+				.to.emit(mockMorpho, 'FlashLoan')
+				.withArgs(addr.orchestrator, addr.zchf, zchfAmount)
+				.and.to.emit(mockMorpho, 'FlashLoan')
+				.withArgs(addr.orchestrator, addr.usdc, usdcAmount)
+				.and.to.emit(hook, 'Converted')
+				.withArgs(addr.usdc, addr.usdc, usdcAmount, usdcAmount);
+
+			expect(await zchf.balanceOf(mockMorpho)).to.equal(before);
+			expect(await usdc.balanceOf(orchestrator)).to.equal(0n);
+		});
+
+		it('should keep execute as a single Morpho flashloan', async function () {
+			await expect(orchestrator.connect(user).execute([], [], zchf, zchfAmount, [spend(addr.zchf, zchfAmount)]))
+				.to.emit(mockMorpho, 'FlashLoan')
+				.withArgs(addr.orchestrator, addr.zchf, zchfAmount);
+		});
+	});
+
+	describe('Balancer', function () {
+		before(async function () {
+			await vault.setFee(10n); // 0.1%
+		});
+
+		it('should loan all tokens at once and repay the fees', async function () {
+			const zchfFee = zchfAmount / 1000n;
+			const usdcFee = usdcAmount / 1000n;
+			const flashloan = getFlashloan(FlashloanProvider.BALANCER, addr.vault, [
+				[addr.zchf, zchfAmount],
+				[addr.usdc, usdcAmount],
+			]);
+			const call = buildExecuteMulti(
+				addr.orchestrator,
+				[
+					[addr.zchf, zchfFee],
+					[addr.usdc, usdcFee],
+				],
+				flashloan,
+				[spend(addr.zchf, zchfAmount), spend(addr.usdc, usdcAmount)]
+			);
+
+			await expect(send(call))
+				.to.emit(vault, 'FlashLoan')
+				.withArgs(addr.orchestrator, addr.zchf, zchfAmount, zchfFee)
+				.and.to.emit(vault, 'FlashLoan')
+				.withArgs(addr.orchestrator, addr.usdc, usdcAmount, usdcFee);
+
+			expect(await zchf.balanceOf(vault)).to.equal(zchfAmount * 10n + zchfFee);
+			expect(await usdc.balanceOf(vault)).to.equal(usdcAmount * 10n + usdcFee);
+		});
+
+		it('should revert without the fees', async function () {
+			const flashloan = getFlashloan(FlashloanProvider.BALANCER, addr.vault, [[addr.zchf, zchfAmount]]);
+			const call = buildExecuteMulti(addr.orchestrator, [], flashloan, [spend(addr.zchf, 1n)]);
+			await expect(send(call)).to.be.reverted;
+		});
+
+		it('should revert with ArrayLengthMismatch if the fees do not match the tokens', async function () {
+			const flashloan = getFlashloan(FlashloanProvider.BALANCER, addr.vault, [[addr.zchf, zchfAmount]]);
+			const call = buildExecuteMulti(addr.orchestrator, [], flashloan, [spend(addr.zchf, 1n)]);
+
+			await vault.setOmitFees(true);
+			await expect(send(call)).to.be.revertedWithCustomError(orchestrator, 'ArrayLengthMismatch');
+			await vault.setOmitFees(false);
+		});
+	});
+
+	describe('ERC-3156', function () {
+		before(async function () {
+			await lender.setFee(5n); // 0.05%
+		});
+
+		it('should nest one flashloan per token and repay the fees', async function () {
+			const zchfFee = zchfAmount / 2000n;
+			const usdcFee = usdcAmount / 2000n;
+			const flashloan = getFlashloan(FlashloanProvider.ERC3156, addr.lender, [
+				[addr.usdc, usdcAmount],
+				[addr.zchf, zchfAmount],
+			]);
+			const call = buildExecuteMulti(
+				addr.orchestrator,
+				[
+					[addr.zchf, zchfFee],
+					[addr.usdc, usdcFee],
+				],
+				flashloan,
+				[spend(addr.usdc, usdcAmount)]
+			);
+
+			await expect(send(call))
+				.to.emit(lender, 'FlashLoan')
+				.withArgs(addr.orchestrator, addr.zchf, zchfAmount, zchfFee)
+				.and.to.emit(lender, 'FlashLoan')
+				.withArgs(addr.orchestrator, addr.usdc, usdcAmount, usdcFee);
+
+			expect(await zchf.balanceOf(lender)).to.equal(zchfAmount * 10n + zchfFee);
+			expect(await usdc.balanceOf(lender)).to.equal(usdcAmount * 10n + usdcFee);
+		});
+	});
+
+	describe('Validation', function () {
+		it('should reject invalid flashloans', async function () {
+			const action = spend(addr.zchf, 1n);
+			const loan = { provider: FlashloanProvider.MORPHO, lender: zeroAddress, tokens: [addr.zchf], amounts: [1n] };
+
+			await expect(
+				orchestrator.executeMulti([], [], { ...loan, tokens: [], amounts: [] }, [action], [])
+			).to.be.revertedWithCustomError(orchestrator, 'InvalidInput');
+			await expect(orchestrator.executeMulti([], [], { ...loan, amounts: [] }, [action], [])).to.be.revertedWithCustomError(
+				orchestrator,
+				'ArrayLengthMismatch'
+			);
+			await expect(
+				orchestrator.executeMulti([], [], { ...loan, provider: FlashloanProvider.BALANCER }, [action], [])
+			).to.be.revertedWithCustomError(orchestrator, 'InvalidAddress');
+		});
+
+		it('should reject flashloan callbacks outside of an execution', async function () {
+			await expect(orchestrator.receiveFlashLoan([addr.zchf], [1n], [0n], '0x')).to.be.revertedWithCustomError(
+				orchestrator,
+				'UnexpectedFlashloan'
+			);
+			await expect(orchestrator.onFlashLoan(addr.orchestrator, addr.zchf, 1n, 0n, '0x')).to.be.revertedWithCustomError(
+				orchestrator,
+				'UnexpectedFlashloan'
+			);
+			await expect(vault.flashLoan(orchestrator, [addr.zchf], [1n], '0x')).to.be.revertedWithCustomError(
+				orchestrator,
+				'UnexpectedFlashloan'
+			);
+		});
+	});
+});
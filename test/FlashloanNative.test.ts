@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { parseEther } from 'ethers';
+import {
+	Address,
+	Hex,
+	decodeAbiParameters,
+	decodeFunctionResult,
+	encodeAbiParameters,
+	encodeFunctionData,
+	getAddress,
+	parseAbiParameters,
+	zeroAddress,
+} from 'viem';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { FlashloanOrchestrator, MockCaller, MockContextHook, MockERC20, MockHook, MockWETH } from '../typechain';
+import { FlashloanOrchestratorABI } from '../exports/abis/FlashloanOrchestrator';
+import { buildExecuteNative, getFlashloan } from '../exports/flashloan.multi';
+import { FlashloanAction, FlashloanProvider } from '../exports/flashloan.types';
+import { deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('FlashloanOrchestrator native ETH', function () {
+	let orchestrator: FlashloanOrchestrator;
+	let hook: MockHook;
+	let contextHook: MockContextHook;
+	let weth: MockWETH;
+	let zchf: MockERC20;
+	let caller: MockCaller;
+
+	let user: SignerWithAddress;
+	let addr: { orchestrator: Address; hook: Address; contextHook: Address; weth: Address; zchf: Address };
+
+	// no conversion, only forwards the value to the hook
+	const noop = (value: bigint = 0n): FlashloanAction => ({
+		target: addr.hook,
+		value,
+		data: encodeAbiParameters(parseAbiParameters('address, address, uint256, uint256'), [addr.zchf, addr.zchf, 0n, 0n]),
+	});
+
+	const flashloan = () => getFlashloan(FlashloanProvider.MORPHO, zeroAddress, [[addr.zchf, parseEther('1000')]]);
+
+	const send = (call: { to: Address; data: Hex; value: bigint }) => user.sendTransaction(call);
+
+	before(async function () {
+		[, user] = await ethers.getSigners();
+		const fixture = await deployMorphoFixture();
+		zchf = fixture.zchf;
+
+		let registry;
+		({ orchestrator, registry, weth } = await deployOrchestrator(fixture.morpho));
+		hook = await (await ethers.getContractFactory('MockHook')).deploy(orchestrator);
+		contextHook = await (await ethers.getContractFactory('MockContextHook')).deploy(orchestrator);
+		await registry.addHook(hook);
+		await registry.addHook(contextHook);
+		caller = await (await ethers.getContractFactory('MockCaller')).deploy();
+
+		addr = {
+			orchestrator: getAddress(await orchestrator.getAddress()),
+			hook: getAddress(await hook.getAddress()),
+			contextHook: getAddress(await contextHook.getAddress()),
+			weth: getAddress(await weth.getAddress()),
+			zchf: getAddress(await zchf.getAddress()),
+		};
+	});
+
+	describe('Native value', function () {
+		it('should forward action values and refund the remaining ETH', async function () {
+			const tx = orchestrator
+				.connect(user)
+				.execute([], [], zchf, parseEther('1000'), [noop(parseEther('1'))], { value: parseEther('3') });
+
+			await expect(tx).to.changeEtherBalances([user, hook, orchestrator], [-parseEther('1'), parseEther('1'), 0n]);
+		});
+
+		it('should revert with InvalidRefund if the sender rejects ETH', async function () {
+			const data = encodeFunctionData({
+				abi: FlashloanOrchestratorABI,
+				functionName: 'execute',
+				args: [[], [], addr.zchf, parseEther('1000'), [noop()]],
+			});
+
+			await expect(caller.forward(orchestrator, data, { value: parseEther('1') })).to.be.revertedWithCustomError(
+				orchestrator,
+				'InvalidRefund'
+			);
+			await caller.forward(orchestrator, data);
+		});
+	});
+
+	describe('WETH', function () {
+		it('should wrap the sent ETH and sweep the WETH', async function () {
+			const call = buildExecuteNative(addr.orchestrator, [], flashloan(), [noop()], {
+				value: parseEther('2'),
+				wrap: true,
+				unwrap: false,
+			});
+
+			await expect(send(call)).to.changeTokenBalances(weth, [user, orchestrator], [parseEther('2'), 0n]);
+			expect(await ethers.provider.getBalance(orchestrator)).to.equal(0n);
+		});
+
+		it('should add the wrapped ETH to the provided WETH', async function () {
+			const provided = parseEther('1');
+			await weth.connect(user).deposit({ value: provided });
+			await weth.connect(user).approve(orchestrator, provided);
+
+			// reports the provided amount of WETH to the hook
+			const action = { target: addr.contextHook, value: 0n, data: '0x01' as Hex };
+			const call = buildExecuteNative(addr.orchestrator, [[addr.weth, provided]], flashloan(), [action], {
+				value: parseEther('2'),
+				wrap: true,
+				unwrap: false,
+			});
+
+			const returned = (await user.call(call)) as Hex;
+			const [result] = decodeFunctionResult({ abi: FlashloanOrchestratorABI, functionName: 'executeNative', data: returned });
+			const [, , , amount] = decodeAbiParameters(parseAbiParameters('uint256, address, bytes, uint256'), result);
+			expect(amount).to.equal(parseEther('3'));
+
+			await expect(send(call)).to.changeTokenBalances(weth, [user, orchestrator], [parseEther('2'), 0n]);
+		});
+
+		it('should unwrap the remaining WETH and refund it as ETH', async function () {
+			const provided = parseEther('1');
+			await weth.connect(user).deposit({ value: provided });
+			await weth.connect(user).approve(orchestrator, provided);
+
+			const call = buildExecuteNative(addr.orchestrator, [[addr.weth, provided]], flashloan(), [noop(parseEther('0.5'))], {
+				value: parseEther('2'),
+				wrap: false,
+				unwrap: true,
+			});
+
+			// the provided WETH comes back as ETH, 0.5 of the sent ETH is spent as action value
+			const tx = send(call);
+			await expect(tx).to.changeTokenBalances(weth, [user, orchestrator], [-provided, 0n]);
+			await expect(tx).to.changeEtherBalances([user, hook, orchestrator], [provided - parseEther('0.5'), parseEther('0.5'), 0n]);
+		});
+
+		it('should keep the ETH native without wrapping', async function () {
+			const call = buildExecuteNative(addr.orchestrator, [], flashloan(), [noop(parseEther('1'))], {
+				value: parseEther('1'),
+				wrap: false,
+				unwrap: true,
+			});
+			await expect(send(call)).to.changeEtherBalances([user, hook], [-parseEther('1'), parseEther('1')]);
+		});
+
+		it('should revert with InvalidRefund if the sender rejects the unwrapped ETH', async function () {
+			const { data } = buildExecuteNative(addr.orchestrator, [], flashloan(), [noop()], { value: 0n, wrap: true, unwrap: true });
+			await expect(caller.forward(orchestrator, data, { value: parseEther('1') })).to.be.revertedWithCustomError(
+				orchestrator,
+				'InvalidRefund'
+			);
+		});
+	});
+});
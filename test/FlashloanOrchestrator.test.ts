@@ -1,29 +1,35 @@
 import { expect } from 'chai';
-import { ethers, network } from 'hardhat';
+import { ethers } from 'hardhat';
 import { formatEther, MaxUint256, parseEther, parseUnits, Signer, ZeroAddress, keccak256, solidityPacked } from 'ethers';
-import { FlashloanOrchestrator, FlashloanHook_SavingsVaultZCHF, IERC20, IMorpho, SavingsVaultZCHF } from '../typechain';
+import {
+	FlashloanOrchestrator,
+	FlashloanHookRegistry,
+	FlashloanHook_SavingsVaultZCHF,
+	IMorpho,
+	MockERC20,
+	SavingsVaultZCHF,
+} from '../typechain';
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
 import { evm_increaseTime } from './helper';
-import { ADDRESS } from '../exports/address.config';
+import { deployMorphoFixture } from './helper/fixtures';
 
-describe('FlashloanOrchestrator with Savings Hook on mainnet fork', function () {
+describe('FlashloanOrchestrator with Savings Hook', function () {
 	let orchestrator: FlashloanOrchestrator;
+	let registry: FlashloanHookRegistry;
 	let savingsHook: FlashloanHook_SavingsVaultZCHF;
 	let morpho: IMorpho;
 	let svzchf: SavingsVaultZCHF;
-	let zchf: IERC20;
+	let zchf: MockERC20;
 
 	let owner: SignerWithAddress;
 	let user: SignerWithAddress;
 	let positionUser: SignerWithAddress;
-	let whale: SignerWithAddress;
 
-	// Use addresses from config
-	const MORPHO_BLUE = ADDRESS[1].morphoBlue;
-	const SAVINGS_VAULT_ZCHF = ADDRESS[1].savingsVaultZCHF;
-	const ZCHF_ADDRESS = ADDRESS[1].zchf;
-	const MARKET_ID = ADDRESS[1].marketZCHFSVZCHF;
-	const WHALE_ADDRESS = '0x9642b23Ed1E01Df1092B92641051881a322F5D4E'; // ZCHF whale
+	// Addresses of the local mock environment
+	let MORPHO_BLUE: string;
+	let SAVINGS_VAULT_ZCHF: string;
+	let ZCHF_ADDRESS: string;
+	let MARKET_ID: string;
 
 	const flashAmount = parseEther('1000'); // 1000 ZCHF
 	const userAmount = parseEther('100'); // 100 ZCHF
@@ -32,10 +38,11 @@ describe('FlashloanOrchestrator with Savings Hook on mainnet fork', function ()
 		// Setup signers
 		[owner, user, positionUser] = await ethers.getSigners();
 
-		// Get contract instances
-		morpho = await ethers.getContractAt('IMorpho', MORPHO_BLUE);
-		svzchf = await ethers.getContractAt('SavingsVaultZCHF', SAVINGS_VAULT_ZCHF);
-		zchf = await ethers.getContractAt('IERC20', ZCHF_ADDRESS);
+		// Deploy ZCHF, savings module, svZCHF vault and Morpho market stand-ins
+		({ morpho, vault: svzchf, zchf, marketId: MARKET_ID } = await deployMorphoFixture());
+		MORPHO_BLUE = await morpho.getAddress();
+		SAVINGS_VAULT_ZCHF = await svzchf.getAddress();
+		ZCHF_ADDRESS = await zchf.getAddress();
 
 		console.log('📋 Contract Addresses:');
 		console.log('  Morpho Blue:', MORPHO_BLUE);
@@ -46,8 +53,14 @@ describe('FlashloanOrchestrator with Savings Hook on mainnet fork', function ()
 
 	describe('Deployment', () => {
 		it('Should deploy FlashloanOrchestrator successfully', async () => {
+			const RegistryFactory = await ethers.getContractFactory('FlashloanHookRegistry');
+			registry = await RegistryFactory.deploy(owner.address);
+
+			const WethFactory = await ethers.getContractFactory('MockWETH');
+			const weth = await WethFactory.deploy();
+
 			const OrchestratorFactory = await ethers.getContractFactory('FlashloanOrchestrator');
-			orchestrator = await OrchestratorFactory.deploy(MORPHO_BLUE);
+			orchestrator = await OrchestratorFactory.deploy(MORPHO_BLUE, await registry.getAddress(), await weth.getAddress());
 
 			expect(await orchestrator.getAddress()).to.not.equal(ZeroAddress);
 			console.log('✅ FlashloanOrchestrator deployed at:', await orchestrator.getAddress());
@@ -56,6 +69,7 @@ describe('FlashloanOrchestrator with Savings Hook on mainnet fork', function ()
 		it('Should deploy FlashloanHook_SavingsVaultZCHF successfully', async () => {
 			const HookFactory = await ethers.getContractFactory('FlashloanHook_SavingsVaultZCHF');
 			savingsHook = await HookFactory.deploy(await orchestrator.getAddress(), MORPHO_BLUE, SAVINGS_VAULT_ZCHF, MARKET_ID);
+			await registry.addHook(await savingsHook.getAddress());
 
 			expect(await savingsHook.getAddress()).to.not.equal(ZeroAddress);
 			console.log('✅ FlashloanHook_SavingsVaultZCHF deployed at:', await savingsHook.getAddress());
@@ -78,32 +92,18 @@ describe('FlashloanOrchestrator with Savings Hook on mainnet fork', function ()
 	});
 
 	describe('Setup for Testing', () => {
-		before(async () => {
-			// Impersonate ZCHF whale for funding
-			await network.provider.request({
-				method: 'hardhat_impersonateAccount',
-				params: [WHALE_ADDRESS],
-			});
-			whale = await ethers.getSigner(WHALE_ADDRESS);
-
-			// Fund whale with ETH for gas
-			await owner.sendTransaction({
-				to: WHALE_ADDRESS,
-				value: parseEther('10'),
-			});
-		});
-
 		it('Should fund user with ZCHF tokens', async () => {
 			const fundAmount = parseEther('10000'); // 10k ZCHF for testing
 
-			// Transfer ZCHF from whale to user
-			await zchf.connect(whale).transfer(user.address, fundAmount);
-			await zchf.connect(whale).transfer(positionUser.address, fundAmount * 2n);
+			// Mint ZCHF to users and owner
+			await zchf.mint(user.address, fundAmount);
+			await zchf.mint(positionUser.address, fundAmount * 2n);
+			await zchf.mint(owner.address, fundAmount);
 
 			// Deposit
-			await zchf.connect(whale).approve(await morpho.getAddress(), fundAmount * 5n);
+			await zchf.connect(owner).approve(await morpho.getAddress(), fundAmount * 5n);
 			const market = await savingsHook.market();
-			await morpho.connect(whale).supply(
+			await morpho.connect(owner).supply(
 				{
 					loanToken: market.loanToken,
 					collateralToken: market.collateralToken,
@@ -113,7 +113,7 @@ describe('FlashloanOrchestrator with Savings Hook on mainnet fork', function ()
 				},
 				fundAmount,
 				0n,
-				whale.address,
+				owner.address,
 				'0x'
 			);
 
@@ -0,0 +1,179 @@
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { MaxUint256, parseEther } from 'ethers';
+import { Address, Hex, getAddress, parseAbiParameters } from 'viem';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { FlashloanHookRegistry, FlashloanOrchestrator, MockERC20, MockHook } from '../typechain';
+import { actionOutput, buildExecuteComposed, buildFlashloanPlan, decodePlanResults } from '../exports/flashloan.plan';
+import { FlashloanPlanStep } from '../exports/flashloan.types';
+import { deployMockERC20, deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('FlashloanOrchestrator composed execution', function () {
+	let orchestrator: FlashloanOrchestrator;
+	let registry: FlashloanHookRegistry;
+	let hook: MockHook;
+	let zchf: MockERC20;
+	let tokenA: MockERC20;
+	let tokenB: MockERC20;
+
+	let user: SignerWithAddress;
+	let addr: { orchestrator: Address; hook: Address; zchf: Address; tokenA: Address; tokenB: Address };
+
+	const params = parseAbiParameters('address tokenIn, address tokenOut, uint256 amountIn, uint256 rate');
+	const outputs = parseAbiParameters('uint256 amountIn, uint256 amountOut');
+
+	const convert = (tokenIn: Address, tokenOut: Address, amountIn: unknown, rate: bigint): FlashloanPlanStep => ({
+		target: addr.hook,
+		params,
+		args: [tokenIn, tokenOut, amountIn, rate],
+		outputs,
+	});
+
+	before(async function () {
+		[, user] = await ethers.getSigners();
+		const fixture = await deployMorphoFixture();
+		zchf = fixture.zchf;
+
+		tokenA = await deployMockERC20('Token A', 'A');
+		tokenB = await deployMockERC20('Token B', 'B');
+
+		({ orchestrator, registry } = await deployOrchestrator(fixture.morpho));
+		hook = await (await ethers.getContractFactory('MockHook')).deploy(orchestrator);
+		await registry.addHook(hook);
+
+		addr = {
+			orchestrator: getAddress(await orchestrator.getAddress()),
+			hook: getAddress(await hook.getAddress()),
+			zchf: getAddress(await zchf.getAddress()),
+			tokenA: getAddress(await tokenA.getAddress()),
+			tokenB: getAddress(await tokenB.getAddress()),
+		};
+
+		await zchf.connect(user).approve(orchestrator, MaxUint256);
+	});
+
+	it('should encode references to prior outputs', async function () {
+		const plan = buildFlashloanPlan([
+			convert(addr.zchf, addr.tokenA, parseEther('1000'), parseEther('1')),
+			convert(addr.tokenA, addr.tokenB, actionOutput(0, 'amountOut'), parseEther('2')),
+		]);
+
+		expect(plan.actions).to.have.length(2);
+		expect(plan.references).to.deep.equal([{ action: 0n, word: 1n, target: 1n, offset: 64n }]);
+	});
+
+	it('should reject references the orchestrator can not resolve', async function () {
+		const first = convert(addr.zchf, addr.tokenA, parseEther('1000'), parseEther('1'));
+
+		// own or later outputs
+		expect(() => buildFlashloanPlan([convert(addr.zchf, addr.tokenA, actionOutput(0, 'amountOut'), 1n)])).to.throw();
+		// unknown output
+		expect(() => buildFlashloanPlan([first, convert(addr.tokenA, addr.tokenB, actionOutput(0, 'price'), 1n)])).to.throw();
+		// dynamic output
+		const dynamic = { ...first, outputs: parseAbiParameters('bytes result') };
+		expect(() => buildFlashloanPlan([dynamic, convert(addr.tokenA, addr.tokenB, actionOutput(0, 0), 1n)])).to.throw();
+	});
+
+	it('should chain outputs across actions within one flashloan', async function () {
+		// flash ZCHF --> A --> B --> ZCHF, the last rate leaves 1 ZCHF on top of the flashloan
+		const flashAmount = parseEther('1000');
+		const plan = buildFlashloanPlan([
+			convert(addr.zchf, addr.tokenA, flashAmount, parseEther('1')),
+			convert(addr.tokenA, addr.tokenB, actionOutput(0, 'amountOut'), parseEther('2')),
+			convert(addr.tokenB, addr.zchf, actionOutput(1, 'amountOut'), parseEther('0.5005')),
+		]);
+
+		// intermediate tokens are listed without amount, so the orchestrator approves them to the hook
+		const tx = buildExecuteComposed(
+			addr.orchestrator,
+			[
+				[addr.zchf, 0n],
+				[addr.tokenA, 0n],
+				[addr.tokenB, 0n],
+			],
+			addr.zchf,
+			flashAmount,
+			plan
+		);
+
+		const raw = await ethers.provider.call({ from: user.address, to: tx.to, data: tx.data });
+		const [results] = orchestrator.interface.decodeFunctionResult('executeComposed', raw);
+		expect(decodePlanResults(plan, results as Hex[])).to.deep.equal([
+			[parseEther('1000'), parseEther('1000')],
+			[parseEther('1000'), parseEther('2000')],
+			[parseEther('2000'), parseEther('1001')],
+		]);
+
+		await expect(user.sendTransaction({ to: tx.to, data: tx.data }))
+			.to.emit(hook, 'Converted')
+			.withArgs(addr.tokenB, addr.zchf, parseEther('2000'), parseEther('1001'));
+
+		// surplus swept to the user, state cleared
+		expect(await zchf.balanceOf(user)).to.equal(parseEther('1'));
+		await expect(orchestrator.actionResult(0)).to.be.reverted;
+	});
+
+	it('should revert references to the running or later actions', async function () {
+		const plan = buildFlashloanPlan([convert(addr.zchf, addr.tokenA, parseEther('1'), parseEther('1'))]);
+		const references = [{ action: 0n, word: 1n, target: 0n, offset: 64n }];
+
+		await expect(orchestrator.connect(user).executeComposed([addr.zchf], [0n], addr.zchf, parseEther('1'), plan.actions, references))
+			.to.be.revertedWithCustomError(orchestrator, 'UnresolvableReference')
+			.withArgs(0);
+	});
+
+	it('should revert references targeting missing actions', async function () {
+		const plan = buildFlashloanPlan([
+			convert(addr.zchf, addr.tokenA, parseEther('1'), parseEther('1')),
+			convert(addr.tokenA, addr.zchf, parseEther('1'), parseEther('1')),
+		]);
+		const references = [
+			{ action: 0n, word: 1n, target: 1n, offset: 64n },
+			{ action: 0n, word: 1n, target: 2n, offset: 64n },
+		];
+
+		await expect(
+			orchestrator
+				.connect(user)
+				.executeComposed([addr.zchf, addr.tokenA], [0n, 0n], addr.zchf, parseEther('1'), plan.actions, references)
+		)
+			.to.be.revertedWithCustomError(orchestrator, 'UnresolvableReference')
+			.withArgs(1);
+	});
+
+	it('should revert references outside of the result', async function () {
+		const plan = buildFlashloanPlan([
+			convert(addr.zchf, addr.tokenA, parseEther('1'), parseEther('1')),
+			convert(addr.tokenA, addr.zchf, parseEther('1'), parseEther('1')),
+		]);
+		const references = [{ action: 0n, word: 2n, target: 1n, offset: 64n }];
+
+		await expect(
+			orchestrator
+				.connect(user)
+				.executeComposed([addr.zchf, addr.tokenA], [0n, 0n], addr.zchf, parseEther('1'), plan.actions, references)
+		)
+			.to.be.revertedWithCustomError(orchestrator, 'InvalidReference')
+			.withArgs(0);
+	});
+
+	it('should revert references with overflowing word or offset', async function () {
+		const plan = buildFlashloanPlan([
+			convert(addr.zchf, addr.tokenA, parseEther('1'), parseEther('1')),
+			convert(addr.tokenA, addr.zchf, parseEther('1'), parseEther('1')),
+		]);
+
+		for (const reference of [
+			{ action: 0n, word: MaxUint256, target: 1n, offset: 64n },
+			{ action: 0n, word: 1n, target: 1n, offset: MaxUint256 - 31n },
+		]) {
+			await expect(
+				orchestrator
+					.connect(user)
+					.executeComposed([addr.zchf, addr.tokenA], [0n, 0n], addr.zchf, parseEther('1'), plan.actions, [reference])
+			)
+				.to.be.revertedWithCustomError(orchestrator, 'InvalidReference')
+				.withArgs(0);
+		}
+	});
+});
@@ -0,0 +1,188 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { MaxUint256, parseEther } from 'ethers';
+import {
+	Address,
+	createPublicClient,
+	custom,
+	encodeAbiParameters,
+	encodeFunctionData,
+	getAddress,
+	maxUint256,
+	parseAbi,
+	parseAbiParameters,
+	zeroAddress,
+} from 'viem';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { FlashloanHookRegistry, FlashloanOrchestrator, MockERC20, MockHook } from '../typechain';
+import { FlashloanOrchestratorABI } from '../exports/abis/FlashloanOrchestrator';
+import { simulateFlashloan, toExecuteMultiArgs } from '../exports/flashloan.simulate';
+import {
+	FlashloanAction,
+	FlashloanExecuteArgs,
+	FlashloanExecuteMultiArgs,
+	FlashloanProvider,
+	SIMULATION_OUTSIDE_ACTIONS,
+} from '../exports/flashloan.types';
+import { deployMockERC20, deployMorphoFixture, deployOrchestrator } from './helper/fixtures';
+
+describe('FlashloanOrchestrator simulation', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+
+	let orchestrator: FlashloanOrchestrator;
+	let registry: FlashloanHookRegistry;
+	let hook: MockHook;
+	let zchf: MockERC20;
+	let tokenA: MockERC20;
+
+	let user: SignerWithAddress;
+	let addr: { orchestrator: Address; hook: Address; zchf: Address; tokenA: Address };
+
+	const provided = parseEther('100');
+
+	// OpenZeppelin ERC20 errors of the mock tokens
+	const ERC20_ERRORS = parseAbi(['error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)']);
+	const flashAmount = parseEther('1000');
+
+	const convert = (tokenIn: Address, tokenOut: Address, amountIn: bigint, rate: bigint): FlashloanAction => ({
+		target: addr.hook,
+		value: 0n,
+		data: encodeAbiParameters(parseAbiParameters('address, address, uint256, uint256'), [tokenIn, tokenOut, amountIn, rate]),
+	});
+
+	// provides zchf, lists tokenA to receive the converted amount
+	const argsOf = (actions: FlashloanAction[]): FlashloanExecuteMultiArgs =>
+		toExecuteMultiArgs([[addr.zchf, addr.tokenA], [provided, 0n], addr.zchf, flashAmount, actions]);
+
+	before(async function () {
+		[, user] = await ethers.getSigners();
+		const fixture = await deployMorphoFixture();
+		zchf = fixture.zchf;
+		tokenA = await deployMockERC20('Token A', 'A');
+
+		({ orchestrator, registry } = await deployOrchestrator(fixture.morpho));
+		hook = await (await ethers.getContractFactory('MockHook')).deploy(orchestrator);
+		await registry.addHook(hook);
+
+		await zchf.mint(user, provided);
+		await zchf.connect(user).approve(orchestrator, MaxUint256);
+
+		addr = {
+			orchestrator: getAddress(await orchestrator.getAddress()),
+			hook: getAddress(await hook.getAddress()),
+			zchf: getAddress(await zchf.getAddress()),
+			tokenA: getAddress(await tokenA.getAddress()),
+		};
+	});
+
+	it('should convert execute args to a single Morpho flashloan', async function () {
+		const args: FlashloanExecuteArgs = [[addr.zchf], [provided], addr.zchf, flashAmount, []];
+		expect(toExecuteMultiArgs(args)).to.deep.equal([
+			[addr.zchf],
+			[provided],
+			{ provider: FlashloanProvider.MORPHO, lender: zeroAddress, tokens: [addr.zchf], amounts: [flashAmount] },
+			[],
+			[],
+		]);
+	});
+
+	it('should always revert with the report', async function () {
+		const args = argsOf([convert(addr.zchf, addr.tokenA, provided, parseEther('2'))]);
+		const data = encodeFunctionData({ abi: FlashloanOrchestratorABI, functionName: 'simulate', args });
+
+		await expect(user.sendTransaction({ to: addr.orchestrator, data })).to.be.revertedWithCustomError(orchestrator, 'SimulationResult');
+		expect(await zchf.balanceOf(user)).to.equal(provided);
+	});
+
+	it('should only run the simulated execution for simulate', async function () {
+		const args = argsOf([convert(addr.zchf, addr.tokenA, provided, parseEther('2'))]);
+		const data = encodeFunctionData({
+			abi: FlashloanOrchestratorABI,
+			functionName: 'simulateExecution',
+			args: [user.address as Address, ...args],
+		});
+
+		await expect(user.sendTransaction({ to: addr.orchestrator, data })).to.be.revertedWithCustomError(
+			orchestrator,
+			'UnsupportedFunction'
+		);
+	});
+
+	it('should report results and sender token deltas', async function () {
+		const report = await simulateFlashloan(
+			client,
+			user.address as Address,
+			addr.orchestrator,
+			argsOf([convert(addr.zchf, addr.tokenA, provided, parseEther('2'))])
+		);
+
+		expect(report.success).to.be.true;
+		expect(report.failedIndex).to.be.undefined;
+		expect(report.results).to.deep.equal([encodeAbiParameters(parseAbiParameters('uint256, uint256'), [provided, provided * 2n])]);
+		expect(report.deltas).to.deep.equal([
+			{ token: addr.zchf, delta: -provided },
+			{ token: addr.tokenA, delta: provided * 2n },
+		]);
+	});
+
+	it('should report the failing action and its reason', async function () {
+		const report = await simulateFlashloan(
+			client,
+			user.address as Address,
+			addr.orchestrator,
+			argsOf([
+				convert(addr.zchf, addr.tokenA, provided, parseEther('2')),
+				convert(addr.tokenA, addr.zchf, 2n, maxUint256), // overflows
+			])
+		);
+
+		expect(report.success).to.be.false;
+		expect(report.failedIndex).to.equal(1);
+		expect(report.error).to.deep.equal({ name: 'Panic', args: [0x11n] });
+		expect(report.results).to.have.length(1);
+		expect(report.deltas).to.deep.equal([]);
+	});
+
+	it('should report failures outside of the actions', async function () {
+		await registry.setPaused(hook, true);
+		const report = await simulateFlashloan(
+			client,
+			user.address as Address,
+			addr.orchestrator,
+			argsOf([convert(addr.zchf, addr.tokenA, 1n, 1n)])
+		);
+		await registry.setPaused(hook, false);
+
+		expect(report.success).to.be.false;
+		expect(report.failedIndex).to.equal(SIMULATION_OUTSIDE_ACTIONS);
+		expect(report.error).to.deep.equal({ name: 'HookNotAllowed', args: [addr.hook] });
+		expect(report.results).to.deep.equal([]);
+	});
+
+	it('should report failing repayments', async function () {
+		// converts the provided and flashloaned zchf, nothing is left to repay the flashloan
+		const report = await simulateFlashloan(
+			client,
+			user.address as Address,
+			addr.orchestrator,
+			argsOf([convert(addr.zchf, addr.tokenA, provided + flashAmount, parseEther('1'))]),
+			ERC20_ERRORS
+		);
+
+		expect(report.success).to.be.false;
+		expect(report.failedIndex).to.equal(SIMULATION_OUTSIDE_ACTIONS);
+		expect(report.error?.name).to.equal('ERC20InsufficientBalance');
+	});
+
+	it('should report failing transfers of the provided tokens', async function () {
+		const args = toExecuteMultiArgs([[addr.zchf], [provided + 1n], addr.zchf, flashAmount, [convert(addr.zchf, addr.tokenA, 1n, 1n)]]);
+		const report = await simulateFlashloan(client, user.address as Address, addr.orchestrator, args, ERC20_ERRORS);
+
+		expect(report.success).to.be.false;
+		expect(report.failedIndex).to.equal(SIMULATION_OUTSIDE_ACTIONS);
+		expect(report.error).to.deep.equal({
+			name: 'ERC20InsufficientBalance',
+			args: [getAddress(user.address), provided, provided + 1n],
+		});
+	});
+});
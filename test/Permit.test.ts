@@ -0,0 +1,333 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { MaxUint256, parseEther, parseUnits } from 'ethers';
+import {
+	Address,
+	createPublicClient,
+	createWalletClient,
+	custom,
+	encodeAbiParameters,
+	getAddress,
+	parseAbiParameters,
+	zeroAddress,
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import {
+	FlashloanOrchestrator,
+	LeverageMorpho,
+	MockERC20,
+	MockERC20Permit,
+	MockHook,
+	MockPermit2,
+	MockSwapRouter,
+	SavingsVaultZCHF,
+} from '../typechain';
+import { buildExecuteWithPermit, buildExecuteWithPermit2 } from '../exports/flashloan.multi';
+import { FlashloanAction, FlashloanProvider } from '../exports/flashloan.types';
+import {
+	NO_PERMIT,
+	PermitSigner,
+	getUSDCPermitDomain,
+	getZCHFPermitDomain,
+	readPermitDomain,
+	readPermitNonce,
+	signPermit,
+	signPermit2Transfer,
+} from '../exports/permit.signer';
+import { PermitDomain } from '../exports/permit.types';
+import {
+	MorphoFixture,
+	SAVINGS_RATE_PPM,
+	createMarket,
+	deployMockERC20,
+	deployMockERC20Permit,
+	deployMorphoFixture,
+	deployOrchestrator,
+	deployPermit2,
+} from './helper/fixtures';
+
+describe('Permit and Permit2', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+
+	let fixture: MorphoFixture;
+	let permit2: MockPermit2;
+	let zchf: MockERC20Permit;
+	let usdc: MockERC20Permit;
+	let vault: SavingsVaultZCHF;
+
+	let owner: SignerWithAddress;
+	let user: SignerWithAddress;
+	let wallet: PermitSigner;
+	let chainId: number;
+	let addr: { user: Address; zchf: Address; usdc: Address; vault: Address };
+
+	const getDeadline = async () => BigInt((await ethers.provider.getBlock('latest'))!.timestamp + 3600);
+
+	// EIP-2612 permit of the user for a spender, nonce read from the token
+	const permitFor = async (domain: PermitDomain, spender: Address, value: bigint) =>
+		signPermit(wallet, {
+			domain,
+			owner: addr.user,
+			spender,
+			value,
+			nonce: await readPermitNonce(client, domain.verifyingContract, addr.user),
+			deadline: await getDeadline(),
+		});
+
+	before(async function () {
+		[owner, user] = await ethers.getSigners();
+		fixture = await deployMorphoFixture();
+		wallet = createWalletClient({ account: user.address as Address, chain: hardhat, transport: custom(network.provider) });
+		chainId = Number(await network.provider.send('eth_chainId'));
+
+		permit2 = await deployPermit2();
+		zchf = await deployMockERC20Permit('Frankencoin', 'ZCHF', '');
+		usdc = await deployMockERC20Permit('USD Coin', 'USDC', '2', 6);
+
+		const savings = await (await ethers.getContractFactory('MockSavingsZCHF')).deploy(zchf, SAVINGS_RATE_PPM);
+		await zchf.setMinter(savings, true);
+		vault = await (await ethers.getContractFactory('SavingsVaultZCHF')).deploy(owner, zchf, savings, 'SavingsVaultZCHF', 'svZCHF');
+
+		await zchf.mint(user, parseEther('10000'));
+		await usdc.mint(user, parseUnits('10000', 6));
+
+		addr = {
+			user: getAddress(user.address),
+			zchf: getAddress(await zchf.getAddress()),
+			usdc: getAddress(await usdc.getAddress()),
+			vault: getAddress(await vault.getAddress()),
+		};
+	});
+
+	describe('Signatures', function () {
+		it('should build the permit domains of ZCHF, USDC and the vault shares', async function () {
+			expect(getZCHFPermitDomain(chainId, addr.zchf)).to.deep.equal({ chainId, verifyingContract: addr.zchf });
+			expect(getUSDCPermitDomain(chainId, addr.usdc)).to.deep.equal({
+				name: 'USD Coin',
+				version: '2',
+				chainId,
+				verifyingContract: addr.usdc,
+			});
+			expect(await readPermitDomain(client, addr.vault)).to.deep.equal({
+				name: 'SavingsVaultZCHF',
+				version: '1',
+				chainId,
+				verifyingContract: addr.vault,
+			});
+		});
+
+		it('should sign permits accepted by the tokens', async function () {
+			const domains = [
+				getZCHFPermitDomain(chainId, addr.zchf),
+				getUSDCPermitDomain(chainId, addr.usdc),
+				await readPermitDomain(client, addr.vault),
+			];
+
+			for (const domain of domains) {
+				const token = await ethers.getContractAt('IERC20Permit', domain.verifyingContract);
+				const erc20 = await ethers.getContractAt('IERC20', domain.verifyingContract);
+				const { value, deadline, v, r, s } = await permitFor(domain, owner.address as Address, 123n);
+
+				await token.permit(user, owner, value, deadline, v, r, s);
+				expect(await erc20.allowance(user, owner)).to.equal(123n);
+				expect(await token.nonces(user)).to.equal(1n);
+			}
+		});
+	});
+
+	describe('SavingsVaultZCHF', function () {
+		const assets = parseEther('100');
+
+		it('should deposit with a permit', async function () {
+			const permit = await permitFor(getZCHFPermitDomain(chainId, addr.zchf), addr.vault, assets);
+
+			await expect(vault.connect(user).depositWithPermit(assets, user, permit))
+				.to.emit(vault, 'Deposit')
+				.withArgs(user, user, assets, assets);
+			expect(await zchf.allowance(user, vault)).to.equal(0n);
+		});
+
+		it('should accept a used permit if the allowance covers the assets', async function () {
+			const permit = await permitFor(getZCHFPermitDomain(chainId, addr.zchf), addr.vault, assets);
+			await zchf.permit(user, vault, permit.value, permit.deadline, permit.v, permit.r, permit.s);
+
+			await expect(vault.connect(user).depositWithPermit(assets, user, permit)).to.emit(vault, 'Deposit');
+			await expect(vault.connect(user).depositWithPermit(assets, user, permit))
+				.to.be.revertedWithCustomError(vault, 'PermitFailed')
+				.withArgs(addr.zchf, 0n, assets);
+		});
+
+		it('should deposit with a Permit2 transfer once', async function () {
+			await zchf.connect(user).approve(permit2, MaxUint256);
+			const transfer = await signPermit2Transfer(wallet, {
+				chainId,
+				spender: addr.vault,
+				permitted: { token: addr.zchf, amount: assets },
+				deadline: await getDeadline(),
+			});
+
+			await expect(vault.connect(user).depositWithPermit2(assets, owner, transfer))
+				.to.emit(vault, 'Deposit')
+				.withArgs(user, owner, assets, assets);
+			await expect(vault.connect(user).depositWithPermit2(assets, owner, transfer)).to.be.revertedWithCustomError(
+				permit2,
+				'InvalidNonce'
+			);
+		});
+
+		it('should reject Permit2 transfers signed for another spender', async function () {
+			const transfer = await signPermit2Transfer(wallet, {
+				chainId,
+				spender: owner.address as Address,
+				permitted: { token: addr.zchf, amount: assets },
+				deadline: await getDeadline(),
+			});
+
+			await expect(vault.connect(user).depositWithPermit2(assets, user, transfer)).to.be.revertedWithCustomError(
+				permit2,
+				'InvalidSigner'
+			);
+		});
+	});
+
+	describe('FlashloanOrchestrator', function () {
+		let orchestrator: FlashloanOrchestrator;
+		let hook: MockHook;
+		let flashToken: Address;
+		let orchestratorAddress: Address;
+
+		const amount = parseUnits('100', 6);
+
+		// burns and mints the provided tokens back, proving they were transferred
+		const convert = (token: Address, amountIn: bigint): FlashloanAction => ({
+			target: getAddress(hook.target as string),
+			value: 0n,
+			data: encodeAbiParameters(parseAbiParameters('address, address, uint256, uint256'), [token, token, amountIn, parseEther('1')]),
+		});
+
+		const flashloan = () => ({
+			provider: FlashloanProvider.MORPHO,
+			lender: zeroAddress,
+			tokens: [flashToken],
+			amounts: [parseEther('1')],
+		});
+
+		before(async function () {
+			let registry;
+			({ orchestrator, registry } = await deployOrchestrator(fixture.morpho));
+			hook = await (await ethers.getContractFactory('MockHook')).deploy(orchestrator);
+			await registry.addHook(hook);
+
+			flashToken = getAddress(await fixture.zchf.getAddress());
+			orchestratorAddress = getAddress(await orchestrator.getAddress());
+		});
+
+		it('should execute with permits of the provided tokens', async function () {
+			const permit = await permitFor(getUSDCPermitDomain(chainId, addr.usdc), orchestratorAddress, amount);
+			const call = buildExecuteWithPermit(orchestratorAddress, [[addr.usdc, amount, permit]], flashloan(), [
+				convert(addr.usdc, amount),
+			]);
+
+			await expect(user.sendTransaction(call)).to.emit(hook, 'Converted').withArgs(addr.usdc, addr.usdc, amount, amount);
+			expect(await usdc.allowance(user, orchestrator)).to.equal(0n);
+		});
+
+		it('should require one permit per provided token', async function () {
+			await expect(
+				orchestrator.connect(user).executeWithPermit([addr.usdc], [amount], flashloan(), [convert(addr.usdc, 0n)], [], [])
+			).to.be.revertedWithCustomError(orchestrator, 'ArrayLengthMismatch');
+			await expect(
+				orchestrator.connect(user).executeWithPermit([addr.usdc], [amount], flashloan(), [convert(addr.usdc, 0n)], [], [NO_PERMIT])
+			).to.be.revertedWithCustomError(usdc, 'ERC20InsufficientAllowance');
+		});
+
+		it('should execute with one Permit2 transfer of all provided tokens', async function () {
+			await usdc.connect(user).approve(permit2, MaxUint256);
+			await zchf.connect(user).approve(permit2, MaxUint256);
+			const provided: [Address, bigint][] = [
+				[addr.usdc, amount],
+				[addr.zchf, parseEther('1')],
+			];
+			const transfer = await signPermit2Transfer(wallet, {
+				chainId,
+				spender: orchestratorAddress,
+				permitted: provided.map(([token, amount]) => ({ token, amount })),
+				deadline: await getDeadline(),
+			});
+			const call = buildExecuteWithPermit2(
+				orchestratorAddress,
+				provided,
+				flashloan(),
+				[convert(addr.usdc, amount), convert(addr.zchf, parseEther('1'))],
+				transfer
+			);
+
+			const tx = user.sendTransaction(call);
+			await expect(tx).to.emit(hook, 'Converted').withArgs(addr.zchf, addr.zchf, parseEther('1'), parseEther('1'));
+			await expect(tx).to.changeTokenBalances(usdc, [user, orchestrator], [0n, 0n]);
+			await expect(user.sendTransaction(call)).to.be.revertedWithCustomError(permit2, 'InvalidNonce');
+		});
+	});
+
+	describe('LeverageMorpho', function () {
+		let leverage: LeverageMorpho;
+		let collateral: MockERC20;
+		let leverageAddress: Address;
+
+		const path = () => [addr.zchf, getAddress(collateral.target as string)];
+
+		before(async function () {
+			collateral = await deployMockERC20('Collateral', 'COLL');
+			const { marketParams } = await createMarket(
+				fixture.mockMorpho,
+				zchf as unknown as MockERC20,
+				collateral,
+				fixture.oracle,
+				fixture.irm
+			);
+
+			const router: MockSwapRouter = await (await ethers.getContractFactory('MockSwapRouter')).deploy();
+			await router.setRate(zchf, collateral, parseEther('1'));
+
+			leverage = await (
+				await ethers.getContractFactory('LeverageMorpho')
+			).deploy(fixture.morpho, zchf, collateral, marketParams.oracle, marketParams.irm, marketParams.lltv, router, user);
+			leverageAddress = getAddress(await leverage.getAddress());
+
+			await collateral.mint(user, parseEther('1000'));
+		});
+
+		it('should increase with a permit of the loan token', async function () {
+			const walletLoan = parseEther('100');
+			const permit = await permitFor(getZCHFPermitDomain(chainId, addr.zchf), leverageAddress, walletLoan);
+
+			await expect(
+				leverage.connect(user).increaseWithPermit(walletLoan, 0n, parseEther('100'), path(), [3000], 0n, permit, NO_PERMIT)
+			)
+				.to.emit(leverage, 'Executed')
+				.withArgs(0, parseEther('100'), parseEther('200'), parseEther('200'), parseEther('200'));
+		});
+
+		it('should increase with one Permit2 transfer of loan and collateral token', async function () {
+			await collateral.connect(user).approve(permit2, MaxUint256);
+			const transfer = await signPermit2Transfer(wallet, {
+				chainId,
+				spender: leverageAddress,
+				permitted: [
+					{ token: addr.zchf, amount: parseEther('50') },
+					{ token: getAddress(collateral.target as string), amount: parseEther('50') },
+				],
+				deadline: await getDeadline(),
+			});
+
+			await expect(
+				leverage
+					.connect(user)
+					.increaseWithPermit2(parseEther('50'), parseEther('50'), parseEther('100'), path(), [3000], 0n, transfer)
+			)
+				.to.emit(leverage, 'Executed')
+				.withArgs(0, parseEther('100'), parseEther('150'), parseEther('150'), parseEther('200'));
+		});
+	});
+});
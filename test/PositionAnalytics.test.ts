@@ -0,0 +1,132 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { MaxUint256, parseEther } from 'ethers';
+import { Address, Hash, createPublicClient, custom, getAddress, maxUint256 } from 'viem';
+import * as helper from '@nomicfoundation/hardhat-network-helpers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { IMorpho, MockERC20, MockIrm, MockOracle, SavingsVaultZCHF } from '../typechain';
+import { getPositionReport, readPositionReport, readPositionSnapshot } from '../exports/position.analytics';
+import { toAssetsUp, toSharesDown, toSharesUp, wTaylorCompounded } from '../exports/morpho.math';
+import { evm_increaseTime } from './helper';
+import { MARKET_LLTV, MarketParamsStruct, ORACLE_PRICE, deployMorphoFixture } from './helper/fixtures';
+
+describe('Morpho position analytics', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+
+	let morpho: IMorpho;
+	let oracle: MockOracle;
+	let irm: MockIrm;
+	let vault: SavingsVaultZCHF;
+	let zchf: MockERC20;
+	let marketParams: MarketParamsStruct;
+
+	let morphoAddress: Address;
+	let marketId: Hash;
+	let borrower: SignerWithAddress;
+
+	const collateral = parseEther('1000');
+	const borrowed = parseEther('500');
+
+	before(async function () {
+		[, borrower] = await ethers.getSigners();
+		let id: string;
+		({ morpho, oracle, irm, vault, zchf, marketParams, marketId: id } = await deployMorphoFixture());
+		morphoAddress = getAddress(await morpho.getAddress());
+		marketId = id as Hash;
+
+		// svZCHF collateral for the borrower
+		await zchf.mint(borrower, collateral);
+		await zchf.connect(borrower).approve(vault, MaxUint256);
+		await vault.connect(borrower).deposit(collateral, borrower);
+
+		await vault.connect(borrower).approve(morpho, MaxUint256);
+		await morpho.connect(borrower).supplyCollateral(marketParams, collateral, borrower, '0x');
+		await morpho.connect(borrower).borrow(marketParams, borrowed, 0n, borrower, borrower);
+	});
+
+	it('should mirror the shares math rounding', async function () {
+		expect(toSharesUp(1n, 0n, 0n)).to.equal(1_000_000n);
+		expect(toSharesDown(1n, 0n, 0n)).to.equal(1_000_000n);
+		expect(toAssetsUp(1n, 1n, 1_000_000n)).to.equal(1n);
+		expect(toAssetsUp(1_000_001n, 1n, 1_000_000n)).to.equal(2n);
+		expect(wTaylorCompounded(0n, 1000n)).to.equal(0n);
+	});
+
+	it('should report a fresh position', async function () {
+		const report = await readPositionReport(client, morphoAddress, marketId, borrower.address as Address);
+
+		expect(report.collateral).to.equal(collateral);
+		expect(report.collateralValue).to.equal(collateral);
+		expect(report.debt).to.equal(borrowed);
+		expect(report.equity).to.equal(collateral - borrowed);
+		expect(report.lltv).to.equal(MARKET_LLTV);
+		expect(report.ltv).to.equal(parseEther('0.5'));
+		expect(report.maxBorrow).to.equal((collateral * MARKET_LLTV) / parseEther('1'));
+		expect(report.healthFactor).to.equal(parseEther('1.83'));
+		expect(report.isHealthy).to.be.true;
+		expect(report.leverage).to.equal(parseEther('2'));
+		// rounded up to one wei of collateral value for the whole collateral
+		expect(report.liquidationPrice).to.be.approximately((ORACLE_PRICE * 500n) / 915n, ORACLE_PRICE / collateral);
+	});
+
+	it('should accrue interest exactly like accrueInterest', async function () {
+		await evm_increaseTime(30 * 24 * 3600);
+
+		const snapshot = await readPositionSnapshot(client, morphoAddress, marketId, borrower.address as Address);
+		expect(snapshot.borrowRate).to.be.greaterThan(0n);
+
+		// report for the timestamp of the next block, then accrue onchain in that block
+		const next = snapshot.timestamp + 10n;
+		const report = getPositionReport({ ...snapshot, timestamp: next });
+		await helper.time.setNextBlockTimestamp(next);
+		await morpho.accrueInterest(marketParams);
+
+		const market = await morpho.market(marketId);
+		expect(report.market.totalBorrowAssets).to.equal(market.totalBorrowAssets);
+		expect(report.market.totalSupplyAssets).to.equal(market.totalSupplyAssets);
+		expect(report.market.lastUpdate).to.equal(market.lastUpdate);
+
+		expect(report.accruedInterest).to.be.greaterThan(0n);
+		expect(report.debt).to.equal(borrowed + report.accruedInterest);
+
+		// nothing pending after the update
+		const after = await readPositionReport(client, morphoAddress, marketId, borrower.address as Address);
+		expect(after.debt).to.equal(report.debt);
+		expect(after.accruedInterest).to.equal(0n);
+	});
+
+	it('should flag the position unhealthy below the liquidation price', async function () {
+		// freeze the debt, every block would accrue interest otherwise
+		await irm.setRate(0n);
+		await morpho.accrueInterest(marketParams);
+
+		const { liquidationPrice } = await readPositionReport(client, morphoAddress, marketId, borrower.address as Address);
+
+		await oracle.setPrice(liquidationPrice);
+		const at = await readPositionReport(client, morphoAddress, marketId, borrower.address as Address);
+		expect(at.isHealthy).to.be.true;
+		expect(at.distanceToLiquidation).to.equal(0n);
+
+		await oracle.setPrice(liquidationPrice - 1n);
+		const below = await readPositionReport(client, morphoAddress, marketId, borrower.address as Address);
+		expect(below.isHealthy).to.be.false;
+		expect(below.healthFactor).to.be.lessThan(parseEther('1'));
+
+		// onchain health check agrees, no collateral can be withdrawn
+		await expect(morpho.connect(borrower).withdrawCollateral(marketParams, 1n, borrower, borrower)).to.be.revertedWith(
+			'insufficient collateral'
+		);
+	});
+
+	it('should report an empty position', async function () {
+		const [, , other] = await ethers.getSigners();
+		const report = await readPositionReport(client, morphoAddress, marketId, other.address as Address);
+
+		expect(report.debt).to.equal(0n);
+		expect(report.ltv).to.equal(0n);
+		expect(report.healthFactor).to.equal(maxUint256);
+		expect(report.isHealthy).to.be.true;
+		expect(report.liquidationPrice).to.equal(0n);
+		expect(report.leverage).to.equal(0n);
+	});
+});
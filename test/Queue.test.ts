@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { Contract, ContractFactory, Signer } from "ethers";
 
 describe("Queue", function () {
@@ -29,11 +30,16 @@ describe("Queue", function () {
     // Deploy mock target contract
     MockTarget = await ethers.getContractFactory("MockTarget");
     mockTarget = await MockTarget.deploy();
+
+    // Target restrictions are enabled by default
+    await queue.allowTarget(await mockTarget.getAddress());
   });
 
   describe("Deployment", function () {
-    it("Should set the correct owner", async function () {
-      expect(await queue.owner()).to.equal(ownerAddress);
+    it("Should grant all roles to the deployer", async function () {
+      for (const role of ["DEFAULT_ADMIN_ROLE", "PROPOSER_ROLE", "EXECUTOR_ROLE", "CANCELLER_ROLE", "PAUSER_ROLE"]) {
+        expect(await queue.hasRole(await queue[role](), ownerAddress)).to.be.true;
+      }
     });
 
     it("Should set the correct configuration", async function () {
@@ -138,7 +144,7 @@ describe("Queue", function () {
 
       await expect(
         queue.connect(user1).executeBatch(actions, allowFailureMap)
-      ).to.be.revertedWith("Ownable: caller is not the owner");
+      ).to.be.revertedWithCustomError(queue, "AccessControlUnauthorizedAccount");
     });
 
     it("Should revert when no actions provided", async function () {
@@ -181,7 +187,7 @@ describe("Queue", function () {
     it("Should not allow non-owner to set configuration", async function () {
       await expect(
         queue.connect(user1).setMaxActions(20)
-      ).to.be.revertedWith("Ownable: caller is not the owner");
+      ).to.be.revertedWithCustomError(queue, "AccessControlUnauthorizedAccount");
     });
   });
 
@@ -197,6 +203,20 @@ describe("Queue", function () {
       expect(await queue.isTargetAllowed(await mockTarget.getAddress())).to.be.false;
     });
 
+    it("Should reject targets that are not allowlisted by default", async function () {
+      const other = await MockTarget.deploy();
+      const action = {
+        target: await other.getAddress(),
+        value: 0,
+        data: other.interface.encodeFunctionData("setValue", [42])
+      };
+
+      expect(await queue.isTargetAllowed(await other.getAddress())).to.be.false;
+      await expect(
+        queue.executeBatch([action], 0)
+      ).to.be.revertedWithCustomError(queue, "TargetNotAllowed");
+    });
+
     it("Should allow owner to disable target restrictions", async function () {
       await queue.disableTargetRestrictions();
       expect(await queue.isTargetAllowed(ethers.ZeroAddress)).to.be.true;
@@ -221,7 +241,7 @@ describe("Queue", function () {
     it("Should not allow non-owner to withdraw", async function () {
       await expect(
         queue.connect(user1).emergencyWithdraw()
-      ).to.be.revertedWith("Ownable: caller is not the owner");
+      ).to.be.revertedWithCustomError(queue, "AccessControlUnauthorizedAccount");
     });
   });
 
@@ -239,9 +259,9 @@ describe("Queue", function () {
       await expect(queue.executeBatch(actions, allowFailureMap))
         .to.emit(queue, "BatchExecuted")
         .withArgs(
-          ethers.anyValue, // batchId
+          anyValue, // batchId
           ownerAddress,
-          actions,
+          [[action.target, action.value, action.data]], // actions as tuples
           [true], // results
           allowFailureMap
         );
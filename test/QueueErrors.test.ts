@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs';
+import { Address, Hash, createPublicClient, custom, encodeErrorResult, getAddress, zeroHash } from 'viem';
+import { MockTarget, MockTarget__factory, Queue } from '../typechain';
+import { decodeQueueFailures, decodeRevertReason, getQueueFailures } from '../exports/queue.errors';
+
+describe('Queue revert decoding', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+
+	let queue: Queue;
+	let target: MockTarget;
+	let targetAddress: Address;
+	let queueAddress: Address;
+
+	const action = (to: Address, data: string) => ({ target: to, value: 0n, data });
+
+	before(async function () {
+		queue = await (await ethers.getContractFactory('Queue')).deploy(10, ethers.parseEther('1'));
+		target = await (await ethers.getContractFactory('MockTarget')).deploy();
+		await queue.disableTargetRestrictions();
+
+		targetAddress = getAddress(await target.getAddress());
+		queueAddress = getAddress(await queue.getAddress());
+	});
+
+	it('should decode Error(string), Panic(uint256), custom, empty and unknown revert data', async function () {
+		const error = encodeErrorResult({
+			abi: [{ type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] }],
+			errorName: 'Error',
+			args: ['failed'],
+		});
+		expect(decodeRevertReason(error)).to.deep.include({ kind: 'error', name: 'Error', reason: 'failed' });
+
+		const panic = encodeErrorResult({
+			abi: [{ type: 'error', name: 'Panic', inputs: [{ name: 'code', type: 'uint256' }] }],
+			errorName: 'Panic',
+			args: [0x11n],
+		});
+		expect(decodeRevertReason(panic)).to.deep.include({ kind: 'panic', reason: 'arithmetic overflow or underflow (0x11)' });
+
+		const custom = encodeErrorResult({ abi: MockTarget__factory.abi, errorName: 'ValueTooHigh', args: [7n, 100n] });
+		expect(decodeRevertReason(custom, MockTarget__factory.abi)).to.deep.include({ kind: 'custom', reason: 'ValueTooHigh(7, 100)' });
+		expect(decodeRevertReason(custom)).to.deep.include({ kind: 'unknown', reason: `unknown error ${custom.slice(0, 10)}` });
+
+		expect(decodeRevertReason('0x')).to.deep.include({ kind: 'empty' });
+	});
+
+	it('should emit the raw revert data of failed actions', async function () {
+		const actions = [action(targetAddress, target.interface.encodeFunctionData('customErrorFunction', [7]))];
+
+		await expect(queue.executeBatch(actions, 1))
+			.to.emit(queue, 'ActionFailed')
+			.withArgs(anyValue, 0, target.interface.encodeErrorResult('ValueTooHigh', [7, 100]));
+	});
+
+	it('should resolve a readable reason per failed action', async function () {
+		const actions = [
+			action(targetAddress, target.interface.encodeFunctionData('setValue', [42])),
+			action(targetAddress, target.interface.encodeFunctionData('revertFunction')),
+			action(targetAddress, target.interface.encodeFunctionData('customErrorFunction', [7])),
+			action(targetAddress, target.interface.encodeFunctionData('panicFunction', [0])),
+			action(queueAddress, queue.interface.encodeFunctionData('setMaxActions', [1])),
+			action(targetAddress, '0xdeadbeef'),
+		];
+
+		const tx = await queue.executeBatch(actions, 0b111110);
+		const failures = await getQueueFailures(client, tx.hash as Hash, { [targetAddress]: MockTarget__factory.abi });
+
+		expect(await target.value()).to.equal(42n);
+		expect(failures.map((f) => [f.actionIndex, f.target, f.revert.kind, f.revert.reason])).to.deep.equal([
+			[1, targetAddress, 'error', 'MockTarget: This function always reverts'],
+			[2, targetAddress, 'custom', 'ValueTooHigh(7, 100)'],
+			[3, targetAddress, 'panic', 'division or modulo by zero (0x12)'],
+			[4, queueAddress, 'custom', `AccessControlUnauthorizedAccount(${queueAddress}, ${zeroHash})`],
+			[5, targetAddress, 'empty', 'reverted without reason'],
+		]);
+	});
+
+	it('should decode failures without the BatchExecuted log', async function () {
+		const actions = [action(targetAddress, target.interface.encodeFunctionData('revertFunction'))];
+		const tx = await queue.executeBatch(actions, 1);
+		const receipt = await client.getTransactionReceipt({ hash: tx.hash as Hash });
+
+		const [failure] = decodeQueueFailures(receipt.logs.slice(0, 1));
+		expect(failure.target).to.equal(undefined);
+		expect(failure.revert.reason).to.equal('MockTarget: This function always reverts');
+	});
+});
@@ -0,0 +1,153 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { Address, createPublicClient, createWalletClient, custom, getAddress } from 'viem';
+import { hardhat } from 'viem/chains';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { MockTarget, Queue } from '../typechain';
+import { QueueAdmin, getGrantRoleCall, getRevokeRoleCall, readPaused, readQueueRoles, sendQueueCall } from '../exports/queue.client';
+import { QUEUE_ROLES, QueueRole } from '../exports/queue.types';
+import { evm_increaseTime, getTimeStamp } from './helper';
+
+describe('Queue roles and pausing', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+
+	let queue: Queue;
+	let target: MockTarget;
+	let admin: SignerWithAddress;
+	let proposer: SignerWithAddress;
+	let executor: SignerWithAddress;
+	let canceller: SignerWithAddress;
+	let guardian: SignerWithAddress;
+	let wallet: QueueAdmin;
+	let queueAddress: Address;
+
+	const setValue = async (value: number) => [
+		{ target: await target.getAddress(), value: 0n, data: target.interface.encodeFunctionData('setValue', [value]) },
+	];
+
+	const queueBatch = async (value: number) => {
+		const eta = BigInt((await getTimeStamp()) ?? 0) + 10n;
+		const tx = await queue.connect(proposer).queueBatch(await setValue(value), 0, eta, 0);
+		const receipt = await tx.wait();
+		return queue.interface.parseLog(receipt!.logs[0])!.args.batchId as bigint;
+	};
+
+	before(async function () {
+		[admin, proposer, executor, canceller, guardian] = await ethers.getSigners();
+		queue = await (await ethers.getContractFactory('Queue')).deploy(10, ethers.parseEther('1'));
+		target = await (await ethers.getContractFactory('MockTarget')).deploy();
+		await queue.disableTargetRestrictions();
+
+		queueAddress = getAddress(await queue.getAddress());
+		wallet = createWalletClient({ account: admin.address as Address, chain: hardhat, transport: custom(network.provider) });
+
+		const grants: [QueueRole, SignerWithAddress][] = [
+			['PROPOSER', proposer],
+			['EXECUTOR', executor],
+			['CANCELLER', canceller],
+			['PAUSER', guardian],
+		];
+		for (const [role, account] of grants) {
+			const hash = await sendQueueCall(wallet, getGrantRoleCall(queueAddress, role, account.address as Address));
+			await client.waitForTransactionReceipt({ hash });
+		}
+	});
+
+	it('should match the role ids of the contract', async function () {
+		expect(await queue.DEFAULT_ADMIN_ROLE()).to.equal(QUEUE_ROLES.ADMIN);
+		expect(await queue.PROPOSER_ROLE()).to.equal(QUEUE_ROLES.PROPOSER);
+		expect(await queue.EXECUTOR_ROLE()).to.equal(QUEUE_ROLES.EXECUTOR);
+		expect(await queue.CANCELLER_ROLE()).to.equal(QUEUE_ROLES.CANCELLER);
+		expect(await queue.PAUSER_ROLE()).to.equal(QUEUE_ROLES.PAUSER);
+		expect(await queue.SIGNER_ROLE()).to.equal(QUEUE_ROLES.SIGNER);
+	});
+
+	it('should read the roles of an account', async function () {
+		expect(await readQueueRoles(client, queueAddress, executor.address as Address)).to.deep.equal({
+			ADMIN: false,
+			PROPOSER: false,
+			EXECUTOR: true,
+			CANCELLER: false,
+			PAUSER: false,
+			SIGNER: false,
+		});
+		const roles = await readQueueRoles(client, queueAddress, admin.address as Address);
+		expect(Object.values(roles).every((granted) => granted)).to.equal(true);
+	});
+
+	it('should let an executor execute without configuration rights', async function () {
+		await queue.connect(executor).executeBatch(await setValue(1), 0);
+		expect(await target.value()).to.equal(1n);
+
+		await expect(queue.connect(executor).setMaxActions(1))
+			.to.be.revertedWithCustomError(queue, 'AccessControlUnauthorizedAccount')
+			.withArgs(executor.address, QUEUE_ROLES.ADMIN);
+		await expect(queue.connect(executor).queueBatch(await setValue(2), 0, 0, 0)).to.be.revertedWithCustomError(
+			queue,
+			'AccessControlUnauthorizedAccount'
+		);
+		await expect(queue.connect(proposer).executeBatch(await setValue(2), 0)).to.be.revertedWithCustomError(
+			queue,
+			'AccessControlUnauthorizedAccount'
+		);
+	});
+
+	it('should split queueing, cancelling and executing between roles', async function () {
+		const cancelled = await queueBatch(3);
+		await expect(queue.connect(executor).cancelBatch(cancelled)).to.be.revertedWithCustomError(
+			queue,
+			'AccessControlUnauthorizedAccount'
+		);
+		await queue.connect(canceller).cancelBatch(cancelled);
+
+		const batchId = await queueBatch(4);
+		await evm_increaseTime(10);
+		await expect(queue.connect(canceller).executeQueuedBatch(batchId)).to.be.revertedWithCustomError(
+			queue,
+			'AccessControlUnauthorizedAccount'
+		);
+		await queue.connect(executor).executeQueuedBatch(batchId);
+		expect(await target.value()).to.equal(4n);
+	});
+
+	it('should let the guardian pause queueing and executing', async function () {
+		const batchId = await queueBatch(5);
+
+		await expect(queue.connect(executor).pause()).to.be.revertedWithCustomError(queue, 'AccessControlUnauthorizedAccount');
+		await expect(queue.connect(guardian).pause()).to.emit(queue, 'Paused').withArgs(guardian.address);
+		expect(await readPaused(client, queueAddress)).to.equal(true);
+		await expect(queue.connect(guardian).pause()).to.be.revertedWithCustomError(queue, 'EnforcedPause');
+
+		await evm_increaseTime(10);
+		await expect(queue.connect(executor).executeBatch(await setValue(6), 0)).to.be.revertedWithCustomError(queue, 'EnforcedPause');
+		await expect(queue.connect(executor).executeQueuedBatch(batchId)).to.be.revertedWithCustomError(queue, 'EnforcedPause');
+		await expect(queue.connect(proposer).queueBatch(await setValue(6), 0, 2n ** 40n, 0)).to.be.revertedWithCustomError(
+			queue,
+			'EnforcedPause'
+		);
+
+		// queued batches can still be cancelled while paused
+		await queue.connect(canceller).cancelBatch(batchId);
+	});
+
+	it('should only let the admin unpause', async function () {
+		await expect(queue.connect(guardian).unpause())
+			.to.be.revertedWithCustomError(queue, 'AccessControlUnauthorizedAccount')
+			.withArgs(guardian.address, QUEUE_ROLES.ADMIN);
+		await expect(queue.unpause()).to.emit(queue, 'Unpaused').withArgs(admin.address);
+		await expect(queue.unpause()).to.be.revertedWithCustomError(queue, 'ExpectedPause');
+
+		await queue.connect(executor).executeBatch(await setValue(7), 0);
+		expect(await target.value()).to.equal(7n);
+	});
+
+	it('should revoke a role', async function () {
+		const hash = await sendQueueCall(wallet, getRevokeRoleCall(queueAddress, 'EXECUTOR', executor.address as Address));
+		await client.waitForTransactionReceipt({ hash });
+
+		await expect(queue.connect(executor).executeBatch(await setValue(8), 0)).to.be.revertedWithCustomError(
+			queue,
+			'AccessControlUnauthorizedAccount'
+		);
+	});
+});
@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { parseEther } from 'ethers';
+import { Address, Hex, createPublicClient, createWalletClient, custom, getAddress, toFunctionSelector } from 'viem';
+import { hardhat } from 'viem/chains';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { MockTarget, MockTarget__factory, Queue } from '../typechain';
+import { IMetaMorphoV1_1ABI } from '../exports/abis/IMetaMorphoV1_1';
+import { SavingsVaultZCHF_2ABI } from '../exports/abis/SavingsVaultZCHF_2';
+import { QueueAdmin, sendQueueCall } from '../exports/queue.client';
+import {
+	NO_VALUE_CAP,
+	getAllowSelectorCall,
+	getAllowSelectorCalls,
+	getDisallowSelectorCall,
+	getFunctionSelectors,
+	readQueueCallPolicy,
+} from '../exports/queue.selectors';
+import { EncodedCall } from '../exports/flashloan.types';
+
+describe('Queue function selector allowlist', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+
+	let queue: Queue;
+	let target: MockTarget;
+	let other: MockTarget;
+	let admin: SignerWithAddress;
+	let user: SignerWithAddress;
+	let wallet: QueueAdmin;
+	let queueAddress: Address;
+	let targetAddress: Address;
+
+	const send = async (call: EncodedCall) => {
+		await client.waitForTransactionReceipt({ hash: await sendQueueCall(wallet, call) });
+	};
+
+	const call = (data: string, value: bigint = 0n, to: Address = targetAddress) => [{ target: to, value, data }];
+
+	before(async function () {
+		[admin, user] = await ethers.getSigners();
+		queue = await (await ethers.getContractFactory('Queue')).deploy(10, parseEther('1'));
+		target = await (await ethers.getContractFactory('MockTarget')).deploy();
+		other = await (await ethers.getContractFactory('MockTarget')).deploy();
+		await admin.sendTransaction({ to: queue, value: parseEther('1') });
+
+		queueAddress = getAddress(await queue.getAddress());
+		targetAddress = getAddress(await target.getAddress());
+		wallet = createWalletClient({ account: admin.address as Address, chain: hardhat, transport: custom(network.provider) });
+	});
+
+	it('should derive selectors from the exported abis', async function () {
+		expect(getFunctionSelectors(SavingsVaultZCHF_2ABI, ['setReferral'])).to.deep.equal([
+			{ name: 'setReferral', signature: 'setReferral(address,uint24)', selector: toFunctionSelector('setReferral(address,uint24)') },
+		]);
+
+		const [reallocate] = getFunctionSelectors(IMetaMorphoV1_1ABI, ['reallocate']);
+		expect(reallocate.signature).to.equal('reallocate(((address,address,address,address,uint256),uint256)[])');
+
+		const names = getFunctionSelectors(MockTarget__factory.abi).map((f) => f.name);
+		expect(names).to.include('setValue');
+		expect(names).to.not.include('getValue');
+
+		expect(() => getFunctionSelectors(SavingsVaultZCHF_2ABI, ['setReferal'])).to.throw('setReferal');
+	});
+
+	it('should only allow the listed functions of a target', async function () {
+		await expect(queue.executeBatch(call(target.interface.encodeFunctionData('setValue', [1])), 0)).to.be.revertedWithCustomError(
+			queue,
+			'TargetNotAllowed'
+		);
+
+		for (const c of getAllowSelectorCalls(queueAddress, targetAddress, MockTarget__factory.abi, ['setValue'])) await send(c);
+
+		await queue.executeBatch(call(target.interface.encodeFunctionData('setValue', [1])), 0);
+		expect(await target.value()).to.equal(1n);
+
+		const selector = target.interface.getFunction('setShouldRevert').selector;
+		await expect(queue.executeBatch(call(target.interface.encodeFunctionData('setShouldRevert', [true])), 0))
+			.to.be.revertedWithCustomError(queue, 'SelectorNotAllowed')
+			.withArgs(targetAddress, selector);
+		await expect(queue.executeBatch(call('0x', 0n), 0))
+			.to.be.revertedWithCustomError(queue, 'SelectorNotAllowed')
+			.withArgs(targetAddress, '0x00000000');
+	});
+
+	it('should cap the value per function', async function () {
+		const selector = target.interface.getFunction('setValuePayable').selector as Hex;
+		await send(getAllowSelectorCall(queueAddress, targetAddress, selector, parseEther('0.1')));
+
+		const data = target.interface.encodeFunctionData('setValuePayable', [2]);
+		expect(await queue.isCallAllowed(targetAddress, selector, parseEther('0.1'))).to.equal(true);
+		expect(await queue.isCallAllowed(targetAddress, selector, parseEther('0.2'))).to.equal(false);
+
+		await expect(queue.executeBatch(call(data, parseEther('0.2')), 0))
+			.to.be.revertedWithCustomError(queue, 'SelectorValueExceedsMaximum')
+			.withArgs(targetAddress, selector, parseEther('0.1'));
+		await queue.executeBatch(call(data, parseEther('0.1')), 0);
+		expect(await ethers.provider.getBalance(target)).to.equal(parseEther('0.1'));
+
+		// the cap still applies once the target is allowed as a whole
+		await queue.allowTarget(target);
+		await expect(queue.executeBatch(call(data, parseEther('0.2')), 1)).to.be.revertedWithCustomError(
+			queue,
+			'SelectorValueExceedsMaximum'
+		);
+		await queue.disallowTarget(target);
+	});
+
+	it('should enumerate the policy', async function () {
+		await queue.allowTarget(other);
+
+		const setValue = target.interface.getFunction('setValue').selector;
+		const setValuePayable = target.interface.getFunction('setValuePayable').selector;
+		const policy = await readQueueCallPolicy(client, queueAddress, { [targetAddress]: MockTarget__factory.abi });
+
+		expect(policy.restricted).to.equal(true);
+		expect(policy.targets).to.deep.equal([getAddress(await other.getAddress())]);
+		expect(policy.selectors).to.deep.equal([
+			{ target: targetAddress, selector: setValue, maxValue: NO_VALUE_CAP, signature: 'setValue(uint256)' },
+			{ target: targetAddress, selector: setValuePayable, maxValue: parseEther('0.1'), signature: 'setValuePayable(uint256)' },
+		]);
+		expect(await queue.NO_VALUE_CAP()).to.equal(NO_VALUE_CAP);
+	});
+
+	it('should disallow a function', async function () {
+		const setValue = target.interface.getFunction('setValue').selector as Hex;
+		await expect(queue.disallowSelector(targetAddress, setValue))
+			.to.emit(queue, 'SelectorDisallowed')
+			.withArgs(targetAddress, setValue);
+		await expect(queue.executeBatch(call(target.interface.encodeFunctionData('setValue', [3])), 0)).to.be.revertedWithCustomError(
+			queue,
+			'SelectorNotAllowed'
+		);
+
+		// no event for selectors which are not allowed
+		await expect(queue.disallowSelector(targetAddress, setValue)).to.not.emit(queue, 'SelectorDisallowed');
+
+		await send(getDisallowSelectorCall(queueAddress, targetAddress, target.interface.getFunction('setValuePayable').selector as Hex));
+		const policy = await readQueueCallPolicy(client, queueAddress);
+		expect(policy.selectors).to.deep.equal([]);
+		expect(await queue.getSelectorTargets()).to.deep.equal([]);
+		await expect(queue.executeBatch(call(target.interface.encodeFunctionData('setValue', [3])), 0)).to.be.revertedWithCustomError(
+			queue,
+			'TargetNotAllowed'
+		);
+	});
+
+	it('should only let the admin change the allowlist', async function () {
+		await expect(queue.connect(user).allowSelector(targetAddress, '0x12345678', 0)).to.be.revertedWithCustomError(
+			queue,
+			'AccessControlUnauthorizedAccount'
+		);
+		await expect(queue.connect(user).disallowSelector(targetAddress, '0x12345678')).to.be.revertedWithCustomError(
+			queue,
+			'AccessControlUnauthorizedAccount'
+		);
+	});
+});
@@ -0,0 +1,151 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { Address, Hex, createPublicClient, createWalletClient, custom, getAddress } from 'viem';
+import { hardhat } from 'viem/chains';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { MockTarget, Queue } from '../typechain';
+import { QueueAdmin, getGrantRoleCall, sendQueueCall } from '../exports/queue.client';
+import {
+	getCancelAuthorizationCall,
+	getExecuteSignedBatchCall,
+	readQueueNonceUsed,
+	recoverQueueBatchSigner,
+	signQueueBatch,
+} from '../exports/queue.signer';
+import { QueueAction, SignedBatch } from '../exports/queue.types';
+import { EncodedCall } from '../exports/flashloan.types';
+import { evm_increaseTime, getTimeStamp } from './helper';
+
+describe('Queue signed batches', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+	const signer = privateKeyToAccount(generatePrivateKey());
+
+	let queue: Queue;
+	let target: MockTarget;
+	let admin: SignerWithAddress;
+	let relayer: QueueAdmin;
+	let wallet: QueueAdmin;
+	let chainId: number;
+	let queueAddress: Address;
+	let targetAddress: Address;
+
+	const setValue = (value: number): QueueAction => ({
+		target: targetAddress,
+		value: 0n,
+		data: target.interface.encodeFunctionData('setValue', [value]) as Hex,
+	});
+
+	const deadline = async () => BigInt((await getTimeStamp()) ?? 0) + 3600n;
+
+	const sign = async (actions: QueueAction[], allowFailureMap: bigint = 0n) =>
+		signQueueBatch(signer, { chainId, verifyingContract: queueAddress, actions, allowFailureMap, deadline: await deadline() });
+
+	const submit = (batch: SignedBatch) =>
+		queue.connect(admin).executeSignedBatch(batch.actions, batch.allowFailureMap, batch.nonce, batch.deadline, batch.signature);
+
+	const send = async (from: QueueAdmin, call: EncodedCall) => {
+		await client.waitForTransactionReceipt({ hash: await sendQueueCall(from, call) });
+	};
+
+	before(async function () {
+		let user: SignerWithAddress;
+		[admin, user] = await ethers.getSigners();
+		queue = await (await ethers.getContractFactory('Queue')).deploy(10, ethers.parseEther('1'));
+		target = await (await ethers.getContractFactory('MockTarget')).deploy();
+		await queue.disableTargetRestrictions();
+
+		chainId = await client.getChainId();
+		queueAddress = getAddress(await queue.getAddress());
+		targetAddress = getAddress(await target.getAddress());
+		wallet = createWalletClient({ account: admin.address as Address, chain: hardhat, transport: custom(network.provider) });
+		relayer = createWalletClient({ account: user.address as Address, chain: hardhat, transport: custom(network.provider) });
+
+		await send(wallet, getGrantRoleCall(queueAddress, 'SIGNER', signer.address));
+	});
+
+	it('should hash a batch like the contract', async function () {
+		const batch = await sign([setValue(1), { target: targetAddress, value: 1n, data: '0x' }], 2n);
+		const { signature, ...message } = batch;
+
+		expect(await recoverQueueBatchSigner(chainId, queueAddress, batch)).to.equal(signer.address);
+		expect(
+			await queue.verifyBatchSignature(message.actions, message.allowFailureMap, message.nonce, message.deadline, signature)
+		).to.equal(signer.address);
+	});
+
+	it('should execute a batch relayed by any account', async function () {
+		const batch = await sign([setValue(42)]);
+
+		await expect(submit(batch)).to.emit(queue, 'NonceUsed').withArgs(signer.address, batch.nonce);
+		expect(await target.value()).to.equal(42n);
+		expect(await readQueueNonceUsed(client, queueAddress, signer.address, batch.nonce)).to.equal(true);
+
+		await expect(submit(batch)).to.be.revertedWithCustomError(queue, 'NonceAlreadyUsed').withArgs(signer.address, batch.nonce);
+
+		// a relayer without roles
+		await send(relayer, getExecuteSignedBatchCall(queueAddress, await sign([setValue(43)])));
+		expect(await target.value()).to.equal(43n);
+	});
+
+	it('should execute the same actions signed with different nonces', async function () {
+		const first = await sign([setValue(44)]);
+		const second = await sign([setValue(44)]);
+		expect(first.nonce).to.not.equal(second.nonce);
+
+		await expect(submit(first)).to.emit(queue, 'NonceUsed').withArgs(signer.address, first.nonce);
+		await expect(submit(second)).to.emit(queue, 'NonceUsed').withArgs(signer.address, second.nonce);
+
+		// unsigned batches with the same actions keep their own IDs
+		await queue.executeBatch([setValue(44)], 0n);
+		await expect(submit(await sign([setValue(44)]))).to.emit(queue, 'BatchExecuted');
+		expect(await target.value()).to.equal(44n);
+	});
+
+	it('should reject altered batches and signers without the signer role', async function () {
+		const batch = await sign([setValue(7)]);
+		await expect(submit({ ...batch, actions: [setValue(8)] })).to.be.revertedWithCustomError(queue, 'AccessControlUnauthorizedAccount');
+		await expect(submit({ ...batch, signature: '0x1234' })).to.be.revertedWithCustomError(queue, 'SignatureInvalid');
+
+		// the deployer holds the signer role until it is revoked
+		const signed = (value: number) =>
+			deadline().then((d) =>
+				signQueueBatch(wallet, { chainId, verifyingContract: queueAddress, actions: [setValue(value)], deadline: d })
+			);
+		await submit(await signed(9));
+		expect(await target.value()).to.equal(9n);
+
+		await queue.revokeRole(await queue.SIGNER_ROLE(), admin.address);
+		await expect(submit(await signed(10)))
+			.to.be.revertedWithCustomError(queue, 'AccessControlUnauthorizedAccount')
+			.withArgs(admin.address, await queue.SIGNER_ROLE());
+	});
+
+	it('should reject a batch after its deadline', async function () {
+		const batch = await sign([setValue(10)]);
+		await evm_increaseTime(3601);
+
+		await expect(submit(batch)).to.be.revertedWithCustomError(queue, 'AuthorizationExpired').withArgs(batch.deadline);
+	});
+
+	it('should let the signer cancel a nonce', async function () {
+		const batch = await sign([setValue(11)]);
+		const account = createWalletClient({ account: signer, chain: hardhat, transport: custom(network.provider) });
+		await admin.sendTransaction({ to: signer.address, value: ethers.parseEther('1') });
+
+		await send(account, getCancelAuthorizationCall(queueAddress, batch.nonce));
+		await expect(submit(batch)).to.be.revertedWithCustomError(queue, 'NonceAlreadyUsed');
+
+		await expect(queue.cancelAuthorization(batch.nonce)).to.emit(queue, 'AuthorizationCanceled').withArgs(admin.address, batch.nonce);
+		await expect(queue.cancelAuthorization(batch.nonce)).to.be.revertedWithCustomError(queue, 'NonceAlreadyUsed');
+	});
+
+	it('should not execute signed batches while paused or with a minimum delay', async function () {
+		await queue.pause();
+		await expect(submit(await sign([setValue(12)]))).to.be.revertedWithCustomError(queue, 'EnforcedPause');
+		await queue.unpause();
+
+		await queue.setMinDelay(60);
+		await expect(submit(await sign([setValue(12)]))).to.be.revertedWithCustomError(queue, 'ImmediateExecutionDisabled');
+	});
+});
@@ -0,0 +1,160 @@
+import { expect } from 'chai';
+import { ethers, network } from 'hardhat';
+import { Address, Hex, createPublicClient, createWalletClient, custom, getAddress } from 'viem';
+import { hardhat } from 'viem/chains';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+import { MockTarget, Queue } from '../typechain';
+import {
+	QueueAdmin,
+	getCancelBatchCall,
+	getExecuteQueuedBatchCall,
+	getPendingBatches,
+	getQueueBatchCall,
+	getQueuedBatchId,
+	getQueuedBatches,
+	getSetMinDelayCall,
+	readMinDelay,
+	readQueuedBatchState,
+	sendQueueCall,
+} from '../exports/queue.client';
+import { QueueAction, QueueBatchState } from '../exports/queue.types';
+import { EncodedCall } from '../exports/flashloan.types';
+import { evm_increaseTime, getTimeStamp } from './helper';
+
+describe('Queue timelocked batches', function () {
+	const client = createPublicClient({ transport: custom(network.provider) });
+	const DELAY = 3600n;
+
+	let queue: Queue;
+	let target: MockTarget;
+	let owner: SignerWithAddress;
+	let user: SignerWithAddress;
+	let admin: QueueAdmin;
+	let queueAddress: Address;
+	let targetAddress: Address;
+
+	const setValue = (value: number): QueueAction => ({
+		target: targetAddress,
+		value: 0n,
+		data: target.interface.encodeFunctionData('setValue', [value]) as Hex,
+	});
+
+	const now = async () => BigInt((await getTimeStamp()) ?? 0);
+
+	const send = async (call: EncodedCall) => {
+		const hash = await sendQueueCall(admin, call);
+		return await client.waitForTransactionReceipt({ hash });
+	};
+
+	const queueBatch = async (actions: QueueAction[], eta: bigint, expiry: bigint = 0n) => {
+		const receipt = await send(getQueueBatchCall(queueAddress, actions, 0n, eta, expiry));
+		return getQueuedBatchId(receipt.logs)!;
+	};
+
+	before(async function () {
+		[owner, user] = await ethers.getSigners();
+		queue = await (await ethers.getContractFactory('Queue')).deploy(10, ethers.parseEther('1'));
+		target = await (await ethers.getContractFactory('MockTarget')).deploy();
+		await queue.disableTargetRestrictions();
+
+		queueAddress = getAddress(await queue.getAddress());
+		targetAddress = getAddress(await target.getAddress());
+		admin = createWalletClient({ account: owner.address as Address, chain: hardhat, transport: custom(network.provider) });
+	});
+
+	it('should raise the minimum delay directly and disable immediate execution', async function () {
+		await expect(queue.setMinDelay(DELAY)).to.emit(queue, 'MinDelayChanged').withArgs(0, DELAY);
+		expect(await readMinDelay(client, queueAddress)).to.equal(DELAY);
+
+		await expect(queue.executeBatch([setValue(1)], 0)).to.be.revertedWithCustomError(queue, 'ImmediateExecutionDisabled');
+		await expect(queue.setMinDelay(DELAY - 1n)).to.be.revertedWithCustomError(queue, 'DelayDecreaseNotQueued');
+		await expect(queue.connect(user).setMinDelay(DELAY * 2n)).to.be.revertedWithCustomError(queue, 'AccessControlUnauthorizedAccount');
+	});
+
+	it('should reject an eta before the minimum delay and an expiry before the eta', async function () {
+		const eta = (await now()) + DELAY;
+		await expect(queue.queueBatch([setValue(1)], 0, eta, 0)).to.be.revertedWithCustomError(queue, 'DelayTooShort');
+		await expect(queue.queueBatch([setValue(1)], 0, eta + 10n, eta + 10n)).to.be.revertedWithCustomError(queue, 'InvalidExpiry');
+		await expect(queue.connect(user).queueBatch([setValue(1)], 0, eta + 10n, 0)).to.be.revertedWithCustomError(
+			queue,
+			'AccessControlUnauthorizedAccount'
+		);
+	});
+
+	it('should queue a batch and execute it by id once ready', async function () {
+		const eta = (await now()) + DELAY + 10n;
+		const batchId = await queueBatch([setValue(42)], eta);
+
+		const [pending] = await getPendingBatches(client, queueAddress);
+		expect(pending).to.deep.include({ batchId, eta, expiry: 0n, status: 'waiting', allowFailureMap: 0n });
+		expect(pending.actions).to.deep.equal([setValue(42)]);
+		expect(await readQueuedBatchState(client, queueAddress, batchId)).to.equal(QueueBatchState.QUEUED);
+
+		await expect(queue.executeQueuedBatch(batchId)).to.be.revertedWithCustomError(queue, 'BatchNotReady').withArgs(eta);
+
+		await evm_increaseTime(DELAY + 10n);
+		expect((await getPendingBatches(client, queueAddress))[0].status).to.equal('ready');
+
+		await send(getExecuteQueuedBatchCall(queueAddress, batchId));
+		expect(await target.value()).to.equal(42n);
+		expect(await queue.executedBatches(batchId)).to.equal(true);
+		expect(await readQueuedBatchState(client, queueAddress, batchId)).to.equal(QueueBatchState.EXECUTED);
+		expect(await getPendingBatches(client, queueAddress)).to.deep.equal([]);
+
+		await expect(queue.executeQueuedBatch(batchId)).to.be.revertedWithCustomError(queue, 'BatchNotQueued').withArgs(batchId);
+	});
+
+	it('should give the same actions queued twice their own ids', async function () {
+		const eta = (await now()) + DELAY + 10n;
+		const first = await queueBatch([setValue(7)], eta);
+		const second = await queueBatch([setValue(7)], eta);
+
+		expect(first).to.not.equal(second);
+		expect((await getPendingBatches(client, queueAddress)).map((b) => b.batchId)).to.deep.equal([first, second]);
+
+		await send(getCancelBatchCall(queueAddress, first));
+		await send(getCancelBatchCall(queueAddress, second));
+	});
+
+	it('should cancel a queued batch', async function () {
+		const batchId = await queueBatch([setValue(1)], (await now()) + DELAY + 10n);
+
+		await expect(queue.cancelBatch(batchId)).to.emit(queue, 'BatchCancelled').withArgs(batchId);
+		await evm_increaseTime(DELAY + 10n);
+
+		await expect(queue.executeQueuedBatch(batchId)).to.be.revertedWithCustomError(queue, 'BatchNotQueued');
+		await expect(queue.cancelBatch(batchId)).to.be.revertedWithCustomError(queue, 'BatchNotQueued');
+
+		const [actions, , , , state] = await queue.getQueuedBatch(batchId);
+		expect(actions).to.deep.equal([]);
+		expect(state).to.equal(QueueBatchState.CANCELLED);
+
+		const batch = (await getQueuedBatches(client, queueAddress)).find((b) => b.batchId == batchId);
+		expect(batch?.status).to.equal('cancelled');
+	});
+
+	it('should reject a batch after its expiry', async function () {
+		const eta = (await now()) + DELAY + 10n;
+		const batchId = await queueBatch([setValue(1)], eta, eta + 60n);
+
+		await evm_increaseTime(DELAY + 100n);
+		await expect(queue.executeQueuedBatch(batchId))
+			.to.be.revertedWithCustomError(queue, 'BatchExpired')
+			.withArgs(eta + 60n);
+
+		const batch = (await getQueuedBatches(client, queueAddress)).find((b) => b.batchId == batchId);
+		expect(batch?.status).to.equal('expired');
+		expect((await getPendingBatches(client, queueAddress)).map((b) => b.batchId)).to.not.include(batchId);
+	});
+
+	it('should lower the minimum delay through the queue itself', async function () {
+		const call = getSetMinDelayCall(queueAddress, 0n);
+		const batchId = await queueBatch([{ target: call.to, value: 0n, data: call.data }], (await now()) + DELAY + 10n);
+
+		await evm_increaseTime(DELAY + 10n);
+		await expect(queue.executeQueuedBatch(batchId)).to.emit(queue, 'MinDelayChanged').withArgs(DELAY, 0);
+
+		await queue.executeBatch([setValue(5)], 0);
+		expect(await target.value()).to.equal(5n);
+	});
+});
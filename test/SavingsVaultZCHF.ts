@@ -1,53 +1,36 @@
 import { expect } from 'chai';
-import { ethers, network } from 'hardhat';
+import { ethers } from 'hardhat';
 import { formatEther, MaxUint256, parseEther, parseUnits, Signer, ZeroAddress } from 'ethers';
-import { IERC20, ISavingsZCHF, SavingsVaultZCHF } from '../typechain';
+import { MockERC20, MockSavingsZCHF, SavingsVaultZCHF } from '../typechain';
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
 import { evm_increaseTime } from './helper';
+import { deploySavingsFixture } from './helper/fixtures';
 
-describe('SavingsVaultZCHF on mainnet fork', function () {
+describe('SavingsVaultZCHF', function () {
 	let vault: SavingsVaultZCHF;
-	let savings: ISavingsZCHF;
-	let zchf: IERC20;
+	let savings: MockSavingsZCHF;
+	let zchf: MockERC20;
 
 	let owner: SignerWithAddress;
 	let user: SignerWithAddress;
-	let userZCHF: SignerWithAddress;
-
-	// TODO: Replace these with real deployed contract addresses on mainnet
-	const ZCHF_ADDRESS = '0xB58E61C3098d85632Df34EecfB899A1Ed80921cB';
-	const WHALE_ADDRESS = '0x5a57dD9C623e1403AF1D810673183D89724a4e0c';
-	const SAVINGS_ADDRESS = '0x27d9AD987BdE08a0d083ef7e0e4043C857A17B38';
 
 	const depositAmount = parseEther('100');
 
 	before(async () => {
 		[user, owner] = await ethers.getSigners();
 
-		// Attach interfaces to mainnet contracts
-		savings = await ethers.getContractAt('ISavingsZCHF', SAVINGS_ADDRESS);
-		zchf = await ethers.getContractAt('IERC20', ZCHF_ADDRESS);
+		// Local ZCHF and savings module stand-ins
+		({ zchf, savings } = await deploySavingsFixture());
 
-		// Deploy your vault, pointing at the mainnet ISavingsZCHF contract
+		// Deploy your vault, pointing at the savings module
 		const VaultFactory = await ethers.getContractFactory('SavingsVaultZCHF');
-		vault = await VaultFactory.deploy(owner, ZCHF_ADDRESS, SAVINGS_ADDRESS, 'SavingsVaultZCHF', 'svZCHF');
+		vault = await VaultFactory.deploy(owner, zchf, savings, 'SavingsVaultZCHF', 'svZCHF');
 
 		// Approve vault to spend user's ZCHF
 		await zchf.connect(user).approve(vault, MaxUint256);
 
-		// hardhat_impersonateAccount
-		await network.provider.request({
-			method: 'hardhat_impersonateAccount',
-			params: [WHALE_ADDRESS],
-		});
-		userZCHF = await ethers.getSigner(WHALE_ADDRESS);
-
-		// Fund with eth
-		await user.sendTransaction({ to: WHALE_ADDRESS, value: parseEther('1') });
-
-		// @dev: Fund user with ZCHF on fork using impersonation or pre-fund
-		// e.g. impersonate whale and transfer tokens to user
-		await zchf.connect(userZCHF).transfer(user, parseEther('10000'));
+		// Fund user with ZCHF
+		await zchf.mint(user, parseEther('10000'));
 	});
 
 	it('should correct vars', async function () {
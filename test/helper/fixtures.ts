@@ -0,0 +1,170 @@
+import { ethers } from 'hardhat';
+import { AddressLike, BaseContract, MaxUint256, parseEther } from 'ethers';
+import { PERMIT2_ADDRESS } from '../../exports/permit.types';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import {
+	FlashloanHookRegistry,
+	FlashloanOrchestrator,
+	IMorpho,
+	MockERC20,
+	MockERC20Permit,
+	MockIrm,
+	MockMorpho,
+	MockOracle,
+	MockPermit2,
+	MockSavingsZCHF,
+	MockWETH,
+	SavingsVaultZCHF,
+} from '../../typechain';
+
+// local stand-ins for the mainnet contracts, see /contracts/test
+// all fixtures are wrapped with loadFixture, so repeated calls revert to a snapshot instead of redeploying
+
+export const SAVINGS_RATE_PPM = 30_000n; // 3% p.a.
+export const BORROW_RATE_PER_SECOND = parseEther('0.02') / (365n * 24n * 3600n); // ~2% p.a.
+export const MARKET_LLTV = parseEther('0.915');
+export const ORACLE_PRICE = 10n ** 36n; // 1 svZCHF = 1 ZCHF, both 18 decimals
+export const MARKET_LIQUIDITY = parseEther('1000000');
+
+export type MarketParamsStruct = {
+	loanToken: string;
+	collateralToken: string;
+	oracle: string;
+	irm: string;
+	lltv: bigint;
+};
+
+export type SavingsFixture = {
+	zchf: MockERC20;
+	savings: MockSavingsZCHF;
+};
+
+export type MorphoFixture = SavingsFixture & {
+	vault: SavingsVaultZCHF;
+	morpho: IMorpho;
+	mockMorpho: MockMorpho;
+	oracle: MockOracle;
+	irm: MockIrm;
+	marketParams: MarketParamsStruct;
+	marketId: string;
+};
+
+export type OrchestratorFixture = {
+	orchestrator: FlashloanOrchestrator;
+	registry: FlashloanHookRegistry;
+	weth: MockWETH;
+};
+
+// ---------------------------------------------------------------------------------------
+
+export async function deployMockERC20(name: string, symbol: string, decimals: number = 18): Promise<MockERC20> {
+	const Factory = await ethers.getContractFactory('MockERC20');
+	return await Factory.deploy(name, symbol, decimals);
+}
+
+// empty version for the ZCHF domain (ERC20PermitLight), e.g. '2' for USDC
+export async function deployMockERC20Permit(
+	name: string,
+	symbol: string,
+	version: string,
+	decimals: number = 18
+): Promise<MockERC20Permit> {
+	const Factory = await ethers.getContractFactory('MockERC20Permit');
+	return await Factory.deploy(name, symbol, decimals, version);
+}
+
+// MockPermit2 runtime code at the canonical Permit2 address, where PermitLib expects it
+export async function deployPermit2(): Promise<MockPermit2> {
+	const mock = await (await ethers.getContractFactory('MockPermit2')).deploy();
+	const code = await ethers.provider.getCode(mock);
+	await ethers.provider.send('hardhat_setCode', [PERMIT2_ADDRESS, code]);
+
+	return await ethers.getContractAt('MockPermit2', PERMIT2_ADDRESS);
+}
+
+// ---------------------------------------------------------------------------------------
+
+async function savingsFixture(): Promise<SavingsFixture> {
+	const zchf = await deployMockERC20('Frankencoin', 'ZCHF');
+
+	const SavingsFactory = await ethers.getContractFactory('MockSavingsZCHF');
+	const savings = await SavingsFactory.deploy(zchf, SAVINGS_RATE_PPM);
+	await zchf.setMinter(savings, true);
+
+	return { zchf, savings };
+}
+
+// ZCHF and the Frankencoin savings module
+export async function deploySavingsFixture(): Promise<SavingsFixture> {
+	return await loadFixture(savingsFixture);
+}
+
+// ---------------------------------------------------------------------------------------
+
+// creates a loan/collateral market on the mock and supplies MARKET_LIQUIDITY from the deployer
+export async function createMarket(
+	mockMorpho: MockMorpho,
+	loan: MockERC20,
+	collateral: BaseContract,
+	oracle: MockOracle,
+	irm: MockIrm,
+	lltv: bigint = MARKET_LLTV
+): Promise<{ marketParams: MarketParamsStruct; marketId: string }> {
+	const [deployer] = await ethers.getSigners();
+
+	const marketParams: MarketParamsStruct = {
+		loanToken: await loan.getAddress(),
+		collateralToken: await collateral.getAddress(),
+		oracle: await oracle.getAddress(),
+		irm: await irm.getAddress(),
+		lltv,
+	};
+
+	await mockMorpho.createMarket(marketParams);
+	const marketId = await mockMorpho.getMarketId(marketParams);
+
+	// lender liquidity for borrows and flashloans
+	await loan.mint(deployer, MARKET_LIQUIDITY);
+	await loan.approve(mockMorpho, MaxUint256);
+	await mockMorpho.supply(marketParams, MARKET_LIQUIDITY, 0n, deployer, '0x');
+
+	return { marketParams, marketId };
+}
+
+// ---------------------------------------------------------------------------------------
+
+async function morphoFixture(): Promise<MorphoFixture> {
+	const [deployer] = await ethers.getSigners();
+	const { zchf, savings } = await savingsFixture();
+
+	const VaultFactory = await ethers.getContractFactory('SavingsVaultZCHF');
+	const vault = await VaultFactory.deploy(deployer, zchf, savings, 'SavingsVaultZCHF', 'svZCHF');
+
+	const mockMorpho = await (await ethers.getContractFactory('MockMorpho')).deploy();
+	const oracle = await (await ethers.getContractFactory('MockOracle')).deploy(ORACLE_PRICE);
+	const irm = await (await ethers.getContractFactory('MockIrm')).deploy(BORROW_RATE_PER_SECOND);
+
+	const { marketParams, marketId } = await createMarket(mockMorpho, zchf, vault, oracle, irm);
+
+	const morpho = await ethers.getContractAt('IMorpho', await mockMorpho.getAddress());
+
+	return { zchf, savings, vault, morpho, mockMorpho, oracle, irm, marketParams, marketId };
+}
+
+// savings fixture plus a svZCHF vault and a ZCHF/svZCHF Morpho market with lender liquidity
+export async function deployMorphoFixture(): Promise<MorphoFixture> {
+	return await loadFixture(morphoFixture);
+}
+
+// ---------------------------------------------------------------------------------------
+
+// orchestrator with an empty hook registry owned by the deployer, hooks have to be added before use
+export async function deployOrchestrator(morpho: AddressLike): Promise<OrchestratorFixture> {
+	const [deployer] = await ethers.getSigners();
+
+	const registry = await (await ethers.getContractFactory('FlashloanHookRegistry')).deploy(deployer);
+	const weth = await (await ethers.getContractFactory('MockWETH')).deploy();
+	const orchestrator = await (await ethers.getContractFactory('FlashloanOrchestrator')).deploy(morpho, registry, weth);
+
+	return { orchestrator, registry, weth };
+}